@@ -6,9 +6,10 @@ import { AgentBuilder } from './components/AgentBuilder';
 import { LiveInterface } from './components/LiveInterface';
 import { StoryInterface } from './components/StoryInterface';
 import { PodcastInterface } from './components/PodcastInterface';
+import { SessionPlayback } from './components/SessionPlayback';
 import { AgentPersona, User, Project } from './types';
 
-type ViewMode = 'AUTH' | 'DASHBOARD' | 'BUILDER' | 'LIVE' | 'STORY_EDITOR' | 'PODCAST';
+type ViewMode = 'AUTH' | 'DASHBOARD' | 'BUILDER' | 'LIVE' | 'STORY_EDITOR' | 'PODCAST' | 'SESSION_PLAYBACK';
 
 function App() {
   const [view, setView] = useState<ViewMode>('AUTH');
@@ -36,7 +37,9 @@ function App() {
   const handleEditProject = (project: Project) => {
     setActiveAgent(project.agent);
     setActiveProject(project);
-    if (project.isPodcast) {
+    if (project.isLiveSession) {
+      setView('SESSION_PLAYBACK');
+    } else if (project.isPodcast) {
       setView('PODCAST');
     } else {
       setView('STORY_EDITOR');
@@ -98,7 +101,11 @@ function App() {
         )}
 
         {view === 'LIVE' && activeAgent && (
-            <LiveInterface agent={activeAgent} onExit={handleExitToDashboard} />
+            <LiveInterface agent={activeAgent} user={currentUser || undefined} onUserChange={setCurrentUser} onExit={handleExitToDashboard} />
+        )}
+
+        {view === 'SESSION_PLAYBACK' && activeProject && (
+            <SessionPlayback project={activeProject} onExit={handleExitToDashboard} />
         )}
 
         {view === 'STORY_EDITOR' && activeAgent && currentUser && (
@@ -1,11 +1,17 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { VoiceSelector } from './VoiceSelector';
-import { AgentPersona, VoiceOption, VoiceName, Gender } from '../types';
-import { DEFAULT_INSTRUCTION, DEFAULT_VOICES } from '../constants';
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { blobToBase64, decodeAudioData } from '../utils/audio';
+import { AgentPersona, AgentTool, ToolHandlerType, VoiceOption, VoiceName, Gender } from '../types';
+import { DEFAULT_INSTRUCTION, DEFAULT_VOICES, TOOL_TEMPLATES } from '../constants';
+import { getSpeechProvider } from '../utils/speechProvider';
+import { CacheStats } from './CacheStats';
+import { RateLimitControl } from './RateLimitControl';
+import { SpeechProviderBadge } from './SpeechProviderBadge';
+import { ErrorNotice } from './ErrorNotice';
+import { applyVoiceSettings, blobToBase64, int16ToFloat32 } from '../utils/audio';
+import { synthesizeWithCache } from '../utils/ttsCache';
 import { saveCustomVoice, getCustomVoices, deleteCustomVoice } from '../utils/db';
+import { toolNameErrors, uniqueToolName } from '../utils/tools';
 
 interface AgentBuilderProps {
   onComplete: (agent: AgentPersona, mode: 'LIVE' | 'TTS' | 'PODCAST') => void;
@@ -25,6 +31,9 @@ const COLORS = [
 export const AgentBuilder: React.FC<AgentBuilderProps> = ({ onComplete }) => {
   const [name, setName] = useState('Nexus-7');
   const [instruction, setInstruction] = useState(DEFAULT_INSTRUCTION);
+  const [tools, setTools] = useState<AgentTool[]>([]);
+  const [toolSchemaDrafts, setToolSchemaDrafts] = useState<Record<string, string>>({});
+  const [toolSchemaErrors, setToolSchemaErrors] = useState<Record<string, string>>({});
   
   const [voices, setVoices] = useState<VoiceOption[]>(DEFAULT_VOICES);
   const [selectedVoiceId, setSelectedVoiceId] = useState<string>(DEFAULT_VOICES[0].id);
@@ -46,6 +55,7 @@ export const AgentBuilder: React.FC<AgentBuilderProps> = ({ onComplete }) => {
   const [isCloningOpen, setIsCloningOpen] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [error, setError] = useState<unknown>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const chunksRef = useRef<Blob[]>([]);
 
@@ -64,9 +74,13 @@ export const AgentBuilder: React.FC<AgentBuilderProps> = ({ onComplete }) => {
     loadSavedVoices();
   }, []);
 
+  const nameErrors = toolNameErrors(tools);
+
   const handleStart = (mode: 'LIVE' | 'TTS' | 'PODCAST') => {
     const selectedVoiceDetails = voices.find(v => v.id === selectedVoiceId);
     if (!selectedVoiceDetails) return;
+    // The errors are already shown under each tool; duplicate declarations would confuse dispatch
+    if (Object.keys(nameErrors).length > 0) return;
 
     onComplete({
       id: crypto.randomUUID(),
@@ -77,10 +91,38 @@ export const AgentBuilder: React.FC<AgentBuilderProps> = ({ onComplete }) => {
         pitch: selectedVoiceDetails.pitch
       },
       systemInstruction: instruction,
-      avatarColor: selectedVoiceDetails.color
+      avatarColor: selectedVoiceDetails.color,
+      tools
     }, mode);
   };
 
+  const handleAddTool = (handler: ToolHandlerType) => {
+    const template = TOOL_TEMPLATES[handler];
+    const tool: AgentTool = { ...template, id: crypto.randomUUID(), name: uniqueToolName(template.name, tools) };
+    setTools([...tools, tool]);
+    setToolSchemaDrafts(prev => ({ ...prev, [tool.id]: JSON.stringify(tool.parameters, null, 2) }));
+  };
+
+  const updateTool = (id: string, updates: Partial<AgentTool>) => {
+    setTools(tools.map(t => t.id === id ? { ...t, ...updates } : t));
+  };
+
+  const handleRemoveTool = (id: string) => {
+    setTools(tools.filter(t => t.id !== id));
+  };
+
+  const handleToolSchemaChange = (id: string, value: string) => {
+    setToolSchemaDrafts(prev => ({ ...prev, [id]: value }));
+    try {
+      const parsed = JSON.parse(value);
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) throw new Error('Schema must be a JSON object');
+      updateTool(id, { parameters: parsed });
+      setToolSchemaErrors(prev => ({ ...prev, [id]: '' }));
+    } catch (e) {
+      setToolSchemaErrors(prev => ({ ...prev, [id]: e instanceof Error ? e.message : String(e) }));
+    }
+  };
+
   const openCreateModal = () => {
     setEditingVoice(null);
     setFormName('New Personality Module');
@@ -141,41 +183,26 @@ export const AgentBuilder: React.FC<AgentBuilderProps> = ({ onComplete }) => {
     setPreviewingVoiceId(voice.id);
 
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
       const text = `Greetings. I am ${voice.name}. Protocol initialized.`;
       
-      const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash-preview-tts",
-        contents: [{ parts: [{ text: text }] }],
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: {
-              prebuiltVoiceConfig: { voiceName: voice.apiId },
-            },
-          },
-        },
-      });
+      const provider = getSpeechProvider();
+      const pcm = await synthesizeWithCache({ model: provider.ttsModel, voice: voice.apiId, text }, () => provider.tts({ text, voice: voice.apiId }));
 
-      const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-      if (base64Audio) {
+      if (pcm) {
           const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
-          const buffer = await decodeAudioData(base64Audio, ctx);
+          // Same tempo/pitch processing the Live agent applies, so the preview matches
+          const processed = applyVoiceSettings(int16ToFloat32(pcm), 24000, { speed: voice.speed, pitch: voice.pitch });
+          const buffer = ctx.createBuffer(1, processed.length, 24000);
+          buffer.getChannelData(0).set(processed);
           const source = ctx.createBufferSource();
           source.buffer = buffer;
-          source.playbackRate.value = voice.speed;
-          source.detune.value = voice.pitch;
           source.connect(ctx.destination);
           source.start();
       }
 
-    } catch (e: any) {
+    } catch (e) {
       console.error("Preview failed", e);
-      if (e.message?.includes("429") || e.status === 429) {
-          alert("Neural Link Throttled (Quota Exceeded). Please wait 30 seconds before another preview.");
-      } else {
-          alert("Synthesis interface failure. Check neural connection.");
-      }
+      setError(e);
     } finally {
       // Cooldown to prevent spamming
       setTimeout(() => setPreviewingVoiceId(null), 1500);
@@ -214,34 +241,8 @@ export const AgentBuilder: React.FC<AgentBuilderProps> = ({ onComplete }) => {
   const analyzeVoice = async (audioBlob: Blob) => {
       setIsAnalyzing(true);
       try {
-          const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
           const base64Audio = await blobToBase64(audioBlob);
-          const prompt = `Analyze this voice sample for pitch, speed, and gender. Map it to one of the Gemini prebuilt voices (Puck, Charon, Kore, Fenrir, Zephyr). Return only JSON.`;
-          const response = await ai.models.generateContent({
-              model: 'gemini-3-flash-preview',
-              contents: {
-                  parts: [
-                      { inlineData: { mimeType: 'audio/webm', data: base64Audio } },
-                      { text: prompt }
-                  ]
-              },
-              config: {
-                  responseMimeType: 'application/json',
-                  responseSchema: {
-                      type: Type.OBJECT,
-                      properties: {
-                          suggestedName: { type: Type.STRING },
-                          baseVoice: { type: Type.STRING, enum: [VoiceName.Puck, VoiceName.Charon, VoiceName.Kore, VoiceName.Fenrir, VoiceName.Zephyr] },
-                          speed: { type: Type.NUMBER },
-                          pitch: { type: Type.NUMBER },
-                          description: { type: Type.STRING },
-                          systemInstruction: { type: Type.STRING },
-                          gender: { type: Type.STRING, enum: [Gender.Male, Gender.Female, Gender.Neutral] }
-                      }
-                  }
-              }
-          });
-          const result = JSON.parse(response.text);
+          const result = await getSpeechProvider().analyzeVoice({ mimeType: 'audio/webm', data: base64Audio });
           const clonedVoice: VoiceOption = {
               id: `cloned-${Date.now()}`,
               apiId: result.baseVoice,
@@ -262,7 +263,7 @@ export const AgentBuilder: React.FC<AgentBuilderProps> = ({ onComplete }) => {
           setIsCloningOpen(false);
       } catch (e) {
           console.error("Analysis failed", e);
-          alert("Failed to analyze voice sample.");
+          setError(e);
       } finally {
           setIsAnalyzing(false);
       }
@@ -288,6 +289,10 @@ export const AgentBuilder: React.FC<AgentBuilderProps> = ({ onComplete }) => {
          </button>
        </header>
 
+       {error && !isCloningOpen && !isEditorOpen && (
+         <div className="mb-6"><ErrorNotice error={error} onDismiss={() => setError(null)} /></div>
+       )}
+
        {showVoiceVault && (
          <div className="mb-8 bg-slate-900/80 border border-slate-700 p-6 rounded-xl animate-fade-in shadow-[0_20px_50px_rgba(0,0,0,0.5)]">
             <h3 className="text-cyan-400 font-mono mb-4 text-sm uppercase flex items-center gap-2">
@@ -330,6 +335,42 @@ export const AgentBuilder: React.FC<AgentBuilderProps> = ({ onComplete }) => {
                 <label className="block text-cyan-400 font-mono text-sm mb-2 uppercase tracking-wider">System Protocol (Instructions)</label>
                 <textarea value={instruction} onChange={(e) => setInstruction(e.target.value)} className="w-full bg-slate-950 border border-slate-700 rounded p-3 text-white h-32 focus:border-cyan-500 focus:outline-none focus:ring-1 focus:ring-cyan-500 transition-all font-sans text-sm resize-none" placeholder="Define behavior..." />
               </div>
+              <div>
+                <div className="flex justify-between items-center mb-2">
+                  <label className="block text-cyan-400 font-mono text-sm uppercase tracking-wider">Tool Modules (Live Link)</label>
+                  <select value="" onChange={(e) => { if (e.target.value) handleAddTool(e.target.value as ToolHandlerType); }} className="bg-slate-950 border border-slate-700 rounded px-2 py-1 text-[10px] text-slate-400 font-mono focus:border-cyan-500 outline-none">
+                    <option value="">+ ADD TOOL</option>
+                    <option value="clock">Clock</option>
+                    <option value="calculator">Calculator</option>
+                    <option value="project_lookup">Project Lookup</option>
+                    <option value="http_fetch">Local HTTP Endpoint</option>
+                  </select>
+                </div>
+                {tools.length === 0 ? (
+                  <p className="text-slate-600 text-xs italic">No tools attached. The agent can only talk.</p>
+                ) : (
+                  <div className="space-y-3 max-h-72 overflow-y-auto pr-1 custom-scrollbar">
+                    {tools.map(tool => (
+                      <div key={tool.id} className="bg-slate-950 border border-slate-800 rounded p-3 space-y-2 relative group">
+                        <button onClick={() => handleRemoveTool(tool.id)} className="absolute top-2 right-2 text-slate-600 hover:text-red-400 p-1" title="Remove Tool">
+                          <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                        </button>
+                        <div className="flex items-center gap-2 pr-6">
+                          <span className="text-[9px] text-cyan-500 font-mono uppercase border border-cyan-500/30 px-1.5 py-0.5 rounded">{tool.handler.replace('_', ' ')}</span>
+                          <input value={tool.name} onChange={(e) => updateTool(tool.id, { name: e.target.value.replace(/[^a-zA-Z0-9_]/g, '_') })} className={`flex-1 bg-slate-900 border rounded px-2 py-1 text-xs text-white font-mono outline-none ${nameErrors[tool.id] ? 'border-red-500/60' : 'border-slate-800 focus:border-cyan-500'}`} placeholder="function_name" />
+                        </div>
+                        {nameErrors[tool.id] && <p className="text-[10px] text-red-400 font-mono">{nameErrors[tool.id]}</p>}
+                        <input value={tool.description} onChange={(e) => updateTool(tool.id, { description: e.target.value })} className="w-full bg-slate-900 border border-slate-800 rounded px-2 py-1 text-xs text-slate-300 focus:border-cyan-500 outline-none" placeholder="What the tool does (shown to the model)" />
+                        {tool.handler === 'http_fetch' && (
+                          <input value={tool.endpoint || ''} onChange={(e) => updateTool(tool.id, { endpoint: e.target.value })} className="w-full bg-slate-900 border border-slate-800 rounded px-2 py-1 text-xs text-slate-300 font-mono focus:border-cyan-500 outline-none" placeholder="http://localhost:8787/tool" />
+                        )}
+                        <textarea value={toolSchemaDrafts[tool.id] ?? JSON.stringify(tool.parameters, null, 2)} onChange={(e) => handleToolSchemaChange(tool.id, e.target.value)} className={`w-full bg-slate-900 border rounded px-2 py-1 text-[10px] text-slate-400 font-mono h-24 resize-none outline-none ${toolSchemaErrors[tool.id] ? 'border-red-500/60' : 'border-slate-800 focus:border-cyan-500'}`} spellCheck={false} />
+                        {toolSchemaErrors[tool.id] && <p className="text-[10px] text-red-400 font-mono">{toolSchemaErrors[tool.id]}</p>}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
            </div>
            
            <div className="grid grid-cols-3 gap-4">
@@ -348,7 +389,10 @@ export const AgentBuilder: React.FC<AgentBuilderProps> = ({ onComplete }) => {
          <div className="bg-slate-900/30 rounded-xl border border-slate-800 p-4 flex flex-col h-full">
             <div className="flex justify-between items-center mb-4 px-2">
                  <h2 className="text-cyan-400 font-mono text-sm uppercase tracking-wider">Select Voice Module</h2>
-                 <div className="flex gap-2">
+                 <div className="flex items-center gap-3">
+                    <CacheStats />
+                    <RateLimitControl />
+                    <SpeechProviderBadge />
                     <button onClick={() => setShowVoiceVault(true)} className="p-2 border border-slate-600 rounded hover:bg-slate-800 text-slate-400 hover:text-cyan-400 transition-colors" title="Open Vault"><svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" /></svg></button>
                  </div>
             </div>
@@ -362,6 +406,7 @@ export const AgentBuilder: React.FC<AgentBuilderProps> = ({ onComplete }) => {
          <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
             <div className="bg-slate-900 border border-cyan-500/50 rounded-xl w-full max-w-lg p-6 shadow-[0_0_50px_rgba(0,243,255,0.1)] relative max-h-[90vh] overflow-y-auto custom-scrollbar">
                <h3 className="text-xl font-mono text-white mb-6 border-b border-slate-700 pb-2">{editingVoice ? 'RECALIBRATE VOICE MODULE' : 'INITIALIZE NEW VOICE'}</h3>
+               {error && <div className="mb-4"><ErrorNotice error={error} onDismiss={() => setError(null)} /></div>}
                <div className="space-y-4">
                   <div><label className="block text-xs text-slate-400 mb-1 font-mono">MODULE NAME</label><input className="w-full bg-slate-950 border border-slate-700 rounded p-2 text-white font-mono focus:border-cyan-500 outline-none" value={formName} onChange={e => setFormName(e.target.value)} /></div>
                   <div><label className="block text-xs text-slate-400 mb-1 font-mono">DESCRIPTION</label><textarea className="w-full bg-slate-950 border border-slate-700 rounded p-2 text-white text-sm focus:border-cyan-500 outline-none h-16 resize-none" value={formDesc} onChange={e => setFormDesc(e.target.value)} /></div>
@@ -379,16 +424,23 @@ export const AgentBuilder: React.FC<AgentBuilderProps> = ({ onComplete }) => {
                   <div className="bg-slate-950/50 p-4 rounded border border-slate-800">
                     <label className="block text-cyan-400 text-xs font-mono mb-3 uppercase border-b border-slate-800 pb-1">Audio Parameters</label>
                     <div className="mb-4">
-                      <div className="flex justify-between text-xs text-slate-400 mb-1"><span>PITCH (Detune)</span><span className="text-cyan-400">{formPitch} cents</span></div>
+                      <div className="flex justify-between text-xs text-slate-400 mb-1"><span>PITCH</span><span className="text-cyan-400">{formPitch} cents</span></div>
                       <input type="range" min="-1200" max="1200" step="50" value={formPitch} onChange={(e) => setFormPitch(Number(e.target.value))} className="w-full h-2 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-cyan-500" />
                     </div>
                     <div>
-                      <div className="flex justify-between text-xs text-slate-400 mb-1"><span>SPEED (Rate)</span><span className="text-cyan-400">{formSpeed}x</span></div>
+                      <div className="flex justify-between text-xs text-slate-400 mb-1"><span>SPEED (Tempo)</span><span className="text-cyan-400">{formSpeed}x</span></div>
                       <input type="range" min="0.5" max="2.0" step="0.1" value={formSpeed} onChange={(e) => setFormSpeed(Number(e.target.value))} className="w-full h-2 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-cyan-500" />
                     </div>
                   </div>
                </div>
                <div className="flex justify-end gap-3 mt-8">
+                  <button
+                    onClick={() => handlePreviewVoice({ ...(editingVoice || { id: 'editor-draft', isCustom: true }), apiId: formBaseVoice, name: formName, description: formDesc, gender: formGender, color: formColor, speed: formSpeed, pitch: formPitch })}
+                    disabled={!!previewingVoiceId}
+                    className="mr-auto px-4 py-2 border border-slate-700 hover:border-cyan-500 text-slate-300 hover:text-white font-mono text-sm rounded disabled:opacity-50"
+                  >
+                    {previewingVoiceId ? 'PLAYING...' : 'PREVIEW'}
+                  </button>
                   <button onClick={() => setIsEditorOpen(false)} className="px-4 py-2 text-slate-400 hover:text-white font-mono text-sm">CANCEL</button>
                   <button onClick={handleSaveVoice} className="px-6 py-2 bg-cyan-600 hover:bg-cyan-500 text-white font-mono rounded shadow-[0_0_15px_rgba(6,182,212,0.4)]">SAVE TO VAULT</button>
                </div>
@@ -401,6 +453,7 @@ export const AgentBuilder: React.FC<AgentBuilderProps> = ({ onComplete }) => {
             <div className="bg-slate-900 border border-pink-500/50 rounded-xl w-full max-w-lg p-8 shadow-[0_0_80px_rgba(236,72,153,0.15)] relative flex flex-col items-center">
                <h3 className="text-2xl font-mono font-bold text-white mb-2 text-center">BIOMETRIC VOICE CLONING</h3>
                <p className="text-slate-400 text-center text-sm mb-8">Record a sample to synthesize a matching persona.</p>
+               {error && <div className="w-full mb-6"><ErrorNotice error={error} onDismiss={() => setError(null)} /></div>}
                <div className={`relative w-40 h-40 flex items-center justify-center mb-8 rounded-full border-2 ${isRecording ? 'border-pink-500 animate-pulse' : 'border-slate-700'}`}>
                   {isAnalyzing ? (
                       <div className="absolute inset-0 flex flex-col items-center justify-center"><div className="w-12 h-12 border-4 border-t-pink-500 border-r-transparent border-b-pink-500 border-l-transparent rounded-full animate-spin mb-2"></div><span className="text-xs text-pink-400 font-mono animate-pulse">ANALYZING DNA</span></div>
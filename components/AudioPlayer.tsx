@@ -0,0 +1,141 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { PcmPlayer } from '../hooks/usePcmPlayer';
+import { formatTime, loopRegion, LoopRegion, PLAYBACK_SPEEDS, waveformPeaks } from '../utils/waveform';
+
+interface AudioPlayerProps {
+  player: PcmPlayer;
+  color?: string; // Played part of the waveform
+  label?: string;
+}
+
+const WAVEFORM_BARS = 300;
+const SEEK_STEP_SECONDS = 5;
+
+// Transport for a usePcmPlayer: waveform with click/drag seeking (shift-drag marks a loop),
+// play/pause/stop, time readout and speed
+export const AudioPlayer: React.FC<AudioPlayerProps> = ({ player, color = '#22d3ee', label }) => {
+  const { pcm, duration, position, isPlaying, loop, speed } = player;
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ mode: 'seek' | 'loop'; anchor: number; region?: LoopRegion } | null>(null);
+  const peaks = useMemo(() => (pcm ? waveformPeaks(pcm, WAVEFORM_BARS) : new Float32Array(0)), [pcm]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const { width, height } = canvas;
+    ctx.clearRect(0, 0, width, height);
+    if (loop && duration > 0) {
+      ctx.fillStyle = 'rgba(245, 158, 11, 0.15)';
+      ctx.fillRect((loop.start / duration) * width, 0, ((loop.end - loop.start) / duration) * width, height);
+    }
+    const barWidth = width / WAVEFORM_BARS;
+    const played = duration > 0 ? (position / duration) * WAVEFORM_BARS : 0;
+    peaks.forEach((peak, i) => {
+      const barHeight = Math.max(1, peak * height * 0.9);
+      ctx.fillStyle = i < played ? color : '#334155';
+      ctx.fillRect(i * barWidth + 0.5, (height - barHeight) / 2, Math.max(1, barWidth - 1), barHeight);
+    });
+  }, [peaks, position, duration, loop, color]);
+
+  const timeAt = (e: React.PointerEvent) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)) * duration;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!pcm || e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const time = timeAt(e);
+    dragRef.current = { mode: e.shiftKey ? 'loop' : 'seek', anchor: time };
+    if (!e.shiftKey) player.seek(time);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    if (drag.mode === 'seek') player.seek(timeAt(e));
+    else {
+      const region = loopRegion(drag.anchor, timeAt(e), duration);
+      if (region) {
+        drag.region = region;
+        player.setLoop(region);
+      }
+    }
+  };
+
+  const handlePointerUp = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    // A new loop starts over from its beginning
+    if (drag?.region && isPlaying) player.seek(drag.region.start);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowLeft') player.seek(position - SEEK_STEP_SECONDS);
+    else if (e.key === 'ArrowRight') player.seek(position + SEEK_STEP_SECONDS);
+    else if (e.key === 'Home') player.seek(0);
+    else if (e.key === 'End') player.seek(duration);
+    else return;
+    e.preventDefault();
+  };
+
+  return (
+    <div className="flex flex-col gap-3 w-full">
+      <div className="flex items-center gap-4">
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <button
+            onClick={() => (isPlaying ? player.pause() : player.play())}
+            disabled={!pcm}
+            className={`w-12 h-12 rounded-full border flex items-center justify-center transition-all disabled:opacity-40 ${isPlaying ? 'bg-amber-500/20 border-amber-500 text-amber-400 hover:bg-amber-500/30' : 'bg-cyan-500/20 border-cyan-400 text-cyan-300 hover:bg-cyan-500/30 shadow-[0_0_20px_#22d3ee]'}`}
+            title={isPlaying ? 'Pause' : 'Play'}
+          >
+            {isPlaying
+              ? <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24"><path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z"/></svg>
+              : <svg className="w-6 h-6 ml-0.5" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z"/></svg>}
+          </button>
+          <button onClick={player.stop} disabled={!pcm || (!isPlaying && position === 0)} className="w-10 h-10 rounded-full border flex items-center justify-center transition-all bg-red-500/20 border-red-500 text-red-400 hover:bg-red-500/30 disabled:opacity-40" title="Stop">
+            <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24"><path d="M6 6h12v12H6z"/></svg>
+          </button>
+        </div>
+        <div
+          className="relative flex-1 h-16 bg-slate-950/90 rounded-xl border border-slate-800 overflow-hidden cursor-pointer touch-none focus:outline-none focus:border-cyan-500"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onKeyDown={handleKeyDown}
+          tabIndex={0}
+          role="slider"
+          aria-label="Playback position"
+          aria-valuemin={0}
+          aria-valuemax={Math.round(duration)}
+          aria-valuenow={Math.round(position)}
+          aria-valuetext={`${formatTime(position)} of ${formatTime(duration)}`}
+          title="Click or drag to seek · Shift-drag to loop a region"
+        >
+          <canvas ref={canvasRef} width={600} height={64} className="w-full h-full block" />
+          {duration > 0 && <div className="absolute top-0 bottom-0 w-px bg-white shadow-[0_0_6px_#fff] pointer-events-none" style={{ left: `${(position / duration) * 100}%` }} />}
+        </div>
+        <span className="flex-shrink-0 text-xs text-cyan-500 font-mono tabular-nums">{formatTime(position)} / {formatTime(duration)}</span>
+      </div>
+      <div className="flex flex-wrap items-center gap-3 font-mono text-[10px] uppercase tracking-widest">
+        {label && <span className="text-slate-500">{label}</span>}
+        <span className="mr-auto" />
+        {loop ? (
+          <span className="flex items-center gap-2 text-amber-400">
+            Loop {formatTime(loop.start)}–{formatTime(loop.end)}
+            <button onClick={() => player.setLoop(null)} className="text-slate-500 hover:text-red-400" title="Clear loop">✕</button>
+          </span>
+        ) : (
+          <span className="text-slate-600 normal-case tracking-normal">Shift-drag the waveform to loop</span>
+        )}
+        <div className="flex gap-1">
+          {PLAYBACK_SPEEDS.map(rate => (
+            <button key={rate} onClick={() => player.setSpeed(rate)} className={`px-2 py-1 rounded border ${speed === rate ? 'border-cyan-500 text-cyan-300' : 'border-slate-700 text-slate-500 hover:text-white'}`}>{rate}×</button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
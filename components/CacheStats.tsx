@@ -0,0 +1,34 @@
+import React, { useState } from 'react';
+import { useTtsCacheStats } from '../hooks/useTtsCacheStats';
+import { getTtsCacheBudget, setTtsCacheBudget, TTS_CACHE_BUDGETS_MB } from '../utils/ttsCache';
+
+const MB = 1024 * 1024;
+
+export const CacheStats: React.FC = () => {
+  const { hits, misses } = useTtsCacheStats();
+  const [budgetMb, setBudgetMb] = useState(() => Math.round(getTtsCacheBudget() / MB));
+
+  const handleBudget = (mb: number) => {
+    setBudgetMb(mb);
+    setTtsCacheBudget(mb * MB);
+  };
+
+  // A budget saved before the list changed still shows up as an option
+  const budgets = TTS_CACHE_BUDGETS_MB.includes(budgetMb) ? TTS_CACHE_BUDGETS_MB : [...TTS_CACHE_BUDGETS_MB, budgetMb].sort((a, b) => a - b);
+
+  return (
+    <span className="flex items-center gap-2 text-[10px] font-mono uppercase tracking-widest text-slate-500">
+      <span title="Synthesis cache hits / misses this session">
+        Cache <span className="text-emerald-400">{hits} hit</span> · <span className="text-amber-400">{misses} miss</span>
+      </span>
+      <select
+        value={budgetMb}
+        onChange={e => handleBudget(Number(e.target.value))}
+        className="bg-slate-950 border border-slate-700 rounded px-1 py-0.5 text-slate-400 focus:outline-none focus:border-cyan-500"
+        title="Space cached synthesis may use; the least recently used audio goes first"
+      >
+        {budgets.map(mb => <option key={mb} value={mb}>{mb} MB</option>)}
+      </select>
+    </span>
+  );
+};
@@ -87,7 +87,10 @@ export const Dashboard: React.FC<DashboardProps> = ({ user, onCreateNew, onEditP
                            </div>
                            <div>
                               <h3 className="text-white font-bold font-mono truncate max-w-[150px]">{project.name || "Untitled Project"}</h3>
-                              <p className="text-xs text-slate-500 font-mono">{project.agent.name}</p>
+                              <p className="text-xs text-slate-500 font-mono">
+                                {project.agent.name}
+                                {project.isLiveSession && <span className="ml-2 text-[9px] text-red-400 border border-red-500/40 px-1 rounded uppercase">Live Rec</span>}
+                              </p>
                            </div>
                         </div>
                         <button 
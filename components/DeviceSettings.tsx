@@ -0,0 +1,62 @@
+import React from 'react';
+import { AudioDevicePreferences } from '../types';
+import { AudioDeviceOption, supportsOutputSelection } from '../hooks/useAudioDevices';
+
+interface DeviceSettingsProps {
+  preferences: AudioDevicePreferences;
+  inputs: AudioDeviceOption[];
+  outputs: AudioDeviceOption[];
+  onChange: (preferences: AudioDevicePreferences) => void;
+}
+
+const PROCESSING_TOGGLES: { key: 'echoCancellation' | 'noiseSuppression' | 'autoGainControl'; label: string }[] = [
+  { key: 'echoCancellation', label: 'Echo Cancel' },
+  { key: 'noiseSuppression', label: 'Noise Suppress' },
+  { key: 'autoGainControl', label: 'Auto Gain' },
+];
+
+export const DeviceSettings: React.FC<DeviceSettingsProps> = ({ preferences, inputs, outputs, onChange }) => {
+  const canSelectOutput = supportsOutputSelection();
+
+  return (
+    <div className="w-full bg-slate-900/80 border border-slate-700 rounded-xl p-4 backdrop-blur-md space-y-4 shadow-lg">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-[10px] text-slate-500 font-mono uppercase tracking-widest mb-1">Microphone</label>
+          <select
+            value={preferences.inputDeviceId || ''}
+            onChange={(e) => onChange({ ...preferences, inputDeviceId: e.target.value || undefined })}
+            className="w-full bg-slate-950 border border-slate-700 rounded p-2 text-xs text-slate-300 font-mono focus:border-cyan-500 outline-none"
+          >
+            <option value="">System Default</option>
+            {inputs.map(d => <option key={d.deviceId} value={d.deviceId}>{d.label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-[10px] text-slate-500 font-mono uppercase tracking-widest mb-1">Speaker</label>
+          <select
+            value={preferences.outputDeviceId || ''}
+            disabled={!canSelectOutput}
+            onChange={(e) => onChange({ ...preferences, outputDeviceId: e.target.value || undefined })}
+            className="w-full bg-slate-950 border border-slate-700 rounded p-2 text-xs text-slate-300 font-mono focus:border-cyan-500 outline-none disabled:opacity-50"
+            title={canSelectOutput ? undefined : 'This browser cannot route audio to a specific output'}
+          >
+            <option value="">System Default</option>
+            {outputs.map(d => <option key={d.deviceId} value={d.deviceId}>{d.label}</option>)}
+          </select>
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {PROCESSING_TOGGLES.map(({ key, label }) => (
+          <button
+            key={key}
+            onClick={() => onChange({ ...preferences, [key]: !preferences[key] })}
+            className={`px-3 py-1.5 rounded border font-mono text-[10px] uppercase tracking-wider transition-all ${preferences[key] ? 'border-cyan-500/60 bg-cyan-900/30 text-cyan-300' : 'border-slate-700 text-slate-500 hover:text-slate-300'}`}
+          >
+            {preferences[key] ? '●' : '○'} {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
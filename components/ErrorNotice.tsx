@@ -0,0 +1,25 @@
+import React from 'react';
+import { describeGeminiError, toGeminiError } from '../utils/gemini';
+
+interface ErrorNoticeProps {
+  error: unknown;
+  onDismiss: () => void;
+  onRetry?: () => void;
+}
+
+// Inline replacement for alert(): renders a GeminiError (or anything thrown) in the app's style
+export const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, onDismiss, onRetry }) => {
+  const { code } = toGeminiError(error);
+  const isThrottle = code === 'rate_limited';
+
+  return (
+    <div className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg border font-mono text-xs animate-fade-in ${isThrottle ? 'bg-amber-950/40 border-amber-600/50 text-amber-300' : 'bg-red-950/40 border-red-600/50 text-red-300'}`} role="alert">
+      <span className="uppercase tracking-widest text-[10px] opacity-70">{code.replace('_', ' ')}</span>
+      <span className="flex-1">{describeGeminiError(error)}</span>
+      {onRetry && (
+        <button onClick={onRetry} className="px-3 py-1 border border-current rounded uppercase text-[10px] tracking-widest hover:bg-white/5">Retry</button>
+      )}
+      <button onClick={onDismiss} className="opacity-70 hover:opacity-100" title="Dismiss">✕</button>
+    </div>
+  );
+};
@@ -0,0 +1,208 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { int16ToFloat32, measureLoudness, measureTruePeak } from '../utils/audio';
+import { CoverArt } from '../utils/tags';
+import { Caption, CaptionFormat, captionFile } from '../utils/captions';
+import {
+  DEFAULT_EXPORT_SETTINGS, EXPORT_FORMATS, ExportFormat, ExportSampleRate, ExportSettings, MP3_BITRATES, Mp3Bitrate, OPUS_BITRATES,
+  estimateExportBytes, exportAudio, exportFileName, exportSampleRate,
+} from '../utils/exportAudio';
+import { ErrorNotice } from './ErrorNotice';
+
+interface ExportDialogProps {
+  pcm: Int16Array; // 24kHz mono render
+  title: string;
+  artist: string; // The agent's name
+  captions?: Caption[]; // Offered as SRT / WebVTT when the render has turn timings
+  onClose: () => void;
+}
+
+const download = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const formatLevel = (value: number, unit: string) => (Number.isFinite(value) ? `${value.toFixed(1)} ${unit}` : `-∞ ${unit}`);
+
+const formatBytes = (bytes: number) => (bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`);
+
+const labelClass = 'block text-xs text-slate-400 mb-1 font-mono';
+const inputClass = 'w-full bg-slate-950 border border-slate-700 rounded p-2 text-white text-sm focus:border-cyan-500 outline-none';
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ pcm, title: initialTitle, artist: initialArtist, captions, onClose }) => {
+  const [settings, setSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+  const [title, setTitle] = useState(initialTitle);
+  const [artist, setArtist] = useState(initialArtist);
+  const [cover, setCover] = useState<CoverArt | null>(null);
+  const [coverUrl, setCoverUrl] = useState('');
+  const [isEncoding, setIsEncoding] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+  const coverInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => () => { if (coverUrl) URL.revokeObjectURL(coverUrl); }, [coverUrl]);
+
+  const update = (patch: Partial<ExportSettings>) => setSettings(prev => ({ ...prev, ...patch }));
+  const { format } = settings;
+  const duration = pcm.length / 24000;
+
+  // Measured on the 24kHz render; resampling for export leaves both within a fraction of a dB
+  const levels = useMemo(() => {
+    const samples = int16ToFloat32(pcm);
+    return { loudness: measureLoudness(samples), truePeak: measureTruePeak(samples) };
+  }, [pcm]);
+
+  const handleCover = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const bitmap = await createImageBitmap(file);
+      setCover({ mimeType: file.type || 'image/jpeg', data: new Uint8Array(await file.arrayBuffer()), width: bitmap.width, height: bitmap.height });
+      bitmap.close();
+      setCoverUrl(URL.createObjectURL(file));
+    } catch (err) {
+      setError(new Error(`"${file.name}" is not an image this browser can read.`));
+    }
+  };
+
+  const handleExport = async () => {
+    setIsEncoding(true);
+    setError(null);
+    try {
+      download(await exportAudio(pcm, settings, { title, artist, cover: cover || undefined }), exportFileName(title, EXPORT_FORMATS[format].extension));
+      onClose();
+    } catch (err) {
+      setError(err);
+    } finally {
+      setIsEncoding(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-cyan-500/50 rounded-xl w-full max-w-lg p-6 shadow-[0_0_50px_rgba(0,243,255,0.1)] relative max-h-[90vh] overflow-y-auto custom-scrollbar">
+        <h3 className="text-xl font-mono text-white mb-6 border-b border-slate-700 pb-2">EXPORT AUDIO</h3>
+        {error && <div className="mb-4"><ErrorNotice error={error} onDismiss={() => setError(null)} /></div>}
+        <div className="space-y-4">
+          <div>
+            <label className={labelClass}>FORMAT</label>
+            <div className="grid grid-cols-4 gap-2">
+              {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(f => (
+                <button key={f} onClick={() => update({ format: f })} className={`py-2 rounded border font-mono text-xs uppercase ${format === f ? 'border-cyan-500 bg-cyan-500/10 text-cyan-300' : 'border-slate-700 text-slate-400 hover:text-white'}`}>{EXPORT_FORMATS[f].label}</button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>SAMPLE RATE</label>
+              {format === 'opus' ? (
+                <div className="p-2 text-sm text-slate-500 font-mono">48 kHz (Opus)</div>
+              ) : (
+                <select className={inputClass} value={settings.sampleRate} onChange={e => update({ sampleRate: Number(e.target.value) as ExportSampleRate })}>
+                  <option value={24000}>24 kHz (source)</option>
+                  <option value={44100}>44.1 kHz</option>
+                  <option value={48000}>48 kHz</option>
+                </select>
+              )}
+            </div>
+            <div>
+              <label className={labelClass}>CHANNELS</label>
+              <select className={inputClass} value={settings.channels} onChange={e => update({ channels: Number(e.target.value) as 1 | 2 })}>
+                <option value={1}>Mono</option>
+                <option value={2}>Stereo</option>
+              </select>
+            </div>
+          </div>
+
+          {format === 'mp3' && (
+            <div className="bg-slate-950/50 p-4 rounded border border-slate-800 space-y-3">
+              <div className="flex gap-2">
+                {(['cbr', 'vbr'] as const).map(mode => (
+                  <button key={mode} onClick={() => update({ mp3Mode: mode })} className={`px-3 py-1 rounded border font-mono text-[10px] uppercase tracking-widest ${settings.mp3Mode === mode ? 'border-cyan-500 text-cyan-300' : 'border-slate-700 text-slate-500 hover:text-white'}`}>{mode}</button>
+                ))}
+              </div>
+              {settings.mp3Mode === 'cbr' ? (
+                <select className={inputClass} value={settings.mp3Bitrate} onChange={e => update({ mp3Bitrate: Number(e.target.value) as Mp3Bitrate })}>
+                  {MP3_BITRATES.map(kbps => <option key={kbps} value={kbps}>{kbps} kbps</option>)}
+                </select>
+              ) : (
+                <div>
+                  <div className="flex justify-between text-xs text-slate-400 mb-1"><span>QUALITY</span><span className="text-cyan-400">V{settings.mp3Quality}</span></div>
+                  <input type="range" min="0" max="9" step="1" value={settings.mp3Quality} onChange={e => update({ mp3Quality: Number(e.target.value) })} className="w-full h-2 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-cyan-500" />
+                  <div className="flex justify-between text-[10px] text-slate-600 font-mono mt-1"><span>Best</span><span>Smallest</span></div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {format === 'opus' && (
+            <div>
+              <label className={labelClass}>BITRATE</label>
+              <select className={inputClass} value={settings.opusBitrate} onChange={e => update({ opusBitrate: Number(e.target.value) })}>
+                {OPUS_BITRATES.map(kbps => <option key={kbps} value={kbps}>{kbps} kbps</option>)}
+              </select>
+            </div>
+          )}
+
+          {EXPORT_FORMATS[format].tags ? (
+            <div className="bg-slate-950/50 p-4 rounded border border-slate-800 space-y-3">
+              <label className="block text-cyan-400 text-xs font-mono uppercase border-b border-slate-800 pb-1">Tags</label>
+              <div><label className={labelClass}>TITLE</label><input className={inputClass} value={title} onChange={e => setTitle(e.target.value)} /></div>
+              <div><label className={labelClass}>ARTIST</label><input className={inputClass} value={artist} onChange={e => setArtist(e.target.value)} /></div>
+              <div className="flex items-center gap-3">
+                {coverUrl
+                  ? <img src={coverUrl} alt="Cover art" className="w-14 h-14 rounded object-cover border border-slate-700" />
+                  : <div className="w-14 h-14 rounded border border-dashed border-slate-700 flex items-center justify-center text-[10px] text-slate-600 font-mono">NONE</div>}
+                <div className="flex flex-col gap-1">
+                  <button onClick={() => coverInputRef.current?.click()} className="px-3 py-1 border border-slate-700 hover:border-cyan-500 text-slate-300 hover:text-white font-mono text-[10px] uppercase tracking-widest rounded">Cover Art</button>
+                  {cover && (
+                    <button onClick={() => { setCover(null); setCoverUrl(''); }} className="text-[10px] text-slate-500 hover:text-red-400 font-mono text-left">Remove ({cover.width}×{cover.height})</button>
+                  )}
+                </div>
+                <input ref={coverInputRef} type="file" accept="image/jpeg,image/png" className="hidden" onChange={handleCover} />
+              </div>
+            </div>
+          ) : (
+            <p className="text-[10px] text-slate-500 font-mono">WAV files carry no tags; pick MP3, Opus or FLAC to include title, artist and cover art.</p>
+          )}
+
+          <div className="flex items-center gap-2 text-xs font-mono" title="Integrated loudness (ITU-R BS.1770) and true peak of the render">
+            <span className="mr-auto text-slate-400">LOUDNESS</span>
+            <span className="text-cyan-400">{formatLevel(levels.loudness, 'LUFS')}</span>
+            <span className="text-slate-600">·</span>
+            <span className={levels.truePeak > -1 ? 'text-amber-400' : 'text-cyan-400'}>{formatLevel(levels.truePeak, 'dBTP')}</span>
+          </div>
+
+          {captions && captions.length > 0 && (
+            <div className="flex items-center gap-2">
+              <span className="mr-auto text-xs text-slate-400 font-mono">CAPTIONS · {captions.length} CUES</span>
+              {(['srt', 'vtt'] as CaptionFormat[]).map(captionFormat => (
+                <button
+                  key={captionFormat}
+                  onClick={() => download(captionFile(captions, captionFormat), exportFileName(title, captionFormat))}
+                  className="px-3 py-1 border border-slate-700 hover:border-cyan-500 text-slate-300 hover:text-white font-mono text-[10px] uppercase tracking-widest rounded"
+                >
+                  {captionFormat === 'srt' ? 'SRT' : 'WebVTT'}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end gap-3 mt-8">
+          <span className="mr-auto text-xs text-slate-500 font-mono">
+            ~{formatBytes(estimateExportBytes(settings, duration))} · {exportSampleRate(settings) / 1000} kHz {settings.channels === 2 ? 'stereo' : 'mono'}
+          </span>
+          <button onClick={onClose} disabled={isEncoding} className="px-4 py-2 text-slate-400 hover:text-white font-mono text-sm disabled:opacity-50">CANCEL</button>
+          <button onClick={handleExport} disabled={isEncoding} className="px-6 py-2 bg-cyan-600 hover:bg-cyan-500 text-white font-mono rounded shadow-[0_0_15px_rgba(6,182,212,0.4)] disabled:opacity-50">
+            {isEncoding ? 'ENCODING...' : 'EXPORT'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,15 +1,59 @@
-import React, { useEffect, useState } from 'react';
-import { AgentPersona } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { AgentPersona, AudioDevicePreferences, LiveInputMode, User } from '../types';
 import { useLiveAgent } from '../hooks/useLiveAgent';
+import { useAudioDevices } from '../hooks/useAudioDevices';
+import { updateUser } from '../utils/db';
+import { DEFAULT_AUDIO_PREFERENCES } from '../constants';
 import { Visualizer } from './Visualizer';
+import { TranscriptLog } from './TranscriptLog';
+import { DeviceSettings } from './DeviceSettings';
+import { SpeechProviderBadge } from './SpeechProviderBadge';
 
 interface LiveInterfaceProps {
   agent: AgentPersona;
+  user?: User;
+  onUserChange?: (user: User) => void;
   onExit: () => void;
 }
 
-export const LiveInterface: React.FC<LiveInterfaceProps> = ({ agent, onExit }) => {
-  const { connect, disconnect, isConnected, isSpeaking, volumeLevels, error } = useLiveAgent({ agent });
+export const LiveInterface: React.FC<LiveInterfaceProps> = ({ agent, user, onUserChange, onExit }) => {
+  const userId = user?.id;
+  const [recordSession, setRecordSession] = useState(false);
+  const [showDevices, setShowDevices] = useState(false);
+  const [inputMode, setInputMode] = useState<LiveInputMode>('continuous');
+  const [typedMessage, setTypedMessage] = useState('');
+  const [audioPreferences, setAudioPreferences] = useState<AudioDevicePreferences>(user?.audioPreferences || DEFAULT_AUDIO_PREFERENCES);
+  const { inputs, outputs, refresh: refreshDevices } = useAudioDevices();
+
+  // Preferences apply immediately (hot-swap mid-session) and persist per user
+  const handlePreferencesChange = async (prefs: AudioDevicePreferences) => {
+    setAudioPreferences(prefs);
+    if (!user) return;
+    try {
+      const updated = await updateUser({ ...user, audioPreferences: prefs });
+      onUserChange?.(updated);
+    } catch (e) {
+      console.error("Failed to save audio preferences", e);
+    }
+  };
+  const [showBargeIn, setShowBargeIn] = useState(false);
+  const bargeInTimeoutRef = useRef<number | null>(null);
+
+  const handleInterrupted = () => {
+    setShowBargeIn(true);
+    if (bargeInTimeoutRef.current) clearTimeout(bargeInTimeoutRef.current);
+    bargeInTimeoutRef.current = window.setTimeout(() => setShowBargeIn(false), 1500);
+  };
+
+  useEffect(() => {
+    return () => { if (bargeInTimeoutRef.current) clearTimeout(bargeInTimeoutRef.current); };
+  }, []);
+
+  const {
+    connect, disconnect, isConnected, connectionState, reconnectAttempt, maxReconnectAttempts,
+    isSpeaking, volumeLevels, transcript, isRecording, isSavingRecording, savedRecording, interruptions,
+    isTalking, startTalking, stopTalking, sendText, error
+  } = useLiveAgent({ agent, userId, recordSession, onInterrupted: handleInterrupted, audioPreferences, inputMode });
   const [sessionTime, setSessionTime] = useState(0);
 
   useEffect(() => {
@@ -22,6 +66,63 @@ export const LiveInterface: React.FC<LiveInterfaceProps> = ({ agent, onExit }) =
     return () => clearInterval(interval);
   }, [isConnected]);
 
+  // Spacebar push-to-talk (ignored while typing in a field)
+  useEffect(() => {
+    if (inputMode !== 'push_to_talk' || !isConnected) return;
+    const isTypingTarget = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      return !!target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable);
+    };
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || e.repeat || isTypingTarget(e)) return;
+      e.preventDefault();
+      startTalking();
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTypingTarget(e)) return;
+      e.preventDefault();
+      stopTalking();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', stopTalking);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', stopTalking);
+    };
+  }, [inputMode, isConnected, startTalking, stopTalking]);
+
+  const handleSendText = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (sendText(typedMessage)) setTypedMessage('');
+  };
+
+  // Device labels only become visible once mic permission is granted
+  useEffect(() => {
+    if (isConnected) refreshDevices();
+  }, [isConnected, refreshDevices]);
+
+  const isActive = connectionState !== 'idle';
+
+  const statusLabel = () => {
+    switch (connectionState) {
+      case 'connected': return `ONLINE • ${formatTime(sessionTime)}`;
+      case 'connecting': return 'CONNECTING...';
+      case 'reconnecting': return `RECONNECTING (${reconnectAttempt}/${maxReconnectAttempts})`;
+      default: return 'OFFLINE';
+    }
+  };
+
+  const statusMessage = () => {
+    if (showBargeIn) return "USER OVERRIDE — AGENT SILENCED";
+    if (isSpeaking) return "RECEIVING TRANSMISSION...";
+    if (isConnected) {
+      return inputMode === 'push_to_talk' && !isTalking ? "MIC MUTED • HOLD SPACE TO TALK" : "AWAITING AUDIO INPUT...";
+    }
+    return connectionState === 'reconnecting' ? "RE-ESTABLISHING NEURAL LINK..." : "SYSTEM STANDBY";
+  };
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60).toString().padStart(2, '0');
     const secs = (seconds % 60).toString().padStart(2, '0');
@@ -44,7 +145,7 @@ export const LiveInterface: React.FC<LiveInterfaceProps> = ({ agent, onExit }) =
       )}
 
       {/* Main Holographic Container */}
-      <div className="relative z-10 w-full max-w-4xl px-6 flex flex-col items-center">
+      <div className="relative z-10 w-full max-w-6xl px-6 flex flex-col items-center">
         
         {/* Agent Name Badge */}
         <div className="mb-10 text-center animate-float">
@@ -53,50 +154,78 @@ export const LiveInterface: React.FC<LiveInterfaceProps> = ({ agent, onExit }) =
               {agent.name.toUpperCase()}
             </h2>
             <div className="flex items-center justify-center gap-2 mt-1">
-               <span className={`block w-2 h-2 rounded-full ${isConnected ? 'bg-green-500 animate-pulse' : 'bg-red-500'}`}></span>
-               <span className="text-xs text-cyan-300 font-sans tracking-widest uppercase">
-                 {isConnected ? `ONLINE • ${formatTime(sessionTime)}` : 'OFFLINE'}
+               <span className={`block w-2 h-2 rounded-full ${isConnected ? 'bg-green-500 animate-pulse' : (isActive ? 'bg-amber-500 animate-pulse' : 'bg-red-500')}`}></span>
+               <span className={`text-xs font-sans tracking-widest uppercase ${connectionState === 'reconnecting' ? 'text-amber-300' : 'text-cyan-300'}`}>
+                 {statusLabel()}
                </span>
+               {isConnected && interruptions > 0 && (
+                 <span className="text-[10px] text-amber-400 font-mono tracking-widest uppercase" title="Times you cut the agent off">⤫ {interruptions}</span>
+               )}
+               {isRecording && (
+                 <span className="text-[10px] text-red-400 font-mono tracking-widest uppercase border border-red-500/40 px-1.5 rounded animate-pulse">● REC</span>
+               )}
+               <SpeechProviderBadge />
             </div>
           </div>
         </div>
 
-        {/* Central Visualizer Core */}
-        <div className="relative w-80 h-80 md:w-96 md:h-96 mb-12 flex items-center justify-center">
-            {/* Rotating Rings */}
-            <div className={`absolute inset-0 border-2 border-dashed border-slate-700 rounded-full ${isConnected ? 'animate-spin-slow' : ''}`}></div>
-            <div className={`absolute inset-4 border border-cyan-900/40 rounded-full ${isConnected ? 'animate-spin-slow' : ''} style={{animationDirection: 'reverse'}}`}></div>
+        <div className="w-full flex flex-col lg:flex-row items-center justify-center gap-8 mb-12">
+          {/* Central Visualizer Core */}
+          <div className="relative flex-shrink-0 w-80 h-80 md:w-96 md:h-96 flex items-center justify-center">
+              {/* Rotating Rings */}
+              <div className={`absolute inset-0 border-2 border-dashed border-slate-700 rounded-full ${isConnected ? 'animate-spin-slow' : ''}`}></div>
+              <div className={`absolute inset-4 border border-cyan-900/40 rounded-full ${isConnected ? 'animate-spin-slow' : ''} style={{animationDirection: 'reverse'}}`}></div>
             
-            {/* Core Glow */}
-            <div className={`
-               absolute w-64 h-64 rounded-full bg-gradient-to-br ${agent.avatarColor} opacity-20 blur-2xl transition-all duration-300
-               ${isSpeaking ? 'scale-110 opacity-40' : 'scale-100'}
-            `}></div>
-
-            {/* Visualizer Canvas Container */}
-            <div className="relative z-20 w-full h-64 flex flex-col justify-center gap-2">
-               {/* Output (Agent) Visualizer */}
-               <div className="w-full h-24 relative">
-                  <Visualizer level={volumeLevels.output} color="#00f3ff" isActive={isConnected} />
-                  <div className="absolute top-2 right-12 text-[9px] font-mono text-cyan-500/40 uppercase tracking-widest">
-                     AGENT_VOICE
-                  </div>
-               </div>
+              {/* Core Glow */}
+              <div className={`
+                 absolute w-64 h-64 rounded-full bg-gradient-to-br ${agent.avatarColor} opacity-20 blur-2xl transition-all duration-300
+                 ${isSpeaking ? 'scale-110 opacity-40' : 'scale-100'}
+              `}></div>
+
+              {/* Visualizer Canvas Container */}
+              <div className="relative z-20 w-full h-64 flex flex-col justify-center gap-2">
+                 {/* Output (Agent) Visualizer */}
+                 <div className="w-full h-24 relative">
+                    <Visualizer level={volumeLevels.output} color="#00f3ff" isActive={isConnected} />
+                    <div className="absolute top-2 right-12 text-[9px] font-mono text-cyan-500/40 uppercase tracking-widest">
+                       AGENT_VOICE
+                    </div>
+                 </div>
                
-               {/* Input (Mic) Visualizer - Mirrored */}
-               <div className="w-full h-24 relative transform scale-y-[-1]">
-                  <Visualizer level={volumeLevels.input} color="#bc13fe" isActive={isConnected} />
-               </div>
-               {/* Mic Label (Absolute to avoid transform flip) */}
-               <div className="absolute bottom-6 right-12 text-[9px] font-mono text-purple-500/40 uppercase tracking-widest pointer-events-none">
-                  USER_MIC
-               </div>
-            </div>
+                 {/* Input (Mic) Visualizer - Mirrored */}
+                 <div className="w-full h-24 relative transform scale-y-[-1]">
+                    <Visualizer level={volumeLevels.input} color="#bc13fe" isActive={isConnected} />
+                 </div>
+                 {/* Mic Label (Absolute to avoid transform flip) */}
+                 <div className="absolute bottom-6 right-12 text-[9px] font-mono text-purple-500/40 uppercase tracking-widest pointer-events-none">
+                    USER_MIC
+                 </div>
+              </div>
+          </div>
+
+          {/* Live Transcript */}
+          <div className="w-full lg:w-96 h-64 lg:h-96 flex flex-col gap-2">
+              <div className="flex-1 min-h-0">
+                <TranscriptLog entries={transcript} agentName={agent.name} />
+              </div>
+              <form onSubmit={handleSendText} className="flex gap-2">
+                <input
+                  value={typedMessage}
+                  onChange={(e) => setTypedMessage(e.target.value)}
+                  disabled={!isConnected}
+                  placeholder={isConnected ? 'Type a message...' : 'Connect to send text'}
+                  className="flex-1 bg-slate-900/80 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white font-sans focus:border-cyan-500 focus:outline-none disabled:opacity-50"
+                />
+                <button type="submit" disabled={!isConnected || !typedMessage.trim()} className="px-4 py-2 bg-cyan-600/30 border border-cyan-500/50 text-cyan-300 rounded-lg font-mono text-xs uppercase hover:bg-cyan-600/50 transition-all disabled:opacity-40 disabled:cursor-not-allowed">
+                  Send
+                </button>
+              </form>
+          </div>
         </div>
 
         {/* Controls */}
-        <div className="flex gap-6 z-20">
-          {!isConnected ? (
+        <div className="flex flex-wrap justify-center gap-6 z-20">
+          {!isActive ? (
             <button
               onClick={connect}
               className="group relative px-8 py-4 bg-transparent overflow-hidden rounded-lg"
@@ -121,6 +250,45 @@ export const LiveInterface: React.FC<LiveInterfaceProps> = ({ agent, onExit }) =
             </button>
           )}
 
+          {isConnected && inputMode === 'push_to_talk' && (
+            <button
+              onPointerDown={(e) => { e.preventDefault(); startTalking(); }}
+              onPointerUp={stopTalking}
+              onPointerLeave={stopTalking}
+              onPointerCancel={stopTalking}
+              className={`px-8 py-4 rounded-lg border font-mono font-bold uppercase text-sm tracking-widest select-none touch-none transition-all ${isTalking ? 'border-purple-400 bg-purple-600/50 text-white shadow-[0_0_25px_rgba(188,19,254,0.5)] scale-105' : 'border-purple-500/50 bg-purple-900/30 text-purple-300 hover:bg-purple-900/50'}`}
+            >
+              {isTalking ? '● Transmitting' : 'Hold to Talk (Space)'}
+            </button>
+          )}
+
+          <button
+            onClick={() => setInputMode(inputMode === 'continuous' ? 'push_to_talk' : 'continuous')}
+            disabled={isActive}
+            title={isActive ? 'Input mode can only be changed while offline' : 'Switch between open mic and push-to-talk'}
+            className="px-6 py-4 border border-slate-700 bg-slate-900/50 rounded-lg text-slate-300 hover:text-white hover:border-slate-500 transition-all font-mono uppercase text-sm tracking-wider disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {inputMode === 'continuous' ? 'Open Mic' : 'Push-to-Talk'}
+          </button>
+
+          {userId && (
+            <button
+              onClick={() => setRecordSession(!recordSession)}
+              disabled={isActive}
+              title={isActive ? 'Recording can only be toggled while offline' : 'Save this call as a project when it ends'}
+              className={`px-6 py-4 border rounded-lg font-mono uppercase text-sm tracking-wider transition-all disabled:cursor-not-allowed ${recordSession ? 'border-red-500/60 bg-red-900/30 text-red-300' : 'border-slate-700 bg-slate-900/50 text-slate-400 hover:text-white hover:border-slate-500'}`}
+            >
+              {recordSession ? '● Recording On' : '○ Record Session'}
+            </button>
+          )}
+
+          <button
+             onClick={() => setShowDevices(!showDevices)}
+             className={`px-6 py-4 border rounded-lg transition-all font-mono uppercase text-sm tracking-wider ${showDevices ? 'border-cyan-500/60 bg-cyan-900/30 text-cyan-300' : 'border-slate-700 bg-slate-900/50 text-slate-300 hover:text-white hover:border-slate-500'}`}
+          >
+            Audio I/O
+          </button>
+
           <button
              onClick={onExit}
              className="px-6 py-4 border border-slate-700 bg-slate-900/50 rounded-lg text-slate-300 hover:text-white hover:border-slate-500 transition-all font-mono uppercase text-sm tracking-wider"
@@ -129,11 +297,21 @@ export const LiveInterface: React.FC<LiveInterfaceProps> = ({ agent, onExit }) =
           </button>
         </div>
 
+        {showDevices && (
+          <div className="w-full max-w-2xl mt-6 z-20 animate-fade-in">
+            <DeviceSettings preferences={audioPreferences} inputs={inputs} outputs={outputs} onChange={handlePreferencesChange} />
+          </div>
+        )}
+
         {/* Status Text */}
-        <div className="mt-8 text-center h-6">
-            <p className="text-cyan-400/80 font-mono text-sm tracking-widest animate-pulse">
-                {isSpeaking ? "RECEIVING TRANSMISSION..." : (isConnected ? "AWAITING AUDIO INPUT..." : "SYSTEM STANDBY")}
+        <div className="mt-8 text-center min-h-6">
+            <p className={`font-mono text-sm tracking-widest animate-pulse ${showBargeIn ? 'text-amber-400' : 'text-cyan-400/80'}`}>
+                {statusMessage()}
             </p>
+            {isSavingRecording && <p className="mt-2 text-slate-400 font-mono text-xs tracking-widest">ARCHIVING SESSION...</p>}
+            {savedRecording && !isActive && (
+              <p className="mt-2 text-green-400/80 font-mono text-xs tracking-widest">SESSION SAVED TO COMMAND CENTER • {savedRecording.duration.toFixed(1)}S</p>
+            )}
         </div>
 
       </div>
@@ -0,0 +1,25 @@
+import React, { useState } from 'react';
+import { GEMINI_RPM_OPTIONS, getGeminiRateLimit, setGeminiRateLimit } from '../utils/gemini';
+
+// Requests per minute the shared Gemini queue lets through; match it to the API key's quota
+export const RateLimitControl: React.FC = () => {
+  const [rpm, setRpm] = useState(getGeminiRateLimit);
+
+  const handleChange = (next: number) => {
+    setRpm(next);
+    setGeminiRateLimit(next);
+  };
+
+  const options = GEMINI_RPM_OPTIONS.includes(rpm) ? GEMINI_RPM_OPTIONS : [...GEMINI_RPM_OPTIONS, rpm].sort((a, b) => a - b);
+
+  return (
+    <select
+      value={rpm}
+      onChange={e => handleChange(Number(e.target.value))}
+      className="bg-slate-950 border border-slate-700 rounded px-1 py-0.5 text-[10px] font-mono uppercase tracking-widest text-slate-400 focus:outline-none focus:border-cyan-500"
+      title="Gemini requests per minute; lower it to your API key's quota to avoid throttling"
+    >
+      {options.map(value => <option key={value} value={value}>{value} RPM</option>)}
+    </select>
+  );
+};
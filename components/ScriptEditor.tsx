@@ -0,0 +1,68 @@
+import React, { useMemo, useRef } from 'react';
+import { CastMember } from '../types';
+import { castColor } from '../utils/cast';
+import { ScriptToken, ScriptTokenKind, tokenizeScript } from '../utils/script';
+
+interface ScriptEditorProps {
+  value: string;
+  cast: CastMember[];
+  onChange: (value: string) => void;
+  placeholder?: string;
+}
+
+// Colors only: anything that changes glyph widths would pull the highlights out of line with the caret
+const TOKEN_CLASSES: Record<ScriptTokenKind, string> = {
+  text: '',
+  speaker: '',
+  direction: 'text-amber-300 bg-amber-500/10 rounded',
+  pause: 'text-purple-300 bg-purple-500/10 rounded',
+  sfx: 'text-sky-300 bg-sky-500/10 rounded',
+  heading: 'text-emerald-300',
+  unknown: 'text-red-300 underline decoration-wavy decoration-red-500/60',
+};
+
+// Both layers need identical metrics and an always-present scrollbar to wrap the same way
+const LAYER_CLASSES = 'p-6 font-sans text-xl leading-relaxed whitespace-pre-wrap break-words overflow-y-scroll custom-scrollbar';
+
+// Textarea over a highlighted copy of the script: the text itself is transparent so the
+// colored layer shows through while selection, caret and editing stay native.
+export const ScriptEditor: React.FC<ScriptEditorProps> = ({ value, cast, onChange, placeholder }) => {
+  const backdropRef = useRef<HTMLDivElement>(null);
+  const tokens = useMemo(() => tokenizeScript(value, cast), [value, cast]);
+  const colors = useMemo(() => new Map(cast.map((member, i) => [member.id, castColor(member, i)])), [cast]);
+
+  // Tags in the character's color, the rest of the turn tinted towards it
+  const tokenStyle = (token: ScriptToken): React.CSSProperties | undefined => {
+    const color = token.castId && colors.get(token.castId);
+    if (!color) return undefined;
+    if (token.kind === 'speaker') return { color };
+    if (token.kind === 'text') return { color: `color-mix(in srgb, ${color} 35%, #e2e8f0)` };
+    return undefined;
+  };
+
+  const syncScroll = (e: React.UIEvent<HTMLTextAreaElement>) => {
+    if (!backdropRef.current) return;
+    backdropRef.current.scrollTop = e.currentTarget.scrollTop;
+    backdropRef.current.scrollLeft = e.currentTarget.scrollLeft;
+  };
+
+  return (
+    <div className="relative flex-1 flex bg-slate-950 rounded-b-lg overflow-hidden">
+      <div ref={backdropRef} aria-hidden className={`${LAYER_CLASSES} absolute inset-0 pointer-events-none text-slate-200`}>
+        {tokens.map((token, i) => (
+          <span key={i} className={TOKEN_CLASSES[token.kind]} style={tokenStyle(token)}>{token.text}</span>
+        ))}
+        {/* Keeps a trailing empty line as tall as it is in the textarea */}
+        {'\n'}
+      </div>
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onScroll={syncScroll}
+        placeholder={placeholder}
+        spellCheck={false}
+        className={`${LAYER_CLASSES} relative flex-1 bg-transparent text-transparent caret-slate-200 placeholder:text-slate-600 focus:outline-none resize-none selection:bg-cyan-500/30`}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { Project, TranscriptEntry } from '../types';
+import { Visualizer } from './Visualizer';
+import { TranscriptLog } from './TranscriptLog';
+import { ExportDialog } from './ExportDialog';
+import { AudioPlayer } from './AudioPlayer';
+import { usePcmPlayer } from '../hooks/usePcmPlayer';
+
+interface SessionPlaybackProps {
+  project: Project;
+  onExit: () => void;
+}
+
+export const SessionPlayback: React.FC<SessionPlaybackProps> = ({ project, onExit }) => {
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const player = usePcmPlayer(project.audioData);
+
+  // Older recordings without structured turns fall back to the plain-text transcript
+  const entries: TranscriptEntry[] = project.transcript || project.text.split('\n').filter(Boolean).map((line, i) => ({
+    id: `line-${i}`,
+    role: line.startsWith('[Tool ') ? 'tool' : (line.startsWith(`${project.agent.name}:`) ? 'agent' : 'user'),
+    text: line.startsWith('[Tool ') ? line : line.replace(/^[^:]+:\s*/, ''),
+    timestamp: project.createdAt,
+    isFinal: true,
+  }));
+
+  return (
+    <div className="relative w-full min-h-screen flex flex-col items-center p-6 bg-slate-950">
+      <div className="absolute inset-0 bg-[radial-gradient(circle_at_top,_var(--tw-gradient-stops))] from-cyan-900/20 via-slate-950 to-black pointer-events-none"></div>
+      <div className="relative z-10 w-full max-w-5xl flex flex-col gap-6">
+
+        <div className="flex justify-between items-center bg-slate-900/50 backdrop-blur-md p-4 rounded-xl border border-slate-800">
+          <div className="flex items-center gap-4">
+            <button onClick={onExit} className="text-slate-400 hover:text-white transition-colors">
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" /></svg>
+            </button>
+            <div>
+              <h2 className="text-xl font-mono font-bold text-white tracking-widest">{project.name}</h2>
+              <div className="flex items-center gap-2 mt-1">
+                <div className={`w-2 h-2 rounded-full bg-gradient-to-r ${project.agent.avatarColor}`}></div>
+                <span className="text-xs text-slate-400 uppercase">Agent: {project.agent.name}</span>
+                <span className="text-xs text-slate-600">|</span>
+                <span className="text-xs text-slate-500 uppercase">Read-only recording</span>
+              </div>
+            </div>
+          </div>
+          <button onClick={onExit} className="text-slate-400 hover:text-white font-mono text-xs border border-slate-700 px-4 py-2 rounded hover:bg-slate-800 transition-all">CLOSE</button>
+        </div>
+
+        <div className="bg-slate-900/80 border border-cyan-500/30 rounded-3xl p-8 backdrop-blur-xl">
+          <div className="flex flex-col md:flex-row items-center gap-10">
+            <div className="flex flex-col flex-1 w-full gap-4">
+              <div className="h-24 w-full bg-slate-950/90 rounded-2xl overflow-hidden relative border border-slate-800"><Visualizer level={player.level} color={player.isPlaying ? "#00f3ff" : "#334155"} isActive={player.isPlaying} /></div>
+              <AudioPlayer player={player} label="Session Mixdown (Mic + Agent)" />
+            </div>
+            {project.audioData && (
+              <button onClick={() => setIsExportOpen(true)} className="flex-shrink-0 px-8 py-4 bg-slate-800 hover:bg-slate-700 border border-slate-600 hover:border-cyan-500 text-white rounded-2xl font-mono text-sm uppercase tracking-widest flex items-center gap-3 transition-all">
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
+                Export
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="h-[500px]">
+          <TranscriptLog entries={entries} agentName={project.agent.name} />
+        </div>
+      </div>
+      {isExportOpen && project.audioData && (
+        <ExportDialog pcm={project.audioData} title={project.name} artist={project.agent.name} onClose={() => setIsExportOpen(false)} />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,15 @@
+import React from 'react';
+import { isMockSpeechProvider } from '../utils/speechProvider';
+
+// Flags synthetic audio so a mock render is never mistaken for the real voice
+export const SpeechProviderBadge: React.FC = () => {
+  if (!isMockSpeechProvider()) return null;
+  return (
+    <span
+      className="text-[10px] font-mono uppercase tracking-widest text-amber-400 border border-amber-500/40 px-1.5 rounded"
+      title="SPEECH_PROVIDER=mock: audio is synthesized locally, not by Gemini"
+    >
+      Mock provider
+    </span>
+  );
+};
@@ -1,11 +1,28 @@
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { GoogleGenAI, Modality } from '@google/genai';
-import { AgentPersona, Project, VoiceOption, CastMember } from '../types';
-import { base64ToUint8Array, pcmToWav } from '../utils/audio';
-import { saveProject, getCustomVoices } from '../utils/db';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { AgentPersona, Project, VoiceOption, CastMember, CastPreset, StorySegment, GenerationJob, AudioAsset, MixTrack, MixTrackKind, TurnTiming, MasteringSettings } from '../types';
+import { decodeAudioFile, DEFAULT_MASTERING, LOUDNESS_TARGETS, renderVoicePcm } from '../utils/audio';
+import { synthesizeWithCache } from '../utils/ttsCache';
+import { saveProject, getCustomVoices, getCheckpoints, getGenerationJob, deleteGenerationJob, getCastPresets, saveCastPreset, deleteCastPreset, getAudioAssets, saveAudioAsset, deleteAudioAsset } from '../utils/db';
+import { castColor, castFromPreset, moveCastMember, nextCastColor, presetFromCast } from '../utils/cast';
+import { reconcileSegments, segmentTimings, turnTimings } from '../utils/segments';
+import { activeCaption, buildCaptions } from '../utils/captions';
+import { DEFAULT_DUCKING_DB, DEFAULT_MUSIC_VOLUME, DEFAULT_SFX_VOLUME, mixStory, unmatchedCues } from '../utils/mixer';
+import { parseScript } from '../utils/script';
+import { castForCharacters, exportFountain, importScript, SCRIPT_IMPORT_ACCEPT } from '../utils/scriptFormats';
 import { Visualizer } from './Visualizer';
+import { AudioPlayer } from './AudioPlayer';
+import { ScriptEditor } from './ScriptEditor';
 import { DEFAULT_VOICES } from '../constants';
+import { getSpeechProvider } from '../utils/speechProvider';
+import { segmentStyle } from '../utils/speechStyle';
+import { formatEta, GenerationProgress, runGenerationJob } from '../utils/generationJob';
+import { CacheStats } from './CacheStats';
+import { RateLimitControl } from './RateLimitControl';
+import { SpeechProviderBadge } from './SpeechProviderBadge';
+import { ErrorNotice } from './ErrorNotice';
+import { ExportDialog } from './ExportDialog';
+import { usePcmPlayer } from '../hooks/usePcmPlayer';
 
 interface StoryInterfaceProps {
   agent: AgentPersona;
@@ -14,11 +31,6 @@ interface StoryInterfaceProps {
   onExit: () => void;
 }
 
-interface ScriptTurn {
-  voiceId: string;
-  text: string;
-}
-
 export const StoryInterface: React.FC<StoryInterfaceProps> = ({ agent, initialProject, userId, onExit }) => {
   const [projectId] = useState(initialProject?.id || crypto.randomUUID());
   const [projectName, setProjectName] = useState(initialProject?.name || 'Untitled Project');
@@ -26,13 +38,23 @@ export const StoryInterface: React.FC<StoryInterfaceProps> = ({ agent, initialPr
   const [currentAudioData, setCurrentAudioData] = useState<Int16Array | null>(initialProject?.audioData || null);
   const [duration, setDuration] = useState(initialProject?.duration || 0);
   const [isLoading, setIsLoading] = useState(false);
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [isPaused, setIsPaused] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [lastSaved, setLastSaved] = useState<number | null>(null);
-  const [volumeLevel, setVolumeLevel] = useState(0);
   const [voiceVolume, setVoiceVolume] = useState(initialProject ? initialProject.voiceVolume : 1.0);
-  const [downloadUrl, setDownloadUrl] = useState<string>('');
+  const [tracks, setTracks] = useState<MixTrack[]>(initialProject?.tracks || []);
+  const [duckingDb, setDuckingDb] = useState(initialProject?.duckingDb ?? DEFAULT_DUCKING_DB);
+  const [mastering, setMastering] = useState<MasteringSettings>(initialProject?.mastering || DEFAULT_MASTERING);
+  const [audioAssets, setAudioAssets] = useState<AudioAsset[] | null>(null); // null until loaded
+  const [selectedAssetId, setSelectedAssetId] = useState('');
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  
+  const [segments, setSegments] = useState<StorySegment[]>(initialProject?.segments || []);
+  // Projects saved before timings were recorded can still work them out from their segments
+  const [timings, setTimings] = useState<TurnTiming[]>(() => initialProject?.timings || turnTimings(initialProject?.segments || [], initialProject?.cast || [], 24000, initialProject?.mastering));
+  const [selectedSegmentId, setSelectedSegmentId] = useState<string | null>(null);
+  const [error, setError] = useState<unknown>(null);
+  const [synthProgress, setSynthProgress] = useState<GenerationProgress | null>(null);
+  const [resumableJob, setResumableJob] = useState<GenerationJob | null>(null);
   
   const [availableVoices, setAvailableVoices] = useState<VoiceOption[]>(DEFAULT_VOICES);
   
@@ -40,15 +62,24 @@ export const StoryInterface: React.FC<StoryInterfaceProps> = ({ agent, initialPr
   const [cast, setCast] = useState<CastMember[]>(initialProject?.cast || [
     { id: crypto.randomUUID(), name: 'Narrator', voiceId: DEFAULT_VOICES.find(v => v.apiId === agent.voice)?.id || DEFAULT_VOICES[0].id }
   ]);
+  const [draggedCastId, setDraggedCastId] = useState<string | null>(null);
+  const [castPresets, setCastPresets] = useState<CastPreset[]>([]);
+  const [selectedPresetId, setSelectedPresetId] = useState('');
+
+  const parsedScript = useMemo(() => parseScript(text, cast), [text, cast]);
+  const missingCues = useMemo(() => unmatchedCues(parsedScript.turns, tracks), [parsedScript, tracks]);
+  const captions = useMemo(() => buildCaptions(timings), [timings]);
+  const assetPcm = useMemo(() => new Map((audioAssets || []).map(asset => [asset.id, asset.pcm])), [audioAssets]);
+
+  const player = usePcmPlayer(currentAudioData);
+  // Stopped at the start shows nothing; paused keeps the caption on screen
+  const caption = player.isPlaying || player.position > 0 ? activeCaption(captions, player.position) : null;
 
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const voiceSourceRef = useRef<AudioBufferSourceNode | null>(null);
-  const voiceGainRef = useRef<GainNode | null>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
-  const animationRef = useRef<number | null>(null);
-  const startTimeRef = useRef<number>(0);
-  const savedOffsetRef = useRef<number>(0);
-  const isManualStopRef = useRef<boolean>(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const musicInputRef = useRef<HTMLInputElement>(null);
+  const sfxInputRef = useRef<HTMLInputElement>(null);
+  const mixDirtyRef = useRef(false);
 
   // Load available voices including custom ones
   useEffect(() => {
@@ -63,6 +94,22 @@ export const StoryInterface: React.FC<StoryInterfaceProps> = ({ agent, initialPr
     loadVoices();
   }, []);
 
+  useEffect(() => {
+    getCastPresets().then(setCastPresets).catch(e => console.warn("Cast presets unavailable", e));
+  }, []);
+
+  useEffect(() => {
+    getAudioAssets().then(setAudioAssets).catch(e => {
+      console.warn("Audio assets unavailable", e);
+      setAudioAssets([]);
+    });
+  }, []);
+
+  // An unfinished job for this project means a render was cancelled, failed or cut off by a reload
+  useEffect(() => {
+    getGenerationJob(projectId).then(setResumableJob).catch(e => console.warn("Job lookup failed", e));
+  }, [projectId]);
+
   // Sync Cast Member Names (Single character = Narrator)
   useEffect(() => {
     if (cast.length === 1 && cast[0].name !== 'Narrator') {
@@ -72,31 +119,14 @@ export const StoryInterface: React.FC<StoryInterfaceProps> = ({ agent, initialPr
     }
   }, [cast.length]);
 
-  // Manage stable download URL
-  useEffect(() => {
-    if (currentAudioData) {
-      const blob = pcmToWav(currentAudioData, 24000);
-      const url = URL.createObjectURL(blob);
-      setDownloadUrl(url);
-      return () => URL.revokeObjectURL(url);
-    }
-    setDownloadUrl('');
-  }, [currentAudioData]);
-
-  useEffect(() => {
-    return () => {
-      stopPlayback(true);
-      if (audioContextRef.current) audioContextRef.current.close();
-      if (animationRef.current) cancelAnimationFrame(animationRef.current);
-    };
-  }, []);
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   const handleAddCharacter = () => {
-    if (cast.length >= 4) return;
     const newChar: CastMember = {
       id: crypto.randomUUID(),
       name: `Character ${cast.length + 1}`,
-      voiceId: availableVoices[0].id
+      voiceId: availableVoices[0].id,
+      color: nextCastColor(cast)
     };
     setCast([...cast, newChar]);
   };
@@ -110,99 +140,273 @@ export const StoryInterface: React.FC<StoryInterfaceProps> = ({ agent, initialPr
     setCast(cast.map(c => c.id === id ? { ...c, ...updates } : c));
   };
 
+  const handleDropCharacter = (targetId: string) => {
+    if (draggedCastId) setCast(moveCastMember(cast, draggedCastId, targetId));
+    setDraggedCastId(null);
+  };
+
+  const handleSaveCastPreset = async () => {
+    const current = castPresets.find(p => p.id === selectedPresetId);
+    const name = prompt('Save this cast as preset:', current?.name || projectName)?.trim();
+    if (!name) return;
+    // Saving under an existing name updates that preset
+    const existing = castPresets.find(p => p.name.toLowerCase() === name.toLowerCase());
+    const preset = { ...presetFromCast(name, cast), ...(existing ? { id: existing.id, createdAt: existing.createdAt } : {}) };
+    try {
+      await saveCastPreset(preset);
+      setCastPresets(await getCastPresets());
+      setSelectedPresetId(preset.id);
+    } catch (e) {
+      console.error("Saving cast preset failed", e);
+      setError(e);
+    }
+  };
+
+  const handleLoadCastPreset = () => {
+    const preset = castPresets.find(p => p.id === selectedPresetId);
+    if (!preset || preset.members.length === 0) return;
+    if (cast.length > 1 && !confirm(`Replace the current cast with "${preset.name}"?`)) return;
+    setCast(castFromPreset(preset, availableVoices));
+  };
+
+  const handleDeleteCastPreset = async () => {
+    const preset = castPresets.find(p => p.id === selectedPresetId);
+    if (!preset || !confirm(`Delete the cast preset "${preset.name}"?`)) return;
+    try {
+      await deleteCastPreset(preset.id);
+      setCastPresets(castPresets.filter(p => p.id !== preset.id));
+      setSelectedPresetId('');
+    } catch (e) {
+      console.error("Deleting cast preset failed", e);
+      setError(e);
+    }
+  };
+
+  const handleImportScript = async (file: File) => {
+    try {
+      const imported = importScript(file.name, await file.text());
+      if (!imported.text) throw new Error(`No script found in ${file.name}`);
+      if (text.trim() && !confirm(`Replace the current script with ${file.name}?`)) return;
+      setText(imported.text);
+      setCast(castForCharacters(cast, imported.characters, availableVoices));
+      if (imported.title && projectName === 'Untitled Project') setProjectName(imported.title);
+    } catch (e) {
+      console.error("Script import failed", e);
+      setError(e);
+    }
+  };
+
+  const handleExportFountain = () => {
+    const blob = new Blob([exportFountain(text, cast, projectName)], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${(projectName || 'untitled').replace(/\s+/g, '_')}.fountain`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Mixer edits mark the mix dirty; the effect below re-renders it once the edits settle
+  const updateMixer = (apply: () => void) => {
+    mixDirtyRef.current = true;
+    apply();
+  };
+
+  const updateTrack = (id: string, updates: Partial<MixTrack>) => {
+    updateMixer(() => setTracks(tracks.map(t => t.id === id ? { ...t, ...updates } : t)));
+  };
+
+  const addTrack = (asset: AudioAsset) => {
+    const track: MixTrack = {
+      id: crypto.randomUUID(),
+      assetId: asset.id,
+      name: asset.name,
+      kind: asset.kind,
+      volume: asset.kind === 'music' ? DEFAULT_MUSIC_VOLUME : DEFAULT_SFX_VOLUME,
+      ...(asset.kind === 'music' ? { loop: true } : {}),
+    };
+    updateMixer(() => setTracks([...tracks, track]));
+  };
+
+  const handleImportAudio = async (file: File, kind: MixTrackKind) => {
+    try {
+      const pcm = await decodeAudioFile(await file.arrayBuffer());
+      if (pcm.length === 0) throw new Error(`No audio found in ${file.name}`);
+      const asset: AudioAsset = {
+        id: crypto.randomUUID(),
+        name: file.name.replace(/\.[^.]+$/, ''),
+        kind,
+        pcm,
+        duration: pcm.length / 24000,
+        createdAt: Date.now(),
+      };
+      await saveAudioAsset(asset);
+      setAudioAssets([...(audioAssets || []), asset].sort((a, b) => a.name.localeCompare(b.name)));
+      addTrack(asset);
+    } catch (e) {
+      console.error("Audio import failed", e);
+      setError(e);
+    }
+  };
+
+  const handleAddLibraryAsset = () => {
+    const asset = audioAssets?.find(a => a.id === selectedAssetId);
+    if (!asset) return;
+    addTrack(asset);
+    setSelectedAssetId('');
+  };
+
+  // Removes the file from the library; other projects using it lose that track from their mix
+  const handleDeleteLibraryAsset = async () => {
+    const asset = audioAssets?.find(a => a.id === selectedAssetId);
+    if (!asset || !confirm(`Delete "${asset.name}" from the audio library? Projects using it will mix without it.`)) return;
+    try {
+      await deleteAudioAsset(asset.id);
+      setAudioAssets((audioAssets || []).filter(a => a.id !== asset.id));
+      setSelectedAssetId('');
+      if (tracks.some(t => t.assetId === asset.id)) updateMixer(() => setTracks(tracks.filter(t => t.assetId !== asset.id)));
+    } catch (e) {
+      console.error("Deleting library audio failed", e);
+      setError(e);
+    }
+  };
+
+  const synthesizeSegment = async (segment: StorySegment, signal: AbortSignal, refresh = false): Promise<Int16Array | null> => {
+    const voiceOption = availableVoices.find(v => v.id === segment.voiceId) || availableVoices[0];
+
+    const style = segmentStyle(segment, cast);
+
+    const provider = getSpeechProvider();
+    const pcmPart = await synthesizeWithCache(
+      { model: provider.ttsModel, voice: voiceOption.apiId, text: segment.text, style },
+      () => provider.tts({ text: segment.text, voice: voiceOption.apiId, style }, { signal }),
+      { refresh }
+    );
+    if (!pcmPart) return null;
+    // Bake the cast member's tempo/pitch into the render so exports match the voice editor
+    return renderVoicePcm(pcmPart, { speed: voiceOption.speed, pitch: voiceOption.pitch });
+  };
+
+  // Rebuilds the mix (voice, beds and sfx) from the segment list and persists both
+  const commitSegments = async (next: StorySegment[], overrides: Partial<Project> = {}) => {
+    setSegments(next);
+    const merged = mixStory(next, { voiceVolume, tracks, duckingDb, mastering }, assetPcm);
+    const audio = merged.length > 0 ? merged : null;
+    const newDuration = merged.length / 24000;
+    const nextTimings = turnTimings(next, cast, 24000, mastering);
+    setCurrentAudioData(audio);
+    setDuration(newDuration);
+    setTimings(nextTimings);
+    await saveToDB(audio, newDuration, { segments: next, timings: nextTimings, ...overrides });
+    return audio;
+  };
+
+  // Debounced so dragging a volume slider doesn't remix on every step
+  useEffect(() => {
+    if (!mixDirtyRef.current) return;
+    const timer = setTimeout(() => {
+      mixDirtyRef.current = false;
+      if (segments.some(s => s.audioData)) commitSegments(segments);
+      else saveToDB(currentAudioData, duration);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [voiceVolume, tracks, duckingDb, mastering]);
+
   const handleGenerate = async () => {
     if (!text.trim()) return;
     setIsLoading(true);
-    stopPlayback(true); 
+    player.stop();
+
+    setError(null);
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      
-      const turns: ScriptTurn[] = [];
-      const lines = text.split('\n');
-      
-      lines.forEach(line => {
-        const trimmedLine = line.trim();
-        if (!trimmedLine) return;
-
-        let foundMatch = false;
-        for (const member of cast) {
-          // Case insensitive match with flexible spacing
-          const regex = new RegExp(`^${member.name}\\s*:\\s*(.*)`, 'i');
-          const match = trimmedLine.match(regex);
-          if (match) {
-            turns.push({ 
-              voiceId: member.voiceId, 
-              text: match[1].trim() 
-            });
-            foundMatch = true;
-            break;
-          }
-        }
-
-        if (!foundMatch) {
-          // Narrative line, use the first character (usually Narrator)
-          turns.push({ 
-            voiceId: cast[0].voiceId, 
-            text: trimmedLine 
-          });
-        }
+      // Only lines whose text or voice changed since the last render need new audio;
+      // checkpoints from an interrupted run count as rendered
+      const checkpoints = await getCheckpoints(projectId).catch(() => [] as StorySegment[]);
+      const planned = reconcileSegments(parsedScript.turns, [...segments, ...checkpoints], availableVoices, getSpeechProvider().ttsModel, cast);
+      const next = await runGenerationJob({
+        jobId: projectId,
+        segments: planned,
+        synthesize: synthesizeSegment,
+        signal: controller.signal,
+        onProgress: setSynthProgress,
       });
+      setResumableJob(null);
+
+      const audio = await commitSegments(next);
+      if (audio) player.play(0, audio);
+    } catch (e) {
+      console.error("Story Generation failed", e);
+      if (!controller.signal.aborted) setError(e);
+      setResumableJob(await getGenerationJob(projectId).catch(() => null));
+    } finally {
+      setIsLoading(false);
+      setSynthProgress(null);
+    }
+  };
 
-      const allPcmParts: Int16Array[] = [];
-
-      for (const turn of turns) {
-        if (!turn.text) continue;
-
-        const voiceOption = availableVoices.find(v => v.id === turn.voiceId) || availableVoices[0];
-
-        const response = await ai.models.generateContent({
-          model: "gemini-2.5-flash-preview-tts",
-          contents: [{ parts: [{ text: turn.text }] }],
-          config: {
-            responseModalities: [Modality.AUDIO],
-            speechConfig: {
-              voiceConfig: {
-                prebuiltVoiceConfig: { voiceName: voiceOption.apiId as any },
-              },
-            },
-          },
-        });
-
-        const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-        if (base64Audio) {
-          const uint8Array = base64ToUint8Array(base64Audio);
-          const pcmPart = new Int16Array(uint8Array.buffer);
-          allPcmParts.push(pcmPart);
-        }
-        
-        await new Promise(r => setTimeout(r, 600)); // Delay to mitigate 429
-      }
+  const handleRegenerateSegment = async (id: string) => {
+    const segment = segments.find(s => s.id === id);
+    if (!segment) return;
+    setIsLoading(true);
+    player.stop();
 
-      if (allPcmParts.length > 0) {
-        const totalSamples = allPcmParts.reduce((acc, part) => acc + part.length, 0);
-        const mergedPcm = new Int16Array(totalSamples);
-        let offset = 0;
-        for (const part of allPcmParts) {
-          mergedPcm.set(part, offset);
-          offset += part.length;
-        }
-
-        setCurrentAudioData(mergedPcm);
-        const newDuration = mergedPcm.length / 24000;
-        setDuration(newDuration);
-        await saveToDB(mergedPcm, newDuration);
-        playAudioData(mergedPcm, 0);
-      }
-    } catch (error: any) {
-      console.error("Story Generation failed", error);
-      alert("Neural synthesis encountered an issue. Check your connection or retry in a moment.");
+    setError(null);
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      setSynthProgress({ done: 0, total: 1, etaMs: null });
+      const audioData = await synthesizeSegment(segment, controller.signal, true);
+      const next = segments.map(s => s.id === id ? { ...s, audioData } : s);
+      const audio = await commitSegments(next);
+      const start = segmentStart(next, id);
+      if (audio && start !== null) player.play(start, audio);
+    } catch (e) {
+      console.error("Segment regeneration failed", e);
+      if (!controller.signal.aborted) setError(e);
     } finally {
       setIsLoading(false);
+      setSynthProgress(null);
+    }
+  };
+
+  const handleCancelGeneration = () => abortRef.current?.abort();
+
+  const handleDiscardJob = async () => {
+    try {
+      await deleteGenerationJob(projectId);
+      setResumableJob(null);
+    } catch (e) {
+      console.error("Discarding generation job failed", e);
+      setError(e);
     }
   };
 
-  const saveToDB = useCallback(async (audio: Int16Array | null, dur: number) => {
+  const handleToggleMute = (id: string) => {
+    player.stop();
+    commitSegments(segments.map(s => s.id === id ? { ...s, muted: !s.muted } : s));
+  };
+
+  const handleMoveSegment = (id: string, direction: -1 | 1) => {
+    const index = segments.findIndex(s => s.id === id);
+    const target = index + direction;
+    if (index === -1 || target < 0 || target >= segments.length) return;
+    player.stop();
+
+    const next = [...segments];
+    [next[index], next[target]] = [next[target], next[index]];
+    // The script follows the timeline, otherwise the next render would undo the move.
+    // Blank lines keep each turn from running into the next one, and whatever follows the
+    // last turn (an epilogue heading, closing sfx) stays at the end.
+    const newText = [...next.map(s => s.sourceLine), parsedScript.trailing].filter(Boolean).join('\n\n');
+    setText(newText);
+    commitSegments(next, { text: newText });
+  };
+
+  const saveToDB = useCallback(async (audio: Int16Array | null, dur: number, overrides: Partial<Project> = {}) => {
       if (!userId) return;
       setIsSaving(true);
       const projectData: Project = {
@@ -216,7 +420,13 @@ export const StoryInterface: React.FC<StoryInterfaceProps> = ({ agent, initialPr
           audioData: audio,
           duration: dur,
           voiceVolume: voiceVolume,
-          cast: cast
+          tracks: tracks,
+          duckingDb: duckingDb,
+          mastering: mastering,
+          cast: cast,
+          segments: segments,
+          timings: timings,
+          ...overrides
       };
       try {
           await saveProject(projectData);
@@ -226,91 +436,21 @@ export const StoryInterface: React.FC<StoryInterfaceProps> = ({ agent, initialPr
       } finally {
           setIsSaving(false);
       }
-  }, [userId, projectId, projectName, initialProject, agent, text, voiceVolume, cast]);
+  }, [userId, projectId, projectName, initialProject, agent, text, voiceVolume, tracks, duckingDb, mastering, cast, segments, timings]);
 
-  const stopPlayback = (reset = true) => {
-    if (voiceSourceRef.current) {
-      isManualStopRef.current = true;
-      try { voiceSourceRef.current.stop(); voiceSourceRef.current.disconnect(); } catch (e) {}
-      voiceSourceRef.current = null;
-    }
-    setIsPlaying(false);
-    if (reset) {
-        setIsPaused(false);
-        savedOffsetRef.current = 0;
-    }
+  // Where a segment starts in the mix, in seconds; null if it isn't in it (muted or unrendered)
+  const segmentStart = (list: StorySegment[], id: string): number | null => {
+    const timing = segmentTimings(list, 24000, mastering).find(t => t.segment.id === id);
+    return timing ? timing.start / 24000 : null;
   };
 
-  const pausePlayback = () => {
-     if (!isPlaying || !voiceSourceRef.current || !audioContextRef.current) return;
-     const playbackRate = voiceSourceRef.current.playbackRate.value || 1;
-     const elapsed = (audioContextRef.current.currentTime - startTimeRef.current) * playbackRate;
-     savedOffsetRef.current += elapsed;
-     stopPlayback(false); 
-     setIsPaused(true);
+  const handlePlaySegment = (id: string) => {
+    const start = segmentStart(segments, id);
+    if (start === null) return;
+    player.setLoop(null);
+    player.play(start);
   };
 
-  const playAudioData = async (rawPcmData: Int16Array | null, offset = 0) => {
-    if (!rawPcmData) return;
-    if (voiceSourceRef.current) stopPlayback(false); 
-    isManualStopRef.current = false;
-    
-    if (!audioContextRef.current) {
-      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-    }
-    const ctx = audioContextRef.current;
-    if (ctx.state === 'suspended') await ctx.resume();
-
-    const buffer = ctx.createBuffer(1, rawPcmData.length, 24000);
-    const channelData = buffer.getChannelData(0);
-    for (let i = 0; i < rawPcmData.length; i++) channelData[i] = rawPcmData[i] / 32768.0;
-    
-    const source = ctx.createBufferSource();
-    source.buffer = buffer;
-    
-    const gainNode = ctx.createGain();
-    gainNode.gain.value = voiceVolume;
-    voiceGainRef.current = gainNode;
-    
-    const analyser = ctx.createAnalyser();
-    analyser.fftSize = 256;
-    analyserRef.current = analyser;
-    
-    source.connect(gainNode);
-    gainNode.connect(analyser);
-    analyser.connect(ctx.destination);
-    
-    source.onended = () => {
-        if (!isManualStopRef.current) {
-            setIsPlaying(false);
-            setIsPaused(false);
-            savedOffsetRef.current = 0;
-        }
-    };
-    source.start(0, offset);
-    startTimeRef.current = ctx.currentTime;
-    voiceSourceRef.current = source;
-    setIsPlaying(true);
-    setIsPaused(false);
-  };
-
-  useEffect(() => {
-    if (isPlaying && analyserRef.current) {
-      const update = () => {
-        const data = new Uint8Array(analyserRef.current!.frequencyBinCount);
-        analyserRef.current!.getByteFrequencyData(data);
-        const avg = data.reduce((a, b) => a + b, 0) / data.length;
-        setVolumeLevel(avg / 255);
-        animationRef.current = requestAnimationFrame(update);
-      };
-      update();
-    } else {
-      setVolumeLevel(0);
-      if (animationRef.current) cancelAnimationFrame(animationRef.current);
-    }
-    return () => { if (animationRef.current) cancelAnimationFrame(animationRef.current); };
-  }, [isPlaying]);
-
   return (
     <div className="relative w-full min-h-screen flex flex-col items-center p-6 bg-slate-950 overflow-y-auto custom-scrollbar">
        <div className="absolute inset-0 bg-[radial-gradient(circle_at_top,_var(--tw-gradient-stops))] from-indigo-900/20 via-slate-950 to-black pointer-events-none"></div>
@@ -328,6 +468,10 @@ export const StoryInterface: React.FC<StoryInterfaceProps> = ({ agent, initialPr
                     <span className="text-xs text-slate-400 uppercase">Host Agent: {agent.name}</span>
                     <span className="text-xs text-slate-600">|</span>
                     <span className="text-xs text-slate-500">{isSaving ? "Saving..." : (lastSaved ? `Saved ${new Date(lastSaved).toLocaleTimeString()}` : "Unsaved")}</span>
+                    <span className="text-xs text-slate-600">|</span>
+                    <CacheStats />
+                    <RateLimitControl />
+                    <SpeechProviderBadge />
                   </div>
                </div>
              </div>
@@ -342,16 +486,41 @@ export const StoryInterface: React.FC<StoryInterfaceProps> = ({ agent, initialPr
                       <span className="text-cyan-400 font-mono text-xs uppercase tracking-widest flex items-center gap-2">
                         <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" /></svg> Script Editor
                       </span>
-                      <span className="text-[10px] text-slate-500 font-mono italic">Start lines with 'Name:' to switch character voices</span>
+                      <div className="flex items-center gap-3">
+                        <span className="hidden xl:inline text-[10px] text-slate-500 font-mono italic">'Name:' switches voice · blank line ends a turn · [pause 2s] · (whispering) · [excited] · [sfx: name] · # Chapter</span>
+                        <input
+                          ref={importInputRef}
+                          type="file"
+                          accept={SCRIPT_IMPORT_ACCEPT}
+                          className="hidden"
+                          onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) handleImportScript(file);
+                            e.target.value = '';
+                          }}
+                        />
+                        <button onClick={() => importInputRef.current?.click()} disabled={isLoading} className="px-3 py-1 border border-slate-700 rounded text-slate-300 hover:border-cyan-500 font-mono text-[10px] uppercase tracking-widest disabled:opacity-40" title="Fountain, SSML, Markdown or plain text">Import</button>
+                        <button onClick={handleExportFountain} disabled={!text.trim()} className="px-3 py-1 border border-slate-700 rounded text-slate-300 hover:border-cyan-500 font-mono text-[10px] uppercase tracking-widest disabled:opacity-40">Export .fountain</button>
+                      </div>
                    </div>
-                   <textarea 
-                     value={text} 
-                     onChange={(e) => setText(e.target.value)} 
-                     placeholder={`Narrator: Once upon a time...\n${cast[1]?.name || 'Character'}: "I have a message for the realm."`} 
-                     className="relative flex-1 bg-slate-950 rounded-b-lg p-6 text-slate-200 font-sans text-xl leading-relaxed focus:outline-none resize-none custom-scrollbar selection:bg-cyan-500/30" 
+                   <ScriptEditor
+                     value={text}
+                     cast={cast}
+                     onChange={setText}
+                     placeholder={`Narrator (ominously): Once upon a time...\n${cast[1]?.name || 'Character'}: [excited] "I have a message for the realm."`}
                    />
-                   <div className="absolute bottom-4 right-4 text-xs text-slate-500 font-mono bg-slate-950/80 px-2 py-1 rounded border border-slate-800">{text.length} CHARS</div>
+                   <div className="absolute bottom-4 right-4 text-xs text-slate-500 font-mono bg-slate-950/80 px-2 py-1 rounded border border-slate-800">{parsedScript.turns.length} TURNS · {text.length} CHARS</div>
                 </div>
+                {(parsedScript.warnings.length > 0 || missingCues.length > 0) && (
+                   <div className="px-4 py-3 rounded-lg border border-amber-700/50 bg-amber-950/20 font-mono text-[11px] text-amber-300 space-y-1 max-h-32 overflow-y-auto custom-scrollbar">
+                      {parsedScript.warnings.map((warning, i) => (
+                        <div key={i}><span className="text-amber-500/70 mr-2">LINE {warning.line}</span>{warning.message}</div>
+                      ))}
+                      {missingCues.map(name => (
+                        <div key={`sfx-${name}`}><span className="text-amber-500/70 mr-2">MIXER</span>No SFX track named "{name}", the cue will be silent</div>
+                      ))}
+                   </div>
+                )}
              </div>
 
              {/* Right: Cast Management */}
@@ -361,21 +530,61 @@ export const StoryInterface: React.FC<StoryInterfaceProps> = ({ agent, initialPr
                      <h3 className="text-cyan-400 font-mono text-xs uppercase tracking-widest flex items-center gap-2">
                         <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197M13 7a4 4 0 11-8 0 4 4 0 018 0z" /></svg> Character Cast
                      </h3>
-                     {cast.length < 4 && (
-                        <button 
-                          onClick={handleAddCharacter} 
-                          className="flex items-center gap-2 px-3 py-1 bg-cyan-600/20 border border-cyan-500/50 text-cyan-400 hover:bg-cyan-600/40 rounded transition-all font-mono text-[10px] uppercase" 
-                          title="Add Character"
-                        >
-                           <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" /></svg>
-                           Add
-                        </button>
-                     )}
+                     <button 
+                       onClick={handleAddCharacter} 
+                       className="flex items-center gap-2 px-3 py-1 bg-cyan-600/20 border border-cyan-500/50 text-cyan-400 hover:bg-cyan-600/40 rounded transition-all font-mono text-[10px] uppercase" 
+                       title="Add Character"
+                     >
+                        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" /></svg>
+                        Add
+                     </button>
+                   </div>
+
+                   <div className="flex gap-1 mb-4 font-mono text-[10px] uppercase">
+                      <select
+                        value={selectedPresetId}
+                        onChange={(e) => setSelectedPresetId(e.target.value)}
+                        className="flex-1 min-w-0 bg-slate-950 border border-slate-800 text-slate-400 p-1.5 rounded focus:outline-none focus:border-cyan-500"
+                      >
+                        <option value="">Cast presets ({castPresets.length})</option>
+                        {castPresets.map(p => <option key={p.id} value={p.id}>{p.name} · {p.members.length}</option>)}
+                      </select>
+                      <button onClick={handleLoadCastPreset} disabled={!selectedPresetId} className="px-2 border border-slate-700 rounded text-slate-300 hover:border-cyan-500 disabled:opacity-40">Load</button>
+                      <button onClick={handleSaveCastPreset} className="px-2 border border-slate-700 rounded text-slate-300 hover:border-cyan-500" title="Save names, voices, styles and colors">Save</button>
+                      <button onClick={handleDeleteCastPreset} disabled={!selectedPresetId} className="px-2 border border-slate-700 rounded text-slate-500 hover:border-red-500 hover:text-red-400 disabled:opacity-40" title="Delete preset">✕</button>
                    </div>
 
                    <div className="space-y-4 flex-1 overflow-y-auto pr-2 custom-scrollbar max-h-[600px]">
                       {cast.map((member, index) => (
-                        <div key={member.id} className="bg-slate-950 p-4 rounded-lg border border-slate-800 space-y-3 relative group animate-fade-in shadow-inner">
+                        <div
+                          key={member.id}
+                          onDragOver={(e) => { if (draggedCastId) e.preventDefault(); }}
+                          onDrop={(e) => { e.preventDefault(); handleDropCharacter(member.id); }}
+                          className={`bg-slate-950 p-4 rounded-lg border space-y-3 relative group animate-fade-in shadow-inner transition-all ${draggedCastId === member.id ? 'opacity-40 border-cyan-500' : draggedCastId ? 'border-dashed border-slate-600' : 'border-slate-800'}`}
+                          style={{ borderLeftColor: castColor(member, index), borderLeftWidth: 3 }}
+                        >
+                           <div className="flex items-center gap-2 text-[10px] font-mono uppercase tracking-widest text-slate-600">
+                              <span
+                                draggable
+                                onDragStart={(e) => {
+                                  setDraggedCastId(member.id);
+                                  e.dataTransfer.effectAllowed = 'move';
+                                  const card = e.currentTarget.parentElement?.parentElement;
+                                  if (card) e.dataTransfer.setDragImage(card, 16, 16);
+                                }}
+                                onDragEnd={() => setDraggedCastId(null)}
+                                className="cursor-grab active:cursor-grabbing select-none hover:text-slate-300 px-1"
+                                title="Drag to reorder"
+                              >⋮⋮</span>
+                              <input
+                                type="color"
+                                value={castColor(member, index)}
+                                onChange={(e) => updateCharacter(member.id, { color: e.target.value })}
+                                className="w-4 h-4 rounded cursor-pointer bg-transparent border-0 p-0"
+                                title="Script editor color"
+                              />
+                              {index === 0 && <span className="text-slate-500">Reads narration</span>}
+                           </div>
                            {cast.length > 1 && (
                              <button onClick={() => handleDeleteCharacter(member.id)} className="absolute top-2 right-2 text-slate-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-all p-1" title="Remove Character">
                                <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
@@ -391,6 +600,15 @@ export const StoryInterface: React.FC<StoryInterfaceProps> = ({ agent, initialPr
                                 placeholder="Enter Name"
                               />
                            </div>
+                           <div className="space-y-1">
+                              <label className="text-[10px] text-slate-500 font-mono uppercase tracking-tighter">Default Style</label>
+                              <input
+                                value={member.stylePrompt || ''}
+                                onChange={(e) => updateCharacter(member.id, { stylePrompt: e.target.value || undefined })}
+                                className="w-full bg-slate-900 border border-slate-800 rounded px-2 py-1.5 text-xs text-slate-300 font-mono focus:border-cyan-500 outline-none transition-colors"
+                                placeholder="e.g. warm, unhurried storyteller"
+                              />
+                           </div>
                            <div className="space-y-1">
                               <label className="text-[10px] text-slate-500 font-mono uppercase tracking-tighter">Voice Profile</label>
                               <select 
@@ -407,17 +625,108 @@ export const StoryInterface: React.FC<StoryInterfaceProps> = ({ agent, initialPr
                         </div>
                       ))}
                    </div>
-                   
-                   <div className="mt-4 pt-4 border-t border-slate-800">
-                      <div className="flex items-center gap-4 bg-slate-950 px-4 py-3 rounded-xl border border-slate-800 shadow-inner">
-                        <span className="text-[10px] text-slate-500 font-mono uppercase w-20">Master Vol</span>
-                        <input type="range" min="0" max="1" step="0.05" value={voiceVolume} onChange={(e) => setVoiceVolume(Number(e.target.value))} className="flex-1 h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-cyan-500" />
-                      </div>
-                   </div>
                 </div>
              </div>
           </div>
 
+          {/* Mixer: voice, music beds, sfx and mastering, rendered into the mix on every change */}
+          <div className="bg-slate-900/60 border border-slate-800 rounded-xl p-4 backdrop-blur-md space-y-3">
+             <div className="flex flex-wrap justify-between items-center gap-3">
+                <span className="text-cyan-400 font-mono text-xs uppercase tracking-widest">Mixer</span>
+                <div className="flex flex-wrap items-center gap-1 font-mono text-[10px] uppercase">
+                   {(['music', 'sfx'] as const).map(kind => (
+                     <input
+                       key={kind}
+                       ref={kind === 'music' ? musicInputRef : sfxInputRef}
+                       type="file"
+                       accept="audio/*"
+                       className="hidden"
+                       onChange={(e) => {
+                         const file = e.target.files?.[0];
+                         if (file) handleImportAudio(file, kind);
+                         e.target.value = '';
+                       }}
+                     />
+                   ))}
+                   <button onClick={() => musicInputRef.current?.click()} className="px-2 py-1 border border-slate-700 rounded text-slate-300 hover:border-cyan-500">+ Music</button>
+                   <button onClick={() => sfxInputRef.current?.click()} className="px-2 py-1 border border-slate-700 rounded text-slate-300 hover:border-cyan-500" title="Plays wherever the script has [sfx: file name]">+ SFX</button>
+                   <select
+                     value={selectedAssetId}
+                     onChange={(e) => setSelectedAssetId(e.target.value)}
+                     className="ml-2 max-w-[180px] bg-slate-950 border border-slate-800 text-slate-400 p-1 rounded focus:outline-none focus:border-cyan-500"
+                   >
+                     <option value="">Library ({audioAssets?.length ?? 0})</option>
+                     {audioAssets?.map(a => <option key={a.id} value={a.id}>{a.kind === 'music' ? '♪' : '⚡'} {a.name} · {a.duration.toFixed(1)}s</option>)}
+                   </select>
+                   <button onClick={handleAddLibraryAsset} disabled={!selectedAssetId} className="px-2 py-1 border border-slate-700 rounded text-slate-300 hover:border-cyan-500 disabled:opacity-40">Add</button>
+                   <button onClick={handleDeleteLibraryAsset} disabled={!selectedAssetId} className="px-2 py-1 border border-slate-700 rounded text-slate-500 hover:border-red-500 hover:text-red-400 disabled:opacity-40" title="Delete from library">✕</button>
+                </div>
+             </div>
+             <div className="grid grid-cols-1 md:grid-cols-2 gap-2 font-mono text-[10px] uppercase">
+                <div className="flex items-center gap-3 bg-slate-950 px-3 py-2 rounded-lg border border-slate-800">
+                   <span className="w-24 text-cyan-300">Voice</span>
+                   <input type="range" min="0" max="1" step="0.05" value={voiceVolume} onChange={(e) => updateMixer(() => setVoiceVolume(Number(e.target.value)))} className="flex-1 h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-cyan-500" />
+                   <span className="w-10 text-right text-slate-500">{Math.round(voiceVolume * 100)}%</span>
+                </div>
+                <div className="flex items-center gap-3 bg-slate-950 px-3 py-2 rounded-lg border border-slate-800" title="How far music dips while someone speaks">
+                   <span className="w-24 text-slate-400">Auto-duck</span>
+                   <input type="range" min="0" max="24" step="1" value={duckingDb} onChange={(e) => updateMixer(() => setDuckingDb(Number(e.target.value)))} className="flex-1 h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-cyan-500" />
+                   <span className="w-10 text-right text-slate-500">{duckingDb ? `-${duckingDb}dB` : 'Off'}</span>
+                </div>
+                <div className="flex items-center gap-3 bg-slate-950 px-3 py-2 rounded-lg border border-slate-800" title="Silence between lines after trimming their own; [pause] sets its own length">
+                   <span className="w-24 text-slate-400">Turn gap</span>
+                   <input type="range" min="0" max="2000" step="50" value={mastering.turnGapMs} onChange={(e) => updateMixer(() => setMastering({ ...mastering, turnGapMs: Number(e.target.value) }))} className="flex-1 h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-cyan-500" />
+                   <span className="w-10 text-right text-slate-500">{mastering.turnGapMs}ms</span>
+                </div>
+                <div className="flex items-center gap-3 bg-slate-950 px-3 py-2 rounded-lg border border-slate-800" title={`Lines are levelled to match, then the mix is normalized and limited to ${mastering.truePeakDb} dBTP`}>
+                   <span className="w-24 text-slate-400">Loudness</span>
+                   <select
+                     value={mastering.loudnessTarget ?? ''}
+                     onChange={(e) => updateMixer(() => setMastering({ ...mastering, loudnessTarget: e.target.value ? Number(e.target.value) : null }))}
+                     className="flex-1 bg-slate-950 border border-slate-800 text-slate-300 p-1 rounded focus:outline-none focus:border-cyan-500 uppercase"
+                   >
+                     {LOUDNESS_TARGETS.map(t => <option key={t.lufs} value={t.lufs}>{t.label} · {t.lufs} LUFS</option>)}
+                     <option value="">Off</option>
+                   </select>
+                </div>
+                {tracks.map(track => {
+                   const missing = audioAssets !== null && !assetPcm.has(track.assetId);
+                   return (
+                     <div key={track.id} className={`flex items-center gap-2 bg-slate-950 px-3 py-2 rounded-lg border ${missing ? 'border-red-900/60' : 'border-slate-800'} ${track.muted ? 'opacity-50' : ''}`}>
+                        <span className={track.kind === 'music' ? 'text-emerald-400' : 'text-sky-400'} title={track.kind === 'music' ? 'Music bed' : 'Sound effect'}>{track.kind === 'music' ? '♪' : '⚡'}</span>
+                        <input
+                          value={track.name}
+                          onChange={(e) => updateTrack(track.id, { name: e.target.value })}
+                          className="w-24 bg-transparent normal-case text-slate-300 focus:outline-none focus:border-b border-cyan-500"
+                          title={track.kind === 'sfx' ? `Cue with [sfx: ${track.name}]` : track.name}
+                        />
+                        {missing ? (
+                          <span className="flex-1 text-red-400">File missing from library</span>
+                        ) : (
+                          <input type="range" min="0" max="1" step="0.05" value={track.volume} onChange={(e) => updateTrack(track.id, { volume: Number(e.target.value) })} className="flex-1 h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-cyan-500" />
+                        )}
+                        {track.kind === 'music' && (
+                          <button onClick={() => updateTrack(track.id, { loop: !track.loop })} className={`px-1.5 border rounded ${track.loop ? 'border-emerald-600 text-emerald-400' : 'border-slate-700 text-slate-500'}`} title="Repeat until the story ends">Loop</button>
+                        )}
+                        <button onClick={() => updateTrack(track.id, { muted: !track.muted })} className={`px-1.5 border rounded ${track.muted ? 'border-amber-500 text-amber-400' : 'border-slate-700 text-slate-500'}`}>M</button>
+                        <button onClick={() => updateMixer(() => setTracks(tracks.filter(t => t.id !== track.id)))} className="text-slate-600 hover:text-red-400 px-1" title="Remove from mix">✕</button>
+                     </div>
+                   );
+                })}
+             </div>
+          </div>
+
+          {error && <ErrorNotice error={error} onDismiss={() => setError(null)} onRetry={handleGenerate} />}
+
+          {resumableJob && !isLoading && (
+             <div className="w-full flex items-center gap-3 px-4 py-3 rounded-lg border border-cyan-700/50 bg-cyan-950/30 font-mono text-xs text-cyan-200">
+                <span className="uppercase tracking-widest text-[10px] opacity-70">{resumableJob.status === 'failed' ? 'Render failed' : 'Render interrupted'}</span>
+                <span className="flex-1">{resumableJob.completed}/{resumableJob.total} turns checkpointed. Resuming only synthesizes what is left.</span>
+                <button onClick={handleGenerate} disabled={!text} className="px-3 py-1 border border-current rounded uppercase text-[10px] tracking-widest hover:bg-white/5 disabled:opacity-40">Resume</button>
+                <button onClick={handleDiscardJob} className="px-3 py-1 text-slate-400 hover:text-white uppercase text-[10px] tracking-widest">Discard</button>
+             </div>
+          )}
+
           <div className="flex justify-center gap-4 pt-4">
              <button 
                onClick={handleGenerate} 
@@ -425,40 +734,101 @@ export const StoryInterface: React.FC<StoryInterfaceProps> = ({ agent, initialPr
                className={`relative px-16 py-6 bg-cyan-600 hover:bg-cyan-500 text-white font-mono font-bold rounded-2xl transition-all disabled:opacity-50 disabled:cursor-not-allowed shadow-[0_0_30px_rgba(6,182,212,0.4)] group overflow-hidden transform hover:scale-[1.02] active:scale-[0.98]`}
              >
                {isLoading ? (
-                 <span className="flex items-center gap-3"><svg className="animate-spin h-6 w-6" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg> SYNTHESIZING PERFORMANCE...</span>
+                 <span className="flex items-center gap-3"><svg className="animate-spin h-6 w-6" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg> {synthProgress && synthProgress.total > 0 ? `TURN ${Math.min(synthProgress.done + 1, synthProgress.total)}/${synthProgress.total}` : 'SYNTHESIZING PERFORMANCE...'}{synthProgress?.etaMs ? ` · ETA ${formatEta(synthProgress.etaMs)}` : ''}</span>
                ) : (
                  <span className="flex items-center gap-3 text-lg"><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" /></svg> PRODUCE STORY</span>
                )}
              </button>
+             {isLoading && (
+               <button onClick={handleCancelGeneration} className="px-8 py-6 border border-red-500/60 text-red-400 hover:bg-red-500/10 font-mono font-bold rounded-2xl transition-all uppercase tracking-widest text-sm">Cancel</button>
+             )}
           </div>
+          {isLoading && synthProgress && synthProgress.total > 0 && (
+             <div className="w-full max-w-xl mx-auto h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                <div className="h-full bg-cyan-500 shadow-[0_0_10px_#22d3ee] transition-all duration-500" style={{ width: `${(synthProgress.done / synthProgress.total) * 100}%` }}></div>
+             </div>
+          )}
 
           {currentAudioData && (
              <div className="bg-slate-900/80 border border-cyan-500/30 rounded-3xl p-8 animate-fade-in backdrop-blur-xl shadow-[0_0_60px_rgba(0,0,0,0.6)]">
                 <div className="flex flex-col md:flex-row items-center gap-10">
-                   <div className="flex items-center gap-4 bg-slate-950 p-4 rounded-3xl border border-slate-800 shadow-xl">
-                       <button onClick={() => playAudioData(currentAudioData, savedOffsetRef.current)} disabled={isPlaying} className={`w-16 h-16 rounded-full border flex items-center justify-center transition-all ${isPlaying ? 'bg-slate-800 border-slate-700 text-slate-500 cursor-not-allowed' : 'bg-cyan-500/20 border-cyan-400 text-cyan-300 hover:bg-cyan-500/30 shadow-[0_0_20px_#22d3ee]'}`}><svg className="w-8 h-8 ml-1" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z"/></svg></button>
-                       <button onClick={pausePlayback} disabled={!isPlaying} className={`w-14 h-14 rounded-full border flex items-center justify-center transition-all ${!isPlaying ? 'bg-slate-800 border-slate-700 text-slate-500 cursor-not-allowed' : 'bg-amber-500/20 border-amber-500 text-amber-400 hover:bg-amber-500/30'}`}><svg className="w-6 h-6" fill="currentColor" viewBox="0 0 24 24"><path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z"/></svg></button>
-                       <button onClick={() => stopPlayback(true)} className={`w-14 h-14 rounded-full border flex items-center justify-center transition-all bg-red-500/20 border-red-500 text-red-400 hover:bg-red-500/30`}><svg className="w-6 h-6" fill="currentColor" viewBox="0 0 24 24"><path d="M6 6h12v12H6z"/></svg></button>
-                   </div>
                    <div className="flex flex-col flex-1 w-full gap-4">
-                     <div className="h-24 w-full bg-slate-950/90 rounded-2xl overflow-hidden relative border border-slate-800 shadow-inner"><div className="absolute inset-0 flex items-center justify-center pointer-events-none"><Visualizer level={volumeLevel} color={isPlaying ? "#00f3ff" : "#334155"} isActive={isPlaying} /></div></div>
-                     <div className="flex justify-between items-center px-4">
-                        <span className="text-[10px] text-slate-500 font-mono uppercase tracking-widest">Master Voice Output Channel</span>
-                        <span className="text-xs text-cyan-500 font-mono">{(currentAudioData.length / 24000).toFixed(1)}S</span>
-                     </div>
+                     <div className="h-24 w-full bg-slate-950/90 rounded-2xl overflow-hidden relative border border-slate-800 shadow-inner"><div className="absolute inset-0 flex items-center justify-center pointer-events-none"><Visualizer level={player.level} color={player.isPlaying ? "#00f3ff" : "#334155"} isActive={player.isPlaying} /></div></div>
+                     {captions.length > 0 && (
+                       <div className="min-h-[2.5rem] px-4 text-center text-sm text-white/90" aria-live="polite">
+                         {caption && <>{caption.speaker && <span className="text-cyan-400 font-mono text-xs uppercase mr-2">{caption.speaker}</span>}{caption.text}</>}
+                       </div>
+                     )}
+                     <AudioPlayer player={player} label={tracks.length > 0 ? 'Master Mix Output Channel' : 'Master Voice Output Channel'} />
                    </div>
-                   <a 
-                     href={downloadUrl} 
-                     download={`${(projectName || 'untitled').replace(/\s+/g, '_')}.wav`} 
+                   <button
+                     onClick={() => setIsExportOpen(true)}
                      className="flex-shrink-0 px-10 py-5 bg-slate-800 hover:bg-slate-700 border border-slate-600 hover:border-cyan-500 text-white rounded-2xl font-mono text-sm uppercase tracking-widest flex items-center gap-3 transition-all shadow-xl transform hover:translate-y-[-2px] active:translate-y-[0px]"
                    >
                      <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg> 
-                     Export WAV
-                   </a>
+                     Export
+                   </button>
                 </div>
              </div>
           )}
+
+          {segments.length > 0 && (
+             <div className="bg-slate-900/60 border border-slate-800 rounded-xl p-4 backdrop-blur-md space-y-4">
+                <div className="flex justify-between items-center">
+                   <span className="text-cyan-400 font-mono text-xs uppercase tracking-widest">Segment Timeline</span>
+                   <span className="text-[10px] text-slate-500 font-mono">{segments.length} LINES · {segments.filter(s => s.muted).length} MUTED</span>
+                </div>
+                <div className="flex gap-1 overflow-x-auto pb-2 custom-scrollbar">
+                   {segments.map((segment, index) => {
+                      const voice = availableVoices.find(v => v.id === segment.voiceId);
+                      const seconds = segment.audioData ? segment.audioData.length / 24000 : 0;
+                      const isSelected = segment.id === selectedSegmentId;
+                      return (
+                        <React.Fragment key={segment.id}>
+                          {segment.chapter && (
+                            <div className="flex-shrink-0 flex items-center pl-1 pr-2 border-l-2 border-cyan-500/60 text-[9px] font-mono text-cyan-400 uppercase tracking-widest max-w-[120px] truncate" title={segment.chapter}>{segment.chapter}</div>
+                          )}
+                          <button
+                            onClick={() => setSelectedSegmentId(isSelected ? null : segment.id)}
+                            style={{ flexGrow: Math.max(seconds, 1), flexBasis: 0 }}
+                            className={`min-w-[48px] h-14 rounded-lg border text-left px-2 py-1 overflow-hidden transition-all ${isSelected ? 'border-cyan-400 shadow-[0_0_12px_rgba(34,211,238,0.4)]' : 'border-slate-700 hover:border-slate-500'} ${segment.audioData ? '' : 'border-dashed'} ${segment.muted ? 'opacity-40' : ''}`}
+                            title={segment.sourceLine}
+                          >
+                             <div className={`h-1 w-full rounded-full bg-gradient-to-r ${voice?.color || 'from-slate-700 to-slate-800'} mb-1`}></div>
+                             <div className={`text-[9px] font-mono text-slate-400 truncate ${segment.muted ? 'line-through' : ''}`}>{index + 1}. {segment.text}</div>
+                             <div className="text-[9px] font-mono text-slate-600">{segment.pauseBeforeMs ? `⏸${(segment.pauseBeforeMs / 1000).toFixed(1)}s · ` : ''}{segment.sfx?.length ? `⚡${segment.sfx.length} · ` : ''}{segment.audioData ? `${seconds.toFixed(1)}s` : 'NO AUDIO'}</div>
+                          </button>
+                        </React.Fragment>
+                      );
+                   })}
+                </div>
+                {(() => {
+                   const index = segments.findIndex(s => s.id === selectedSegmentId);
+                   if (index === -1) return null;
+                   const segment = segments[index];
+                   return (
+                     <div className="flex flex-col md:flex-row md:items-center gap-3 bg-slate-950 border border-slate-800 rounded-lg p-3">
+                        <div className="flex-1 min-w-0">
+                           <div className="text-[10px] text-slate-500 font-mono uppercase">Line {index + 1} · {availableVoices.find(v => v.id === segment.voiceId)?.name || 'Unknown voice'}{segment.chapter ? ` · ${segment.chapter}` : ''}</div>
+                           <div className="text-sm text-slate-200 truncate">{segment.direction && <span className="text-slate-500 italic mr-1">({segment.direction})</span>}{segment.text}</div>
+                           {segment.sfx && segment.sfx.length > 0 && <div className="text-[10px] text-sky-400 font-mono truncate">{segment.sfx.map(cue => `[sfx: ${cue.name}]`).join(' ')}</div>}
+                        </div>
+                        <div className="flex gap-2 font-mono text-[10px] uppercase">
+                           <button onClick={() => handleMoveSegment(segment.id, -1)} disabled={isLoading || index === 0} className="px-2 py-1.5 border border-slate-700 rounded text-slate-300 hover:border-cyan-500 disabled:opacity-40" title="Move earlier">◀</button>
+                           <button onClick={() => handleMoveSegment(segment.id, 1)} disabled={isLoading || index === segments.length - 1} className="px-2 py-1.5 border border-slate-700 rounded text-slate-300 hover:border-cyan-500 disabled:opacity-40" title="Move later">▶</button>
+                           <button onClick={() => handlePlaySegment(segment.id)} disabled={isLoading || !segment.audioData || segment.muted} className="px-3 py-1.5 border border-slate-700 rounded text-slate-300 hover:border-cyan-500 disabled:opacity-40" title="Play from this line in the mix">Play</button>
+                           <button onClick={() => handleToggleMute(segment.id)} disabled={isLoading} className={`px-3 py-1.5 border rounded disabled:opacity-40 ${segment.muted ? 'border-amber-500 text-amber-400' : 'border-slate-700 text-slate-300 hover:border-amber-500'}`}>{segment.muted ? 'Unmute' : 'Mute'}</button>
+                           <button onClick={() => handleRegenerateSegment(segment.id)} disabled={isLoading} className="px-3 py-1.5 border border-cyan-600 rounded text-cyan-300 hover:bg-cyan-600/20 disabled:opacity-40">Regenerate</button>
+                        </div>
+                     </div>
+                   );
+                })()}
+             </div>
+          )}
        </div>
+      {isExportOpen && currentAudioData && (
+        <ExportDialog pcm={currentAudioData} title={projectName || 'Untitled Project'} artist={agent.name} captions={captions} onClose={() => setIsExportOpen(false)} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,72 @@
+import React, { useEffect, useRef } from 'react';
+import { TranscriptEntry } from '../types';
+
+interface TranscriptLogProps {
+  entries: TranscriptEntry[];
+  agentName: string;
+}
+
+export const TranscriptLog: React.FC<TranscriptLogProps> = ({ entries, agentName }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest line in view as partial transcriptions stream in
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [entries]);
+
+  return (
+    <div className="w-full h-full flex flex-col bg-slate-900/60 border border-slate-800 rounded-xl backdrop-blur-md shadow-lg overflow-hidden">
+      <div className="px-4 py-3 border-b border-slate-800 flex justify-between items-center bg-slate-900/60">
+        <span className="text-cyan-400 font-mono text-xs uppercase tracking-widest">Transmission Log</span>
+        <span className="text-[10px] text-slate-500 font-mono">{entries.length} TURNS</span>
+      </div>
+
+      <div ref={scrollRef} className="flex-1 overflow-y-auto p-4 space-y-3 custom-scrollbar">
+        {entries.length === 0 ? (
+          <p className="text-slate-600 text-xs font-mono italic text-center py-8">No transmissions recorded yet...</p>
+        ) : (
+          entries.map(entry => {
+            if (entry.role === 'tool') {
+              const call = entry.toolCall;
+              const statusColor = !call || call.status === 'done' ? 'text-emerald-400' : call.status === 'running' ? 'text-amber-400 animate-pulse' : 'text-red-400';
+              return (
+                <div key={entry.id} className="flex flex-col items-center">
+                  <div className="w-full max-w-[90%] px-3 py-2 rounded-lg border border-dashed border-slate-700 bg-slate-950/60 font-mono text-[10px] text-slate-400 space-y-1">
+                    <div className="flex justify-between gap-2 uppercase tracking-widest">
+                      <span className="text-slate-300">⚙ {call ? call.name : entry.text}</span>
+                      {call && <span className={statusColor}>{call.status}</span>}
+                    </div>
+                    {call && Object.keys(call.args).length > 0 && (
+                      <div className="truncate" title={JSON.stringify(call.args)}>ARGS {JSON.stringify(call.args)}</div>
+                    )}
+                    {call?.result && (
+                      <div className="truncate text-slate-500" title={JSON.stringify(call.result)}>→ {JSON.stringify(call.result)}</div>
+                    )}
+                  </div>
+                </div>
+              );
+            }
+
+            const isAgent = entry.role === 'agent';
+            return (
+              <div key={entry.id} className={`flex flex-col ${isAgent ? 'items-start' : 'items-end'}`}>
+                <div className="flex items-center gap-2 mb-1 text-[9px] font-mono uppercase tracking-widest">
+                  <span className={isAgent ? 'text-cyan-500/70' : 'text-purple-500/70'}>{isAgent ? agentName : 'You'}</span>
+                  {entry.typed && <span className="text-slate-500">⌨ typed</span>}
+                  <span className="text-slate-600">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+                </div>
+                <div className={`max-w-[85%] px-3 py-2 rounded-lg text-sm font-sans leading-relaxed border ${isAgent ? 'bg-cyan-950/40 border-cyan-900/60 text-cyan-100' : 'bg-purple-950/40 border-purple-900/60 text-purple-100'} ${entry.isFinal ? '' : 'opacity-70'}`}>
+                  {entry.text}
+                  {!entry.isFinal && <span className="inline-block w-1.5 h-3 ml-1 bg-current animate-pulse align-middle"></span>}
+                </div>
+                {entry.interrupted && <span className="mt-1 text-[9px] font-mono uppercase tracking-widest text-amber-500/80">⤫ Cut off by user</span>}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
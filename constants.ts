@@ -1,5 +1,5 @@
 
-import { VoiceName, Gender, VoiceOption } from './types';
+import { VoiceName, Gender, VoiceOption, AgentTool, ToolHandlerType, AudioDevicePreferences } from './types';
 
 export const DEFAULT_VOICES: VoiceOption[] = [
   {
@@ -84,4 +84,77 @@ export const DEFAULT_VOICES: VoiceOption[] = [
   },
 ];
 
+export const DEFAULT_AUDIO_PREFERENCES: AudioDevicePreferences = {
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+};
+
 export const DEFAULT_INSTRUCTION = "You are a helpful, futuristic AI assistant living in a holographic interface. You are concise, intelligent, and slightly witty.";
+
+
+export const DEFAULT_TOOL_ENDPOINT = 'http://localhost:8787/tool';
+
+// Starting points for each built-in handler; name, description and schema stay editable per persona
+export const TOOL_TEMPLATES: Record<ToolHandlerType, Omit<AgentTool, 'id'>> = {
+  clock: {
+    name: 'get_current_time',
+    description: 'Returns the current local date and time, optionally for a specific IANA time zone.',
+    handler: 'clock',
+    parameters: {
+      type: 'object',
+      properties: {
+        timeZone: { type: 'string', description: 'IANA time zone, e.g. "Europe/Berlin". Defaults to the user\'s zone.' },
+      },
+    },
+  },
+  calculator: {
+    name: 'calculate',
+    description: 'Evaluates an arithmetic expression with + - * / % ^ and parentheses.',
+    handler: 'calculator',
+    parameters: {
+      type: 'object',
+      properties: {
+        expression: { type: 'string', description: 'The expression to evaluate, e.g. "(12.5 * 4) / 3".' },
+      },
+      required: ['expression'],
+    },
+  },
+  project_lookup: {
+    name: 'lookup_project',
+    description: 'Searches the user\'s saved projects by name and returns their details and script excerpt.',
+    handler: 'project_lookup',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Part of the project name to search for.' },
+      },
+      required: ['query'],
+    },
+  },
+  http_fetch: {
+    name: 'query_local_service',
+    description: 'Sends a request to the configured local service and returns its response.',
+    handler: 'http_fetch',
+    endpoint: DEFAULT_TOOL_ENDPOINT,
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'What to ask the local service.' },
+      },
+      required: ['query'],
+    },
+  },
+};
+
+export const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+
+// Script editor colors handed out to Story cast members in order
+export const CAST_COLORS = ['#94a3b8', '#22d3ee', '#f472b6', '#a3e635', '#facc15', '#c084fc', '#fb923c', '#34d399', '#60a5fa', '#f87171', '#e879f9', '#2dd4bf'];
+
+// Default IndexedDB budget for cached TTS audio (24kHz Int16 ≈ 2.9 MB per minute)
+export const DEFAULT_TTS_CACHE_BUDGET_BYTES = 64 * 1024 * 1024;
+
+// Shared Gemini request limiter (see utils/gemini.ts)
+export const DEFAULT_GEMINI_RPM = 60;
+export const DEFAULT_GEMINI_BURST = 3;
@@ -0,0 +1,35 @@
+import { useState, useCallback, useEffect } from 'react';
+
+export interface AudioDeviceOption {
+  deviceId: string;
+  label: string;
+}
+
+// Output routing relies on AudioContext.setSinkId, which not every browser ships yet
+export const supportsOutputSelection = (): boolean =>
+  typeof window !== 'undefined' && !!window.AudioContext && 'setSinkId' in AudioContext.prototype;
+
+export const useAudioDevices = () => {
+  const [inputs, setInputs] = useState<AudioDeviceOption[]>([]);
+  const [outputs, setOutputs] = useState<AudioDeviceOption[]>([]);
+
+  const refresh = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    // Labels stay empty until mic permission has been granted once
+    const toOption = (d: MediaDeviceInfo, i: number): AudioDeviceOption => ({
+      deviceId: d.deviceId,
+      label: d.label || `${d.kind === 'audioinput' ? 'Microphone' : 'Speaker'} ${i + 1}`,
+    });
+    setInputs(devices.filter(d => d.kind === 'audioinput' && d.deviceId !== 'default').map(toOption));
+    setOutputs(devices.filter(d => d.kind === 'audiooutput' && d.deviceId !== 'default').map(toOption));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+  }, [refresh]);
+
+  return { inputs, outputs, refresh };
+};
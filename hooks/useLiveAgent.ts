@@ -1,35 +1,274 @@
 
 import { useState, useRef, useCallback, useEffect } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
-import { createPcmBlob, decodeAudioData } from '../utils/audio';
-import { AgentPersona } from '../types';
+import { FunctionCall, LiveServerMessage, Modality } from '@google/genai';
+import { createVoiceProcessor, decodeAudioData, int16ToFloat32, int16ToPcmBlob, isNeutralVoice, mixTimedChunks, StreamProcessor, TimedPcmChunk } from '../utils/audio';
+import { createPcmCaptureNode, DEFAULT_CAPTURE_CHUNK_SIZE, PcmCaptureMessage } from '../utils/worklets';
+import { saveProject } from '../utils/db';
+import { executeTool, toFunctionDeclarations } from '../utils/tools';
+import { getSpeechProvider, LiveSessionHandle } from '../utils/speechProvider';
+import { describeGeminiError, toGeminiError } from '../utils/gemini';
+import { AgentPersona, AudioDevicePreferences, LiveConnectionState, LiveInputMode, Project, TranscriptEntry } from '../types';
+import { DEFAULT_AUDIO_PREFERENCES } from '../constants';
 
 interface UseLiveAgentProps {
   agent: AgentPersona;
+  userId?: string;
+  recordSession?: boolean; // Opt-in: save the call as a Project on disconnect
+  captureChunkSize?: number; // Mic samples per sent chunk: smaller = lower latency, more messages
+  onInterrupted?: () => void; // Fired when the user barges in over the agent
+  audioPreferences?: AudioDevicePreferences; // Changes are applied live without reconnecting
+  inputMode?: LiveInputMode; // Read at connect time; switching modes needs a new session
 }
 
-export const useLiveAgent = ({ agent }: UseLiveAgentProps) => {
+interface SessionRecording {
+  agent: AgentPersona;
+  userId: string;
+  startedAt: number;
+  inputOrigin: number;  // inputContext time at session open
+  outputOrigin: number; // audioContext time at session open
+  input: TimedPcmChunk[];
+  output: TimedPcmChunk[];
+}
+
+const RECORDING_SAMPLE_RATE = 24000;
+
+const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_BASE_DELAY_MS = 500;
+const RECONNECT_MAX_DELAY_MS = 8000;
+
+const buildAudioConstraints = (prefs: AudioDevicePreferences): MediaTrackConstraints => ({
+  deviceId: prefs.inputDeviceId ? { exact: prefs.inputDeviceId } : undefined,
+  echoCancellation: prefs.echoCancellation,
+  noiseSuppression: prefs.noiseSuppression,
+  autoGainControl: prefs.autoGainControl,
+});
+
+const inputPrefsChanged = (a: AudioDevicePreferences, b: AudioDevicePreferences) =>
+  (a.inputDeviceId || '') !== (b.inputDeviceId || '') ||
+  a.echoCancellation !== b.echoCancellation ||
+  a.noiseSuppression !== b.noiseSuppression ||
+  a.autoGainControl !== b.autoGainControl;
+
+export const useLiveAgent = ({ agent, userId, recordSession = false, captureChunkSize = DEFAULT_CAPTURE_CHUNK_SIZE, onInterrupted, audioPreferences = DEFAULT_AUDIO_PREFERENCES, inputMode = 'continuous' }: UseLiveAgentProps) => {
   const [isConnected, setIsConnected] = useState(false);
   const [isSpeaking, setIsSpeaking] = useState(false); // Model is speaking
   const [isListening, setIsListening] = useState(false); // Mic is active
   const [volumeLevels, setVolumeLevels] = useState<{ input: number; output: number }>({ input: 0, output: 0 });
   const [error, setError] = useState<string | null>(null);
+  const [transcript, setTranscript] = useState<TranscriptEntry[]>([]);
+  const [isRecording, setIsRecording] = useState(false);
+  const [isSavingRecording, setIsSavingRecording] = useState(false);
+  const [savedRecording, setSavedRecording] = useState<Project | null>(null);
+  const [interruptions, setInterruptions] = useState(0);
+  const [connectionState, setConnectionState] = useState<LiveConnectionState>('idle');
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  const [isTalking, setIsTalking] = useState(false); // Push-to-talk button held
 
   const audioContextRef = useRef<AudioContext | null>(null);
   const inputContextRef = useRef<AudioContext | null>(null);
   const nextStartTimeRef = useRef<number>(0);
-  const sessionRef = useRef<any>(null);
+  const sessionRef = useRef<Promise<LiveSessionHandle> | null>(null); // The open session mic audio is sent to
+  const pendingSessionRef = useRef<Promise<LiveSessionHandle> | null>(null); // Session still handshaking
+  const generationRef = useRef<number>(0); // Bumped per session so stale callbacks can be ignored
+  const resumeHandleRef = useRef<string | null>(null);
+  const reconnectAttemptRef = useRef<number>(0);
+  const reconnectTimerRef = useRef<number | null>(null);
+  const outputNodeRef = useRef<GainNode | null>(null);
+  const appliedPrefsRef = useRef<AudioDevicePreferences>(audioPreferences); // What the live graph currently uses
+  const inputModeRef = useRef<LiveInputMode>(inputMode); // Mode of the running session
+  const isTalkingRef = useRef<boolean>(false);
   const streamRef = useRef<MediaStream | null>(null);
-  const processorRef = useRef<ScriptProcessorNode | null>(null);
+  const processorRef = useRef<AudioWorkletNode | null>(null);
   const sourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
   const inputAnalyserRef = useRef<AnalyserNode | null>(null);
   const outputAnalyserRef = useRef<AnalyserNode | null>(null);
   
+  // Id of the entry each side is currently streaming into (null once that turn is closed)
+  const openTurnRef = useRef<{ user: string | null; agent: string | null }>({ user: null, agent: null });
+
+  const transcriptRef = useRef<TranscriptEntry[]>([]);
+  // Every scheduled agent chunk that has not finished playing yet
+  const activeSourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
+  // Tempo/pitch processor for the agent turn in progress; it buffers a few ms across chunks
+  const voiceProcessorRef = useRef<StreamProcessor | null>(null);
+  const onInterruptedRef = useRef(onInterrupted);
+  onInterruptedRef.current = onInterrupted;
+  const recordingRef = useRef<SessionRecording | null>(null);
+  // Tool call id -> transcript entry id, plus ids the server asked us to drop
+  const toolEntriesRef = useRef<Map<string, string>>(new Map());
+  const cancelledToolCallsRef = useRef<Set<string>>(new Set());
+
   // Animation frame loop for volume meter
   const volumeIntervalRef = useRef<number | null>(null);
 
+  const appendTranscript = useCallback((role: 'user' | 'agent', chunk: string) => {
+    if (!chunk) return;
+
+    // A new utterance from one side closes the other side's open turn
+    const other = role === 'user' ? 'agent' : 'user';
+    const closedId = openTurnRef.current[other];
+    openTurnRef.current[other] = null;
+
+    const openId = openTurnRef.current[role];
+    const newId = openId ? null : crypto.randomUUID();
+    if (newId) openTurnRef.current[role] = newId;
+
+    setTranscript(prev => {
+      const next = prev.map(entry => entry.id === closedId ? { ...entry, isFinal: true } : entry);
+      if (openId) {
+        return next.map(entry => entry.id === openId ? { ...entry, text: entry.text + chunk } : entry);
+      }
+      return [...next, { id: newId!, role, text: chunk, timestamp: Date.now(), isFinal: false }];
+    });
+  }, []);
+
+  const finalizeTranscript = useCallback(() => {
+    const { user, agent } = openTurnRef.current;
+    openTurnRef.current = { user: null, agent: null };
+    if (!user && !agent) return;
+    setTranscript(prev => prev.map(entry => (entry.id === user || entry.id === agent) ? { ...entry, isFinal: true } : entry));
+  }, []);
+
+  useEffect(() => {
+    transcriptRef.current = transcript;
+  }, [transcript]);
+
+  const saveRecording = useCallback(async (recording: SessionRecording, stopTime: number) => {
+    if (recording.input.length === 0 && recording.output.length === 0) return;
+    setIsSavingRecording(true);
+    try {
+      const audioData = mixTimedChunks([...recording.input, ...recording.output], RECORDING_SAMPLE_RATE, stopTime);
+      const text = transcriptRef.current
+        .map(entry => entry.toolCall
+          ? `[Tool ${entry.toolCall.name}(${JSON.stringify(entry.toolCall.args)}) -> ${JSON.stringify(entry.toolCall.result ?? entry.toolCall.status)}]`
+          : `${entry.role === 'agent' ? recording.agent.name : 'User'}: ${entry.text.trim()}`)
+        .join('\n');
+
+      const project: Project = {
+        id: crypto.randomUUID(),
+        userId: recording.userId,
+        name: `Live Session ${new Date(recording.startedAt).toLocaleString()}`,
+        createdAt: recording.startedAt,
+        updatedAt: Date.now(),
+        agent: recording.agent,
+        text,
+        audioData,
+        duration: audioData.length / RECORDING_SAMPLE_RATE,
+        voiceVolume: 1,
+        isLiveSession: true,
+        transcript: transcriptRef.current.map(entry => ({ ...entry, isFinal: true })),
+      };
+      await saveProject(project);
+      setSavedRecording(project);
+    } catch (e) {
+      console.error("Failed to save session recording", e);
+      setError("Session recording could not be saved");
+    } finally {
+      setIsSavingRecording(false);
+    }
+  }, []);
+
+  const stopAllOutput = useCallback(() => {
+    activeSourcesRef.current.forEach(source => {
+      source.onended = null;
+      try { source.stop(); source.disconnect(); } catch (e) {}
+    });
+    activeSourcesRef.current.clear();
+    voiceProcessorRef.current = null;
+    nextStartTimeRef.current = 0;
+  }, []);
+
+  // Queues processed agent audio back-to-back on the output graph
+  const scheduleOutput = useCallback((samples: Float32Array) => {
+    const ctx = audioContextRef.current;
+    if (!ctx || !outputNodeRef.current || samples.length === 0) return;
+
+    nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
+
+    const buffer = ctx.createBuffer(1, samples.length, 24000);
+    buffer.getChannelData(0).set(samples);
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(outputNodeRef.current);
+    source.onended = () => activeSourcesRef.current.delete(source);
+    activeSourcesRef.current.add(source);
+    source.start(nextStartTimeRef.current);
+
+    const recording = recordingRef.current;
+    if (recording) {
+      recording.output.push({
+        data: samples,
+        sampleRate: buffer.sampleRate,
+        startTime: nextStartTimeRef.current - recording.outputOrigin,
+      });
+    }
+
+    nextStartTimeRef.current += buffer.duration;
+  }, []);
+
+  // Pushes out whatever the voice processor still holds once the agent's turn ends
+  const flushVoiceProcessor = useCallback(() => {
+    const processor = voiceProcessorRef.current;
+    voiceProcessorRef.current = null;
+    if (processor) scheduleOutput(processor.flush());
+  }, [scheduleOutput]);
+
+  const handleInterruption = useCallback(() => {
+    stopAllOutput();
+
+    // Drop the part of the agent's audio that was scheduled but never heard
+    const recording = recordingRef.current;
+    if (recording && audioContextRef.current) {
+      const cutTime = audioContextRef.current.currentTime - recording.outputOrigin;
+      recording.output = recording.output
+        .map(chunk => {
+          const heardSamples = Math.floor((cutTime - chunk.startTime) * chunk.sampleRate);
+          return heardSamples < chunk.data.length ? { ...chunk, data: chunk.data.subarray(0, Math.max(0, heardSamples)) } : chunk;
+        })
+        .filter(chunk => chunk.data.length > 0);
+    }
+
+    setTranscript(prev => {
+      let lastAgent = -1;
+      prev.forEach((entry, i) => { if (entry.role === 'agent') lastAgent = i; });
+      if (lastAgent === -1) return prev;
+      return prev.map((entry, i) => i === lastAgent ? { ...entry, interrupted: true } : entry);
+    });
+    finalizeTranscript();
+
+    setIsSpeaking(false);
+    setInterruptions(prev => prev + 1);
+    onInterruptedRef.current?.();
+  }, [stopAllOutput, finalizeTranscript]);
+
   const cleanup = useCallback(() => {
+    // Detach the recording first so repeated cleanups (onclose after disconnect) don't save twice
+    const recording = recordingRef.current;
+    recordingRef.current = null;
+    if (recording) {
+      const stopTime = inputContextRef.current
+        ? inputContextRef.current.currentTime - recording.inputOrigin
+        : (Date.now() - recording.startedAt) / 1000;
+      saveRecording(recording, stopTime);
+    }
+
+    // Invalidate the current session so its close/error callbacks are ignored
+    generationRef.current++;
+    if (reconnectTimerRef.current) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+    [sessionRef.current, pendingSessionRef.current].forEach(session => {
+      session?.then((s) => s.close()).catch(() => {});
+    });
+    sessionRef.current = null;
+    pendingSessionRef.current = null;
+    resumeHandleRef.current = null;
+    reconnectAttemptRef.current = 0;
+
+    stopAllOutput();
     if (processorRef.current) {
+      processorRef.current.port.onmessage = null;
       processorRef.current.disconnect();
       processorRef.current = null;
     }
@@ -49,23 +288,299 @@ export const useLiveAgent = ({ agent }: UseLiveAgentProps) => {
       audioContextRef.current.close();
       audioContextRef.current = null;
     }
-    if (sessionRef.current) {
-      sessionRef.current = null;
-    }
+    outputNodeRef.current = null;
     if (volumeIntervalRef.current) {
       clearInterval(volumeIntervalRef.current);
       volumeIntervalRef.current = null;
     }
     
+    isTalkingRef.current = false;
+    setIsTalking(false);
     setIsConnected(false);
+    setConnectionState('idle');
+    setReconnectAttempt(0);
     setIsListening(false);
     setIsSpeaking(false);
     setVolumeLevels({ input: 0, output: 0 });
-  }, []);
+    setIsRecording(false);
+    finalizeTranscript();
+  }, [finalizeTranscript, saveRecording, stopAllOutput]);
+
+  const updateToolEntry = (callId: string, updates: Partial<NonNullable<TranscriptEntry['toolCall']>>) => {
+    const entryId = toolEntriesRef.current.get(callId);
+    if (!entryId) return;
+    setTranscript(prev => prev.map(entry => entry.id === entryId && entry.toolCall
+      ? { ...entry, isFinal: updates.status !== 'running', toolCall: { ...entry.toolCall, ...updates } }
+      : entry));
+  };
+
+  const handleToolCall = async (functionCalls: FunctionCall[]) => {
+    const tools = agent.tools || [];
+    finalizeTranscript();
+
+    const responses = await Promise.all(functionCalls.map(async (call) => {
+      const callId = call.id || crypto.randomUUID();
+      const name = call.name || 'unknown';
+      const args = call.args || {};
+      const entryId = crypto.randomUUID();
+      toolEntriesRef.current.set(callId, entryId);
+      setTranscript(prev => [...prev, {
+        id: entryId,
+        role: 'tool',
+        text: name,
+        timestamp: Date.now(),
+        isFinal: false,
+        toolCall: { name, args, status: 'running' },
+      }]);
+
+      const tool = tools.find(t => t.name === name);
+      const result = tool
+        ? await executeTool(tool, args, { userId })
+        : { error: `Unknown tool "${name}"` };
+
+      if (cancelledToolCallsRef.current.has(callId)) return null;
+      updateToolEntry(callId, { status: 'error' in result ? 'error' : 'done', result });
+      return { id: callId, name, response: result };
+    }));
+
+    const functionResponses = responses.filter((r): r is NonNullable<typeof r> => r !== null);
+    if (functionResponses.length === 0) return;
+    sessionRef.current?.then((s) => s.sendToolResponse({ functionResponses })).catch(() => {});
+  };
+
+  const handleMessage = async (message: LiveServerMessage) => {
+    // Session resumption: keep the latest handle so a reconnect can pick up the same conversation
+    const resumption = message.sessionResumptionUpdate;
+    if (resumption?.resumable && resumption.newHandle) {
+      resumeHandleRef.current = resumption.newHandle;
+    }
+
+    // The server is about to drop this connection: move to a fresh one before it expires
+    if (message.goAway) rotateSession();
+
+    // Function calling: run local handlers and answer on the same session
+    if (message.toolCall?.functionCalls?.length) {
+      handleToolCall(message.toolCall.functionCalls);
+    }
+    message.toolCallCancellation?.ids?.forEach(id => {
+      cancelledToolCallsRef.current.add(id);
+      updateToolEntry(id, { status: 'cancelled' });
+    });
+
+    // Handle Transcriptions (both sides stream in as partial chunks)
+    const inputText = message.serverContent?.inputTranscription?.text;
+    if (inputText) appendTranscript('user', inputText);
+
+    const outputText = message.serverContent?.outputTranscription?.text;
+    if (outputText) appendTranscript('agent', outputText);
+
+    // Handle Audio Output
+    const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+    if (base64Audio && audioContextRef.current && outputNodeRef.current) {
+        setIsSpeaking(true);
+
+        const audioBuffer = await decodeAudioData(
+            base64Audio,
+            audioContextRef.current,
+            24000,
+            1
+        );
+        const samples = new Float32Array(audioBuffer.getChannelData(0));
+
+        // APPLY CUSTOM VOICE SETTINGS (tempo and pitch are processed independently)
+        if (agent.voiceSettings && !isNeutralVoice(agent.voiceSettings)) {
+          if (!voiceProcessorRef.current) {
+            voiceProcessorRef.current = createVoiceProcessor(audioBuffer.sampleRate, agent.voiceSettings);
+          }
+          scheduleOutput(voiceProcessorRef.current.process(samples));
+        } else {
+          scheduleOutput(samples);
+        }
+    }
+
+    const interrupted = message.serverContent?.interrupted;
+    if (interrupted) {
+        console.log("Interrupted");
+        handleInterruption();
+    }
+    
+    if (message.serverContent?.turnComplete) {
+        flushVoiceProcessor();
+        setIsSpeaking(false);
+        finalizeTranscript();
+    }
+  };
+
+  // Opens a Gemini session on the existing audio graph. Used for the first connect,
+  // for reconnects and for GoAway rotation, so contexts and the mic are never rebuilt.
+  const openSession = () => {
+    const generation = ++generationRef.current;
+    const sessionPromise = getSpeechProvider().liveConnect({
+      model: 'gemini-2.5-flash-native-audio-preview-12-2025',
+      callbacks: {
+        onopen: () => {
+          if (generation !== generationRef.current) return;
+          console.log("Session Opened");
+
+          // Swap in the new session and retire the previous one (GoAway rotation)
+          const previous = sessionRef.current;
+          sessionRef.current = sessionPromise;
+          pendingSessionRef.current = null;
+          if (previous && previous !== sessionPromise) {
+            previous.then((s) => s.close()).catch(() => {});
+          }
+
+          reconnectAttemptRef.current = 0;
+          setReconnectAttempt(0);
+          setConnectionState('connected');
+          setIsConnected(true);
+          setIsListening(true);
+          setError(null);
+        },
+        onmessage: (message: LiveServerMessage) => {
+          if (!audioContextRef.current) return;
+          handleMessage(message);
+        },
+        onclose: (e) => {
+          console.log("Session Closed", e?.reason);
+          handleSessionLost(generation);
+        },
+        onerror: (e) => {
+          console.error("Session Error", e);
+          handleSessionLost(generation);
+        }
+      },
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: agent.voice } },
+        },
+        systemInstruction: agent.systemInstruction,
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+        sessionResumption: { handle: resumeHandleRef.current || undefined },
+        // Push-to-talk marks turns explicitly, so the server must not detect them on its own
+        ...(inputModeRef.current === 'push_to_talk' ? { realtimeInputConfig: { automaticActivityDetection: { disabled: true } } } : {}),
+        ...(agent.tools?.length ? { tools: [{ functionDeclarations: toFunctionDeclarations(agent.tools) }] } : {}),
+      }
+    });
+
+    pendingSessionRef.current = sessionPromise;
+    sessionPromise.catch((err) => {
+      console.error("Session connect failed", err);
+      // Reconnecting can't fix a missing key, so say so straight away
+      const error = toGeminiError(err);
+      if (error.code === 'missing_key' && generation === generationRef.current) {
+        setError(describeGeminiError(error));
+        cleanup();
+        return;
+      }
+      handleSessionLost(generation);
+    });
+  };
+
+  const rotateSession = () => {
+    if (pendingSessionRef.current || reconnectTimerRef.current) return;
+    openSession();
+  };
+
+  const handleSessionLost = (generation: number) => {
+    // Ignore stale sessions (rotated out, or already being replaced) and user-initiated closes
+    if (generation !== generationRef.current || !audioContextRef.current) return;
+    generationRef.current++;
+    sessionRef.current?.then((s) => s.close()).catch(() => {});
+    sessionRef.current = null;
+    pendingSessionRef.current = null;
+
+    stopAllOutput();
+    finalizeTranscript();
+    isTalkingRef.current = false;
+    setIsTalking(false);
+    setIsSpeaking(false);
+    setIsConnected(false);
+
+    const attempt = reconnectAttemptRef.current + 1;
+    if (attempt > MAX_RECONNECT_ATTEMPTS) {
+      setError(`Connection lost after ${MAX_RECONNECT_ATTEMPTS} reconnect attempts`);
+      cleanup();
+      return;
+    }
+    reconnectAttemptRef.current = attempt;
+    setReconnectAttempt(attempt);
+    setConnectionState('reconnecting');
+
+    // Exponential backoff with jitter so many clients don't retry in lockstep
+    const delay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * Math.pow(2, attempt - 1));
+    reconnectTimerRef.current = window.setTimeout(() => {
+      reconnectTimerRef.current = null;
+      openSession();
+    }, delay * (0.75 + Math.random() * 0.5));
+  };
+
+  const setOutputSink = async (ctx: AudioContext, deviceId: string) => {
+    // setSinkId isn't in every browser (or in the DOM typings) yet
+    const sinkCtx = ctx as AudioContext & { setSinkId?: (id: string) => Promise<void> };
+    if (typeof sinkCtx.setSinkId !== 'function') return;
+    try {
+      await sinkCtx.setSinkId(deviceId || '');
+    } catch (e) {
+      console.error("Output device switch failed", e);
+      setError("Could not switch speaker");
+    }
+  };
+
+  // Swaps the mic stream under the running capture graph; the Gemini session is left untouched
+  const switchInputStream = async (prefs: AudioDevicePreferences) => {
+    if (!inputContextRef.current || !processorRef.current || !inputAnalyserRef.current) return;
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: buildAudioConstraints(prefs) });
+      if (!inputContextRef.current || !processorRef.current || !inputAnalyserRef.current) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      const source = inputContextRef.current.createMediaStreamSource(stream);
+      source.connect(inputAnalyserRef.current);
+      source.connect(processorRef.current);
+
+      sourceRef.current?.disconnect();
+      streamRef.current?.getTracks().forEach(track => track.stop());
+      sourceRef.current = source;
+      streamRef.current = stream;
+    } catch (e) {
+      console.error("Input device switch failed", e);
+      setError("Could not switch microphone");
+    }
+  };
+
+  useEffect(() => {
+    // Only hot-swap while a graph exists; otherwise the next connect picks the prefs up
+    if (!streamRef.current || !audioContextRef.current) return;
+    const applied = appliedPrefsRef.current;
+    appliedPrefsRef.current = audioPreferences;
+
+    if (inputPrefsChanged(applied, audioPreferences)) {
+      switchInputStream(audioPreferences);
+    }
+    if ((applied.outputDeviceId || '') !== (audioPreferences.outputDeviceId || '')) {
+      setOutputSink(audioContextRef.current, audioPreferences.outputDeviceId || '');
+    }
+  }, [audioPreferences]);
 
   const connect = async () => {
     try {
       setError(null);
+      setTranscript([]);
+      setSavedRecording(null);
+      setInterruptions(0);
+      setConnectionState('connecting');
+      openTurnRef.current = { user: null, agent: null };
+      inputModeRef.current = inputMode;
+      isTalkingRef.current = false;
+      setIsTalking(false);
+      toolEntriesRef.current.clear();
+      cancelledToolCallsRef.current.clear();
+      resumeHandleRef.current = null;
+      reconnectAttemptRef.current = 0;
       
       // Initialize Audio Contexts
       audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
@@ -77,107 +592,64 @@ export const useLiveAgent = ({ agent }: UseLiveAgentProps) => {
       inputAnalyserRef.current = inputContextRef.current.createAnalyser();
       inputAnalyserRef.current.fftSize = 256;
 
-      const outputNode = audioContextRef.current.createGain();
-      outputNode.connect(outputAnalyserRef.current);
+      outputNodeRef.current = audioContextRef.current.createGain();
+      outputNodeRef.current.connect(outputAnalyserRef.current);
       outputAnalyserRef.current.connect(audioContextRef.current.destination);
 
       // Start Microphone
-      streamRef.current = await navigator.mediaDevices.getUserMedia({ audio: true });
-      
-      // Initialize Gemini Client
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-12-2025',
-        callbacks: {
-          onopen: () => {
-            console.log("Session Opened");
-            setIsConnected(true);
-            setIsListening(true);
-            
-            // Setup Input Processing
-            if (!inputContextRef.current || !streamRef.current) return;
-            
-            sourceRef.current = inputContextRef.current.createMediaStreamSource(streamRef.current);
-            sourceRef.current.connect(inputAnalyserRef.current!); 
-            
-            processorRef.current = inputContextRef.current.createScriptProcessor(4096, 1, 1);
-            
-            processorRef.current.onaudioprocess = (e) => {
-              const inputData = e.inputBuffer.getChannelData(0);
-              const pcmBlob = createPcmBlob(inputData);
-              sessionPromise.then((session: any) => {
-                 session.sendRealtimeInput({ media: pcmBlob });
-              });
-            };
-
-            sourceRef.current.connect(processorRef.current);
-            processorRef.current.connect(inputContextRef.current.destination);
-          },
-          onmessage: async (message: LiveServerMessage) => {
-            // Handle Audio Output
-            const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-            if (base64Audio && audioContextRef.current) {
-                setIsSpeaking(true);
-                
-                nextStartTimeRef.current = Math.max(
-                    nextStartTimeRef.current,
-                    audioContextRef.current.currentTime
-                );
-
-                const audioBuffer = await decodeAudioData(
-                    base64Audio,
-                    audioContextRef.current,
-                    24000,
-                    1
-                );
-
-                const source = audioContextRef.current.createBufferSource();
-                source.buffer = audioBuffer;
-                
-                // APPLY CUSTOM VOICE SETTINGS
-                if (agent.voiceSettings) {
-                   source.playbackRate.value = agent.voiceSettings.speed || 1.0;
-                   source.detune.value = agent.voiceSettings.pitch || 0;
-                }
-
-                source.connect(outputNode);
-                source.start(nextStartTimeRef.current);
-                
-                const rate = source.playbackRate.value || 1;
-                nextStartTimeRef.current += (audioBuffer.duration / rate);
-            }
-
-            const interrupted = message.serverContent?.interrupted;
-            if (interrupted) {
-                console.log("Interrupted");
-                nextStartTimeRef.current = 0;
-            }
-            
-            if (message.serverContent?.turnComplete) {
-                setIsSpeaking(false);
-            }
-          },
-          onclose: () => {
-            console.log("Session Closed");
-            cleanup();
-          },
-          onerror: (e) => {
-            console.error("Session Error", e);
-            setError("Connection Error");
-            cleanup();
-          }
-        },
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: agent.voice } },
-          },
-          systemInstruction: agent.systemInstruction,
+      streamRef.current = await navigator.mediaDevices.getUserMedia({ audio: buildAudioConstraints(audioPreferences) });
+      if (audioPreferences.outputDeviceId) {
+        await setOutputSink(audioContextRef.current, audioPreferences.outputDeviceId);
+      }
+      appliedPrefsRef.current = audioPreferences;
+
+      // Capture runs off the main thread: the worklet clamps, converts and chunks the mic signal
+      processorRef.current = await createPcmCaptureNode(inputContextRef.current, captureChunkSize);
+
+      if (recordSession && userId) {
+        recordingRef.current = {
+          agent,
+          userId,
+          startedAt: Date.now(),
+          inputOrigin: inputContextRef.current.currentTime,
+          outputOrigin: audioContextRef.current.currentTime,
+          input: [],
+          output: [],
+        };
+        setIsRecording(true);
+      }
+
+      // Setup Input Processing (kept alive across reconnects)
+      sourceRef.current = inputContextRef.current.createMediaStreamSource(streamRef.current);
+      sourceRef.current.connect(inputAnalyserRef.current);
+
+      const inputRate = inputContextRef.current.sampleRate;
+
+      processorRef.current.port.onmessage = (e: MessageEvent<PcmCaptureMessage>) => {
+        // In push-to-talk mode the mic is only live while the button is held
+        if (inputModeRef.current === 'push_to_talk' && !isTalkingRef.current) return;
+
+        const int16 = new Int16Array(e.data.pcm);
+        const recording = recordingRef.current;
+        if (recording) {
+          recording.input.push({
+            data: int16ToFloat32(int16),
+            sampleRate: inputRate,
+            startTime: e.data.frame / inputRate - recording.inputOrigin,
+          });
         }
-      });
-      
-      sessionRef.current = sessionPromise;
+        // Mic audio captured while reconnecting is dropped rather than queued
+        const session = sessionRef.current;
+        if (!session) return;
+        const pcmBlob = int16ToPcmBlob(int16, inputRate);
+        session.then((s) => {
+           s.sendRealtimeInput({ media: pcmBlob });
+        }).catch(() => {});
+      };
+
+      sourceRef.current.connect(processorRef.current);
+
+      openSession();
       
       // Start Volume Monitoring Loop
       volumeIntervalRef.current = window.setInterval(() => {
@@ -209,6 +681,41 @@ export const useLiveAgent = ({ agent }: UseLiveAgentProps) => {
     }
   };
 
+  const startTalking = useCallback(() => {
+    if (inputModeRef.current !== 'push_to_talk' || isTalkingRef.current || !sessionRef.current) return;
+    isTalkingRef.current = true;
+    setIsTalking(true);
+    sessionRef.current.then((s) => s.sendRealtimeInput({ activityStart: {} })).catch(() => {});
+  }, []);
+
+  const stopTalking = useCallback(() => {
+    if (!isTalkingRef.current) return;
+    isTalkingRef.current = false;
+    setIsTalking(false);
+    // Releasing the button ends the user's turn so the agent can answer
+    sessionRef.current?.then((s) => s.sendRealtimeInput({ activityEnd: {} })).catch(() => {});
+  }, []);
+
+  // Typed turns go into the same session; the agent still answers in audio
+  const sendText = useCallback((text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed || !sessionRef.current) return false;
+    finalizeTranscript();
+    setTranscript(prev => [...prev, {
+      id: crypto.randomUUID(),
+      role: 'user',
+      text: trimmed,
+      timestamp: Date.now(),
+      isFinal: true,
+      typed: true,
+    }]);
+    sessionRef.current.then((s) => s.sendClientContent({
+      turns: [{ role: 'user', parts: [{ text: trimmed }] }],
+      turnComplete: true,
+    })).catch(() => {});
+    return true;
+  }, [finalizeTranscript]);
+
   useEffect(() => {
       return () => cleanup();
   }, [cleanup]);
@@ -217,8 +724,20 @@ export const useLiveAgent = ({ agent }: UseLiveAgentProps) => {
     connect,
     disconnect: cleanup,
     isConnected,
+    connectionState,
+    reconnectAttempt,
+    maxReconnectAttempts: MAX_RECONNECT_ATTEMPTS,
+    isTalking,
+    startTalking,
+    stopTalking,
+    sendText,
     isSpeaking,
     volumeLevels,
+    transcript,
+    isRecording,
+    isSavingRecording,
+    savedRecording,
+    interruptions,
     error
   };
 };
@@ -0,0 +1,201 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { pcmToWav } from '../utils/audio';
+import { LoopRegion } from '../utils/waveform';
+
+export interface PcmPlayer {
+  pcm: Int16Array | null;
+  duration: number;  // Seconds
+  position: number;  // Seconds
+  isPlaying: boolean;
+  level: number;     // 0-1, for the Visualizer
+  speed: number;
+  loop: LoopRegion | null;
+  play: (from?: number, source?: Int16Array) => Promise<void>;
+  pause: () => void;
+  stop: () => void;
+  seek: (seconds: number) => void;
+  setSpeed: (speed: number) => void;
+  setLoop: (loop: LoopRegion | null) => void;
+}
+
+// Plays a 16-bit render through an <audio> element, which keeps the pitch when the speed
+// changes and seeks without rebuilding buffers. A MediaElementSource feeds an analyser for the
+// level meter. Passing a new clip to play() loads it straight away, so a component can start
+// audio it has only just put into state.
+export const usePcmPlayer = (pcm: Int16Array | null, sampleRate = 24000): PcmPlayer => {
+  const [position, setPosition] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [level, setLevel] = useState(0);
+  const [speed, setSpeedState] = useState(1);
+  const [loop, setLoopState] = useState<LoopRegion | null>(null);
+
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const loadedRef = useRef<Int16Array | null>(null);
+  const urlRef = useRef('');
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const analyserRef = useRef<AnalyserNode | null>(null);
+  const animationRef = useRef<number | null>(null);
+  const loopRef = useRef<LoopRegion | null>(null);
+  const speedRef = useRef(1);
+
+  const element = () => {
+    if (!audioRef.current) {
+      const audio = new Audio();
+      audio.preservesPitch = true;
+      audio.onended = () => {
+        const region = loopRef.current;
+        if (region) {
+          audio.currentTime = region.start;
+          audio.play().catch(() => setIsPlaying(false));
+          return;
+        }
+        setIsPlaying(false);
+        setPosition(0);
+        audio.currentTime = 0;
+      };
+      audioRef.current = audio;
+    }
+    return audioRef.current;
+  };
+
+  // A new clip keeps the playhead, and keeps playing, so a remix under a listener doesn't
+  // restart it. The loop stays if it still fits.
+  const load = (next: Int16Array | null) => {
+    if (loadedRef.current === next) return;
+    const audio = element();
+    const wasPlaying = !audio.paused;
+    const duration = next ? next.length / sampleRate : 0;
+    const time = Math.min(audio.currentTime, duration);
+    audio.pause();
+    if (urlRef.current) URL.revokeObjectURL(urlRef.current);
+    urlRef.current = next ? URL.createObjectURL(pcmToWav(next, sampleRate)) : '';
+    if (urlRef.current) audio.src = urlRef.current;
+    else audio.removeAttribute('src');
+    audio.playbackRate = speedRef.current;
+    audio.currentTime = time;
+    loadedRef.current = next;
+    if (loopRef.current && loopRef.current.end > duration) {
+      loopRef.current = null;
+      setLoopState(null);
+    }
+    setPosition(time);
+    if (wasPlaying && next) audio.play().catch(() => setIsPlaying(false));
+    else setIsPlaying(false);
+  };
+
+  useEffect(() => { load(pcm); }, [pcm]);
+
+  useEffect(() => () => {
+    audioRef.current?.pause();
+    if (urlRef.current) URL.revokeObjectURL(urlRef.current);
+    audioContextRef.current?.close();
+    if (animationRef.current) cancelAnimationFrame(animationRef.current);
+  }, []);
+
+  // Levels, the playhead and loop wrap-around all follow the element once per frame
+  useEffect(() => {
+    if (!isPlaying) {
+      setLevel(0);
+      return;
+    }
+    const audio = element();
+    const data = new Uint8Array(analyserRef.current?.frequencyBinCount || 0);
+    const update = () => {
+      const region = loopRef.current;
+      if (region && audio.currentTime >= region.end) audio.currentTime = region.start;
+      setPosition(audio.currentTime);
+      if (analyserRef.current) {
+        analyserRef.current.getByteFrequencyData(data);
+        setLevel(data.reduce((a, b) => a + b, 0) / data.length / 255);
+      }
+      animationRef.current = requestAnimationFrame(update);
+    };
+    update();
+    return () => { if (animationRef.current) cancelAnimationFrame(animationRef.current); };
+  }, [isPlaying]);
+
+  const play = useCallback(async (from?: number, source?: Int16Array) => {
+    if (source) load(source);
+    if (!loadedRef.current) return;
+    const audio = element();
+
+    // The context can only start from a user gesture, so it is made on the first play
+    if (!audioContextRef.current) {
+      const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+      const analyser = ctx.createAnalyser();
+      analyser.fftSize = 256;
+      ctx.createMediaElementSource(audio).connect(analyser);
+      analyser.connect(ctx.destination);
+      audioContextRef.current = ctx;
+      analyserRef.current = analyser;
+    }
+    if (audioContextRef.current.state === 'suspended') await audioContextRef.current.resume();
+
+    const region = loopRef.current;
+    let start = from ?? audio.currentTime;
+    // Playing from outside the loop jumps into it
+    if (region && (start < region.start || start >= region.end)) start = region.start;
+    audio.currentTime = start;
+    setPosition(start);
+    try {
+      await audio.play();
+      setIsPlaying(true);
+    } catch (e) {
+      // A pause or a new clip arriving before playback starts rejects the play() promise
+      console.warn("Playback did not start", e);
+    }
+  }, [sampleRate]);
+
+  const pause = useCallback(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.pause();
+    setPosition(audio.currentTime);
+    setIsPlaying(false);
+  }, []);
+
+  const stop = useCallback(() => {
+    const audio = audioRef.current;
+    if (audio) {
+      audio.pause();
+      audio.currentTime = 0;
+    }
+    setIsPlaying(false);
+    setPosition(0);
+  }, []);
+
+  const seek = useCallback((seconds: number) => {
+    const audio = element();
+    const duration = loadedRef.current ? loadedRef.current.length / sampleRate : 0;
+    const target = Math.max(0, Math.min(duration, seconds));
+    audio.currentTime = target;
+    setPosition(target);
+  }, [sampleRate]);
+
+  const setSpeed = useCallback((next: number) => {
+    speedRef.current = next;
+    element().playbackRate = next;
+    setSpeedState(next);
+  }, []);
+
+  const setLoop = useCallback((next: LoopRegion | null) => {
+    loopRef.current = next;
+    setLoopState(next);
+  }, []);
+
+  return {
+    pcm,
+    duration: pcm ? pcm.length / sampleRate : 0,
+    position,
+    isPlaying,
+    level,
+    speed,
+    loop,
+    play,
+    pause,
+    stop,
+    seek,
+    setSpeed,
+    setLoop,
+  };
+};
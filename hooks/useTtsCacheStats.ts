@@ -0,0 +1,8 @@
+import { useEffect, useState } from 'react';
+import { getTtsCacheStats, subscribeTtsCacheStats, TtsCacheStats } from '../utils/ttsCache';
+
+export const useTtsCacheStats = (): TtsCacheStats => {
+  const [stats, setStats] = useState<TtsCacheStats>(getTtsCacheStats);
+  useEffect(() => subscribeTtsCacheStats(setStats), []);
+  return stats;
+};
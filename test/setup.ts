@@ -0,0 +1,2 @@
+// Gives every test an in-memory IndexedDB; individual suites reset it with a fresh IDBFactory
+import 'fake-indexeddb/auto';
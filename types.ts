@@ -25,6 +25,18 @@ export interface VoiceOption {
   isCustom?: boolean; // Flag for user-saved voices
 }
 
+// Built-in local actions a Live agent can invoke through function calling
+export type ToolHandlerType = 'clock' | 'calculator' | 'project_lookup' | 'http_fetch';
+
+export interface AgentTool {
+  id: string;
+  name: string;        // Function name exposed to the model
+  description: string;
+  parameters: Record<string, unknown>; // JSON Schema for the arguments
+  handler: ToolHandlerType;
+  endpoint?: string;   // http_fetch only: local URL to call
+}
+
 export interface AgentPersona {
   id: string;
   name: string;
@@ -35,6 +47,7 @@ export interface AgentPersona {
   };
   systemInstruction: string;
   avatarColor: string;
+  tools?: AgentTool[];
 }
 
 export interface AudioVisualizerData {
@@ -42,10 +55,105 @@ export interface AudioVisualizerData {
   outputLevel: number; // 0-1
 }
 
+export type LiveConnectionState = 'idle' | 'connecting' | 'connected' | 'reconnecting';
+
+// 'continuous' streams the mic with server-side voice detection; 'push_to_talk' only while held
+export type LiveInputMode = 'continuous' | 'push_to_talk';
+
+export interface ToolCallRecord {
+  name: string;
+  args: Record<string, unknown>;
+  status: 'running' | 'done' | 'error' | 'cancelled';
+  result?: Record<string, unknown>;
+}
+
+export interface TranscriptEntry {
+  id: string;
+  role: 'user' | 'agent' | 'tool';
+  text: string;
+  timestamp: number;
+  isFinal: boolean; // False while the speaker's turn is still streaming in
+  interrupted?: boolean; // Agent turn cut off by the user (barge-in)
+  toolCall?: ToolCallRecord; // Set on 'tool' entries
+  typed?: boolean; // User turn sent from the text box instead of the mic
+}
+
 export interface CastMember {
   id: string;
   name: string;
   voiceId: string; // Refers to VoiceOption.id
+  stylePrompt?: string; // Default delivery for the character's lines, e.g. "gravelly old sea captain"
+  color?: string;       // Hex color for the character in the script editor
+}
+
+// A whole cast saved for reuse across episodes of a series
+export interface CastPreset {
+  id: string;
+  name: string;
+  members: Omit<CastMember, 'id'>[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// "[sfx: door_creak]" in a script. Plays offsetMs into the segment's lead-in, counted from
+// the start of its pause, so a cue written before a [pause] lands ahead of the silence.
+export interface SfxCue {
+  name: string;
+  offsetMs?: number;
+}
+
+// One synthesized script line in Story Mode (audio has the voice's speed/pitch baked in)
+export interface StorySegment {
+  id: string;
+  castId?: string;  // Cast member reading the line (missing on segments saved before it was tracked)
+  voiceId: string;
+  text: string;
+  sourceLine: string; // Script line it came from, used to rewrite the script on reorder
+  hash: string;       // Text + voice render settings; same hash = audio can be reused
+  audioData: Int16Array | null;
+  muted?: boolean;
+  direction?: string;     // Parenthetical from the script, e.g. "whispering"
+  pauseBeforeMs?: number; // Silence inserted ahead of the segment in the mixdown
+  chapter?: string;       // Heading this segment opens
+  sfx?: SfxCue[];         // Sound effects triggered as the segment starts
+}
+
+export type MixTrackKind = 'music' | 'sfx';
+
+// Imported local audio, decoded once to 24kHz mono so mixing never has to decode again
+export interface AudioAsset {
+  id: string;
+  name: string;     // File name without the extension
+  kind: MixTrackKind;
+  pcm: Int16Array;  // 24kHz mono
+  duration: number; // Seconds
+  createdAt: number;
+}
+
+// A music bed or sound effect on a Story project's mixer
+export interface MixTrack {
+  id: string;
+  assetId: string; // Refers to AudioAsset.id
+  name: string;    // SFX cues match it loosely: [sfx: door creak] plays "Door_Creak"
+  kind: MixTrackKind;
+  volume: number;  // 0-1
+  muted?: boolean;
+  loop?: boolean;  // Music only: repeat the bed until the story ends
+}
+
+// Render-time processing of the voice track, see utils/audio.ts
+export interface MasteringSettings {
+  turnGapMs: number;             // Silence between turns once their own silence is trimmed; [pause] replaces it
+  loudnessTarget: number | null; // Integrated LUFS; null leaves levels alone
+  truePeakDb: number;            // Limiter ceiling in dBTP
+}
+
+// Where one synthesized turn sits in a project's audioData, in 24kHz samples
+export interface TurnTiming {
+  speaker: string;
+  text: string;
+  start: number;
+  end: number;
 }
 
 export interface Project {
@@ -59,9 +167,59 @@ export interface Project {
   audioData: Int16Array | null;
   duration: number;
   voiceVolume: number;
+  tracks?: MixTrack[];  // Music beds and SFX mixed under the voice (Story Mode)
+  duckingDb?: number;   // How far music beds dip while someone speaks; 0 = off
+  mastering?: MasteringSettings; // Missing on projects rendered before mastering existed
   isPodcast?: boolean;
   guestAgent?: AgentPersona;
   cast?: CastMember[]; // Explicit cast for Story Mode
+  segments?: StorySegment[]; // Per-line renders behind audioData (Story Mode)
+  timings?: TurnTiming[];    // Per-turn positions in audioData, for captions
+  isLiveSession?: boolean; // Recorded LiveInterface call (read-only)
+  transcript?: TranscriptEntry[];
+}
+
+// What voice analysis (cloning) infers from a recorded sample
+export interface VoiceAnalysis {
+  suggestedName: string;
+  baseVoice: string;
+  speed: number;
+  pitch: number;
+  description: string;
+  systemInstruction: string;
+  gender: Gender;
+}
+
+// Long-form render in progress; finished segments are checkpointed separately so
+// a reload or failure resumes instead of starting over. Keyed by project id.
+export interface GenerationJob {
+  id: string;
+  total: number;
+  completed: number;
+  status: 'running' | 'paused' | 'failed';
+  error?: string;
+  updatedAt: number;
+}
+
+// Raw (unprocessed) TTS output, keyed by a hash of model + voice + text + style
+export interface TtsCacheEntry {
+  key: string;
+  model: string;
+  voice: string;
+  text: string;
+  style: string;
+  pcm: Int16Array; // 24kHz mono
+  bytes: number;
+  createdAt: number;
+  lastAccessed: number;
+}
+
+export interface AudioDevicePreferences {
+  inputDeviceId?: string;  // Empty/undefined = system default
+  outputDeviceId?: string;
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
 }
 
 export interface User {
@@ -69,4 +227,5 @@ export interface User {
   username: string;
   avatar: string;
   createdAt: number;
+  audioPreferences?: AudioDevicePreferences;
 }
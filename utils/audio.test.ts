@@ -0,0 +1,235 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyVoiceSettings,
+  arrangeTurns,
+  arrayBufferToBase64,
+  base64ToPcm16,
+  concatPcm,
+  createPcmBlob,
+  decodeAudioData,
+  float32ToInt16,
+  int16ToFloat32,
+  int16ToPcmBlob,
+  limitTruePeak,
+  masterPcm,
+  measureLoudness,
+  measureTruePeak,
+  mixTimedChunks,
+  pcmToWav,
+  resampleLinear,
+  resampleSinc,
+  silenceBounds,
+} from './audio';
+import { createFakeAudioContext } from '../test/fakeAudioContext';
+
+const readString = (view: DataView, offset: number, length: number) =>
+  String.fromCharCode(...Array.from({ length }, (_, i) => view.getUint8(offset + i)));
+
+const toBase64 = (bytes: number[]) => arrayBufferToBase64(new Uint8Array(bytes).buffer);
+
+describe('pcmToWav', () => {
+  it('writes a canonical 44-byte PCM header', async () => {
+    const pcm = new Int16Array([0, 1000, -1000, 32767]);
+    const blob = pcmToWav(pcm, 24000);
+    const view = new DataView(await blob.arrayBuffer());
+
+    expect(blob.type).toBe('audio/wav');
+    expect(blob.size).toBe(44 + pcm.length * 2);
+    expect(readString(view, 0, 4)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(36 + pcm.length * 2);
+    expect(readString(view, 8, 4)).toBe('WAVE');
+    expect(readString(view, 12, 4)).toBe('fmt ');
+    expect(view.getUint32(16, true)).toBe(16);
+    expect(view.getUint16(20, true)).toBe(1);
+    expect(view.getUint16(22, true)).toBe(1);
+    expect(view.getUint32(24, true)).toBe(24000);
+    expect(view.getUint32(28, true)).toBe(48000);
+    expect(view.getUint16(32, true)).toBe(2);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(readString(view, 36, 4)).toBe('data');
+    expect(view.getUint32(40, true)).toBe(pcm.length * 2);
+    expect(view.getInt16(44 + 3 * 2, true)).toBe(32767);
+  });
+
+  it('derives byte rate and block align from the channel count', async () => {
+    const view = new DataView(await pcmToWav(new Int16Array(8), 48000, 2).arrayBuffer());
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(28, true)).toBe(48000 * 2 * 2);
+    expect(view.getUint16(32, true)).toBe(4);
+  });
+
+  it('only includes the samples of a subarray view', async () => {
+    const backing = new Int16Array([1, 2, 3, 4, 5, 6]);
+    const blob = pcmToWav(backing.subarray(2, 4));
+    const view = new DataView(await blob.arrayBuffer());
+    expect(blob.size).toBe(44 + 4);
+    expect(view.getInt16(44, true)).toBe(3);
+    expect(view.getInt16(46, true)).toBe(4);
+  });
+});
+
+describe('createPcmBlob', () => {
+  it('clamps out-of-range floats to the Int16 limits', () => {
+    const blob = createPcmBlob(new Float32Array([2, -2, 1, -1, 0, 0.5]));
+    expect(blob.mimeType).toBe('audio/pcm;rate=16000');
+    expect(Array.from(base64ToPcm16(blob.data))).toEqual([32767, -32768, 32767, -32768, 0, 16383]);
+  });
+
+  it('does not leak bytes around an Int16 view', () => {
+    const backing = new Int16Array([9, 9, 7, 8, 9, 9]);
+    const blob = int16ToPcmBlob(backing.subarray(2, 4), 24000);
+    expect(blob.mimeType).toBe('audio/pcm;rate=24000');
+    expect(Array.from(base64ToPcm16(blob.data))).toEqual([7, 8]);
+  });
+});
+
+describe('base64 helpers', () => {
+  it('drops a trailing odd byte instead of throwing', () => {
+    expect(Array.from(base64ToPcm16(toBase64([0x01, 0x00, 0xff])))).toEqual([1]);
+    expect(base64ToPcm16(toBase64([0x7f])).length).toBe(0);
+  });
+
+  it('round-trips buffers larger than one encoding block', () => {
+    const bytes = new Uint8Array(0x8000 * 2 + 17).map((_, i) => i % 251);
+    const decoded = Uint8Array.from(atob(arrayBufferToBase64(bytes.buffer)), c => c.charCodeAt(0));
+    expect(decoded).toEqual(bytes);
+  });
+});
+
+describe('decodeAudioData', () => {
+  it('converts little-endian Int16 to floats', async () => {
+    const buffer = await decodeAudioData(toBase64([0x00, 0x40, 0x00, 0xc0, 0xff, 0x7f]), createFakeAudioContext(), 24000, 1);
+    expect(buffer.length).toBe(3);
+    expect(buffer.sampleRate).toBe(24000);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0.5, -0.5, 32767 / 32768]);
+  });
+
+  it('ignores an odd trailing byte', async () => {
+    const buffer = await decodeAudioData(toBase64([0x00, 0x40, 0x12]), createFakeAudioContext());
+    expect(buffer.length).toBe(1);
+  });
+
+  it('de-interleaves stereo and drops a partial frame', async () => {
+    const pcm = new Int16Array([16384, -16384, 8192, -8192, 4096]);
+    const buffer = await decodeAudioData(int16ToPcmBlob(pcm).data, createFakeAudioContext(), 24000, 2);
+    expect(buffer.length).toBe(2);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0.5, 0.25]);
+    expect(Array.from(buffer.getChannelData(1))).toEqual([-0.5, -0.25]);
+  });
+});
+
+describe('mixing and resampling', () => {
+  it('concatenates PCM parts in order', () => {
+    expect(Array.from(concatPcm([new Int16Array([1, 2]), new Int16Array(0), new Int16Array([3])]))).toEqual([1, 2, 3]);
+  });
+
+  it('sums overlapping chunks and clamps the result', () => {
+    const mix = mixTimedChunks([
+      { data: new Float32Array([0.75, 0.75]), sampleRate: 10, startTime: 0 },
+      { data: new Float32Array([0.75, 0.75]), sampleRate: 10, startTime: 0.1 },
+    ], 10, 0.5);
+    expect(Array.from(mix)).toEqual([24575, 32767, 24575, 0, 0]);
+  });
+
+  it('resamples to the requested length', () => {
+    expect(resampleLinear(new Float32Array(16000), 16000, 24000).length).toBe(24000);
+    const same = new Float32Array([1, 2]);
+    expect(resampleLinear(same, 24000, 24000)).toBe(same);
+  });
+
+  it('sinc-resamples a tone without changing its level or phase', () => {
+    const sine = (rate: number, length: number) => Float32Array.from({ length }, (_, i) => 0.5 * Math.sin((2 * Math.PI * 3000 * i) / rate));
+    const out = resampleSinc(sine(24000, 2400), 24000, 44100);
+    expect(out.length).toBe(4410);
+    const expected = sine(44100, 4410);
+    // Away from the edges, where the kernel runs out of input
+    const error = Math.max(...Array.from(out.subarray(100, 4300), (v, i) => Math.abs(v - expected[i + 100])));
+    expect(error).toBeLessThan(0.005);
+  });
+
+  it('filters out tones above the new Nyquist rate when downsampling', () => {
+    const high = Float32Array.from({ length: 4800 }, (_, i) => Math.sin((2 * Math.PI * 20000 * i) / 48000));
+    const out = resampleSinc(high, 48000, 24000);
+    expect(Math.max(...Array.from(out.subarray(100, 2300), Math.abs))).toBeLessThan(0.01);
+  });
+});
+
+describe('applyVoiceSettings', () => {
+  const tone = new Float32Array(24000).map((_, i) => Math.sin((2 * Math.PI * 220 * i) / 24000) * 0.5);
+
+  it('leaves neutral settings untouched', () => {
+    expect(applyVoiceSettings(tone, 24000, { speed: 1, pitch: 0 })).toBe(tone);
+  });
+
+  it('changes duration by speed only', () => {
+    // Stretching and resampling each round once, so allow a sample of slack per stage
+    const slowed = applyVoiceSettings(tone, 24000, { speed: 0.85, pitch: -550 });
+    expect(Math.abs(slowed.length - tone.length / 0.85)).toBeLessThanOrEqual(2);
+    expect(applyVoiceSettings(tone, 24000, { speed: 1, pitch: 700 }).length).toBe(tone.length);
+  });
+});
+
+describe('mastering', () => {
+  const sine = (amplitude: number, length: number, rate = 24000, hz = 997) =>
+    Float32Array.from({ length }, (_, i) => amplitude * Math.sin((2 * Math.PI * hz * i) / rate));
+  const padded = (lead: number, tone: number, tail: number) =>
+    float32ToInt16(Float32Array.from([...new Float32Array(lead), ...sine(0.5, tone), ...new Float32Array(tail)]));
+  const settings = { turnGapMs: 100, loudnessTarget: null, truePeakDb: -1 };
+
+  it('measures a full-scale 997Hz tone at -3.01 LUFS', () => {
+    expect(measureLoudness(sine(1, 48000 * 2, 48000), 48000)).toBeCloseTo(-3.01, 1);
+    expect(measureLoudness(new Float32Array(24000))).toBe(-Infinity);
+  });
+
+  it('finds peaks between samples', () => {
+    // A quarter-rate tone sampled 45 degrees off its crests never has a sample above -3dB
+    const offset = Float32Array.from({ length: 2400 }, (_, i) => Math.sin((Math.PI / 2) * i + Math.PI / 4));
+    expect(20 * Math.log10(Math.max(...Array.from(offset, Math.abs)))).toBeCloseTo(-3.01, 1);
+    expect(measureTruePeak(offset)).toBeCloseTo(0, 0);
+  });
+
+  it('limits the true peak to the ceiling and leaves quiet audio alone', () => {
+    const loud = sine(1, 24000, 24000, 5000);
+    expect(measureTruePeak(limitTruePeak(loud, -1))).toBeLessThanOrEqual(-1);
+    const quiet = sine(0.5, 24000);
+    expect(limitTruePeak(quiet, -1)).toBe(quiet);
+  });
+
+  it('bounds the audible part of a clip with a little padding', () => {
+    expect(silenceBounds(padded(2400, 2400, 2400))).toEqual([2400 - 720, 4800 + 1920]);
+    expect(silenceBounds(new Int16Array(2400))).toEqual([0, 0]);
+  });
+
+  it('keeps turns as rendered without settings', () => {
+    const { samples, placements } = arrangeTurns([{ pcm: new Int16Array([1, 2]) }, { pcm: new Int16Array([3]), pauseBeforeMs: 2 }], undefined, 1000);
+    expect(Array.from(samples, sample => sample * 32768)).toEqual([1, 2, 0, 0, 3]);
+    expect(placements).toEqual([{ pauseStart: 0, start: 0, end: 2 }, { pauseStart: 2, start: 4, end: 5 }]);
+  });
+
+  it('trims turns and separates them by the gap unless a pause overrides it', () => {
+    const turn = padded(2400, 2400, 2400);
+    const { samples, placements } = arrangeTurns([{ pcm: turn }, { pcm: turn }, { pcm: turn, pauseBeforeMs: 0 }], settings);
+    expect(placements).toEqual([
+      { pauseStart: 0, start: 0, end: 5040 },
+      { pauseStart: 5040, start: 7440, end: 12480 },
+      { pauseStart: 12480, start: 12480, end: 17520 },
+    ]);
+    expect(samples.length).toBe(17520);
+  });
+
+  it('levels turns to the same loudness', () => {
+    const { samples, placements } = arrangeTurns([
+      { pcm: float32ToInt16(sine(0.05, 24000)) },
+      { pcm: float32ToInt16(sine(0.5, 24000)) },
+    ], { ...settings, loudnessTarget: -16 });
+    const [a, b] = placements.map(p => measureLoudness(samples.subarray(p.start, p.end)));
+    expect(a).toBeCloseTo(-22, 0);
+    expect(b).toBeCloseTo(-22, 0);
+  });
+
+  it('masters a program to the loudness target under the true-peak ceiling', () => {
+    const mastered = int16ToFloat32(masterPcm(sine(0.05, 48000), { ...settings, loudnessTarget: -16 }));
+    expect(measureLoudness(mastered)).toBeCloseTo(-16, 0);
+    expect(measureTruePeak(mastered)).toBeLessThanOrEqual(-1);
+  });
+});
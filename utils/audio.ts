@@ -1,3 +1,4 @@
+import { MasteringSettings } from '../types';
 
 export function base64ToUint8Array(base64: string): Uint8Array {
   const binaryString = atob(base64);
@@ -9,12 +10,20 @@ export function base64ToUint8Array(base64: string): Uint8Array {
   return bytes;
 }
 
+// TTS and Live payloads are 16-bit PCM; a stray odd byte is dropped rather than throwing
+export function base64ToPcm16(base64: string): Int16Array {
+  const bytes = base64ToUint8Array(base64);
+  return new Int16Array(bytes.buffer, bytes.byteOffset, bytes.byteLength >> 1);
+}
+
 export function arrayBufferToBase64(buffer: ArrayBuffer): string {
   let binary = '';
   const bytes = new Uint8Array(buffer);
   const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
+  // Convert in blocks: one fromCharCode call per block instead of per byte
+  const blockSize = 0x8000;
+  for (let i = 0; i < len; i += blockSize) {
+    binary += String.fromCharCode.apply(null, bytes.subarray(i, Math.min(i + blockSize, len)) as unknown as number[]);
   }
   return btoa(binary);
 }
@@ -45,21 +54,33 @@ export function createPcmBlob(data: Float32Array): GeminiAudioData {
     const s = Math.max(-1, Math.min(1, data[i]));
     int16[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
   }
+  return int16ToPcmBlob(int16);
+}
+
+// For PCM that is already Int16 (e.g. chunks posted by the capture worklet)
+export function int16ToPcmBlob(int16: Int16Array, sampleRate: number = 16000): GeminiAudioData {
+  // Views over a larger buffer must not leak the surrounding bytes
+  const isWholeBuffer = int16.byteOffset === 0 && int16.byteLength === int16.buffer.byteLength;
   return {
-    data: arrayBufferToBase64(int16.buffer),
-    mimeType: 'audio/pcm;rate=16000',
+    data: arrayBufferToBase64((isWholeBuffer ? int16 : int16.slice()).buffer as ArrayBuffer),
+    mimeType: `audio/pcm;rate=${sampleRate}`,
   };
 }
 
+export function int16ToFloat32(int16: Int16Array): Float32Array {
+  const out = new Float32Array(int16.length);
+  for (let i = 0; i < int16.length; i++) out[i] = int16[i] / 32768.0;
+  return out;
+}
+
 export async function decodeAudioData(
   base64Data: string,
   ctx: AudioContext,
   sampleRate: number = 24000,
   numChannels: number = 1,
 ): Promise<AudioBuffer> {
-  const bytes = base64ToUint8Array(base64Data);
-  const dataInt16 = new Int16Array(bytes.buffer);
-  const frameCount = dataInt16.length / numChannels;
+  const dataInt16 = base64ToPcm16(base64Data);
+  const frameCount = Math.floor(dataInt16.length / numChannels); // Drop a trailing partial frame
   const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
 
   for (let channel = 0; channel < numChannels; channel++) {
@@ -71,6 +92,19 @@ export async function decodeAudioData(
   return buffer;
 }
 
+// Decodes an imported audio file (any format the browser plays) to mono Int16 at sampleRate.
+// decodeAudioData resamples to the context's rate, so only the downmix is left to do.
+export async function decodeAudioFile(data: ArrayBuffer, sampleRate: number = 24000): Promise<Int16Array> {
+  const ctx = new OfflineAudioContext(1, 1, sampleRate);
+  const buffer = await ctx.decodeAudioData(data);
+  const mono = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const channelData = buffer.getChannelData(channel);
+    for (let i = 0; i < buffer.length; i++) mono[i] += channelData[i] / buffer.numberOfChannels;
+  }
+  return float32ToInt16(mono);
+}
+
 function writeString(view: DataView, offset: number, string: string) {
   for (let i = 0; i < string.length; i++) {
     view.setUint8(offset + i, string.charCodeAt(i));
@@ -105,3 +139,539 @@ export function pcmToWav(pcmData: Int16Array, sampleRate: number = 24000, numCha
   const blob = new Blob([header, pcmData], { type: 'audio/wav' });
   return blob;
 }
+
+export function concatPcm(parts: Int16Array[]): Int16Array {
+  const merged = new Int16Array(parts.reduce((acc, p) => acc + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    merged.set(part, offset);
+    offset += part.length;
+  }
+  return merged;
+}
+
+// A mono chunk of float PCM placed on a shared timeline (seconds from the timeline origin)
+export interface TimedPcmChunk {
+  data: Float32Array;
+  sampleRate: number;
+  startTime: number;
+}
+
+export function resampleLinear(input: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate) return input;
+  const outLength = Math.max(1, Math.round(input.length * toRate / fromRate));
+  const output = new Float32Array(outLength);
+  const ratio = fromRate / toRate;
+  for (let i = 0; i < outLength; i++) {
+    const pos = i * ratio;
+    const idx = Math.floor(pos);
+    const frac = pos - idx;
+    const a = input[idx] ?? 0;
+    const b = input[idx + 1] ?? a;
+    output[i] = a + (b - a) * frac;
+  }
+  return output;
+}
+
+// Blackman-windowed sinc resampling for exports, where linear interpolation's aliasing and
+// dulled treble would be audible. The kernel is tabulated at SINC_PHASES fractional offsets.
+const SINC_HALF_TAPS = 16;
+const SINC_PHASES = 512;
+
+export function resampleSinc(input: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate) return input;
+  const outLength = Math.max(1, Math.round(input.length * toRate / fromRate));
+  // Band-limit to the lower Nyquist rate; downsampling widens the kernel to match
+  const cutoff = Math.min(1, toRate / fromRate);
+  const half = Math.ceil(SINC_HALF_TAPS / cutoff);
+  const width = 2 * half;
+
+  const table = new Float32Array((SINC_PHASES + 1) * width);
+  for (let phase = 0; phase <= SINC_PHASES; phase++) {
+    const frac = phase / SINC_PHASES;
+    let sum = 0;
+    for (let j = 0; j < width; j++) {
+      const x = j - half + 1 - frac;
+      const t = x / half;
+      const window = Math.abs(t) >= 1 ? 0 : 0.42 + 0.5 * Math.cos(Math.PI * t) + 0.08 * Math.cos(2 * Math.PI * t);
+      const sinc = x === 0 ? 1 : Math.sin(Math.PI * cutoff * x) / (Math.PI * cutoff * x);
+      table[phase * width + j] = cutoff * sinc * window;
+      sum += table[phase * width + j];
+    }
+    // Unity gain at DC for every phase
+    for (let j = 0; j < width; j++) table[phase * width + j] /= sum;
+  }
+
+  const output = new Float32Array(outLength);
+  const ratio = fromRate / toRate;
+  for (let i = 0; i < outLength; i++) {
+    const pos = i * ratio;
+    const base = Math.floor(pos);
+    const row = Math.round((pos - base) * SINC_PHASES) * width;
+    const first = base - half + 1;
+    let acc = 0;
+    for (let j = Math.max(0, -first); j < width && first + j < input.length; j++) {
+      acc += input[first + j] * table[row + j];
+    }
+    output[i] = acc;
+  }
+  return output;
+}
+
+// Resamples every chunk to the target rate and sums them onto one timeline.
+// minDuration (seconds) pads the result so trailing silence is kept.
+export function mixTimedChunks(chunks: TimedPcmChunk[], sampleRate: number = 24000, minDuration: number = 0): Int16Array {
+  const placed = chunks.map(chunk => ({
+    offset: Math.max(0, Math.round(chunk.startTime * sampleRate)),
+    data: resampleLinear(chunk.data, chunk.sampleRate, sampleRate),
+  }));
+
+  const totalSamples = placed.reduce(
+    (acc, p) => Math.max(acc, p.offset + p.data.length),
+    Math.round(minDuration * sampleRate)
+  );
+
+  const mix = new Float32Array(totalSamples);
+  for (const p of placed) {
+    for (let i = 0; i < p.data.length; i++) mix[p.offset + i] += p.data[i];
+  }
+
+  return float32ToInt16(mix);
+}
+
+export function float32ToInt16(data: Float32Array): Int16Array {
+  const out = new Int16Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    const s = Math.max(-1, Math.min(1, data[i]));
+    out[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+  }
+  return out;
+}
+
+// --- Voice Processing (independent tempo & pitch) ---
+// speed scales tempo only and pitch (cents) scales pitch only. Implemented as a WSOLA
+// time-stretch followed by a resample: stretch by pitchRatio/speed, then resample by
+// pitchRatio, so duration ends up divided by speed while pitch moves by pitchRatio.
+
+export interface VoiceProcessingSettings {
+  speed: number; // tempo multiplier, 1 = unchanged
+  pitch: number; // cents, 0 = unchanged
+}
+
+export interface StreamProcessor {
+  process: (chunk: Float32Array) => Float32Array;
+  flush: () => Float32Array; // Emits whatever is still buffered; the processor is spent afterwards
+}
+
+export function isNeutralVoice(settings?: Partial<VoiceProcessingSettings>): boolean {
+  return !settings || ((settings.speed ?? 1) === 1 && (settings.pitch ?? 0) === 0);
+}
+
+export function concatFloat32(parts: Float32Array[]): Float32Array {
+  const total = parts.reduce((acc, p) => acc + p.length, 0);
+  const out = new Float32Array(total);
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+}
+
+// Linear resampler that keeps its read position across chunks.
+// step = input samples consumed per output sample (>1 shortens and raises pitch).
+export function createStreamingResampler(step: number): StreamProcessor {
+  if (step === 1) return { process: (chunk) => chunk, flush: () => new Float32Array(0) };
+
+  let carry: number | null = null; // last sample of the previous chunk
+  let pos = 0; // read position, index 0 = carry (or the chunk start when there is no carry)
+
+  return {
+    process: (chunk) => {
+      if (chunk.length === 0) return chunk;
+      const offset = carry === null ? 0 : 1;
+      const length = chunk.length + offset;
+      const at = (i: number) => (i < offset ? carry! : chunk[i - offset]);
+
+      const out: number[] = [];
+      while (pos + 1 < length) {
+        const idx = Math.floor(pos);
+        const frac = pos - idx;
+        const a = at(idx);
+        out.push(a + (at(idx + 1) - a) * frac);
+        pos += step;
+      }
+      carry = chunk[chunk.length - 1];
+      pos -= length - 1;
+      return Float32Array.from(out);
+    },
+    flush: () => new Float32Array(0),
+  };
+}
+
+// Streaming WSOLA (waveform-similarity overlap-add) time-stretch.
+// stretch > 1 makes the signal longer without changing its pitch.
+export function createTimeStretcher(sampleRate: number, stretch: number): StreamProcessor {
+  if (stretch === 1) return { process: (chunk) => chunk, flush: () => new Float32Array(0) };
+
+  const synthesisHop = Math.max(32, Math.round(sampleRate * 0.015));
+  const frameSize = synthesisHop * 2;
+  const analysisHop = synthesisHop / stretch;
+  const tolerance = Math.round(sampleRate * 0.006);
+  const corrStride = 4; // Decimated similarity search keeps the cost per frame low
+
+  // Periodic Hann sums to exactly 1 at 50% overlap, so no gain normalisation is needed
+  const window = new Float32Array(frameSize);
+  for (let n = 0; n < frameSize; n++) window[n] = 0.5 - 0.5 * Math.cos((2 * Math.PI * n) / frameSize);
+
+  let buffer = new Float32Array(0);
+  let bufferStart = 0; // absolute input index of buffer[0]
+  let totalInput = 0;
+  let emitted = 0;
+  let frameIndex = 0;
+  let prevFrame = -1; // absolute input index of the last chosen frame
+  let tail = new Float32Array(synthesisHop); // second half of the last frame, awaiting overlap
+
+  const sample = (abs: number) => {
+    const i = abs - bufferStart;
+    return i >= 0 && i < buffer.length ? buffer[i] : 0;
+  };
+
+  const bestFrameStart = (nominal: number): number => {
+    if (prevFrame < 0) return nominal;
+    const natural = prevFrame + synthesisHop; // what would seamlessly continue the last frame
+    let best = nominal;
+    let bestScore = -Infinity;
+    for (let cand = Math.max(0, nominal - tolerance); cand <= nominal + tolerance; cand++) {
+      let dot = 0;
+      let energy = 1e-9;
+      for (let n = 0; n < frameSize; n += corrStride) {
+        const c = sample(cand + n);
+        dot += c * sample(natural + n);
+        energy += c * c;
+      }
+      const score = dot / Math.sqrt(energy);
+      if (score > bestScore) {
+        bestScore = score;
+        best = cand;
+      }
+    }
+    return best;
+  };
+
+  const run = (available: number): Float32Array => {
+    const out: Float32Array[] = [];
+    for (;;) {
+      const nominal = Math.round(frameIndex * analysisHop);
+      const natural = prevFrame < 0 ? 0 : prevFrame + synthesisHop;
+      if (Math.max(nominal + tolerance, natural) + frameSize > available) break;
+
+      const start = bestFrameStart(nominal);
+      const chunk = new Float32Array(synthesisHop);
+      for (let n = 0; n < synthesisHop; n++) {
+        chunk[n] = tail[n] + sample(start + n) * window[n];
+      }
+      const nextTail = new Float32Array(synthesisHop);
+      for (let n = 0; n < synthesisHop; n++) {
+        nextTail[n] = sample(start + synthesisHop + n) * window[synthesisHop + n];
+      }
+      tail = nextTail;
+      out.push(chunk);
+      prevFrame = start;
+      frameIndex++;
+    }
+
+    // Drop input no future frame can reach
+    const keepFrom = Math.min(Math.round(frameIndex * analysisHop) - tolerance, prevFrame + synthesisHop);
+    if (keepFrom > bufferStart) {
+      buffer = buffer.slice(Math.min(buffer.length, keepFrom - bufferStart));
+      bufferStart = keepFrom;
+    }
+
+    const result = concatFloat32(out);
+    emitted += result.length;
+    return result;
+  };
+
+  return {
+    process: (chunk) => {
+      buffer = concatFloat32([buffer, chunk]);
+      totalInput += chunk.length;
+      return run(totalInput);
+    },
+    flush: () => {
+      // Pad with silence so the last real samples get a frame, then cut to the exact target length
+      const target = Math.round(totalInput * stretch);
+      const padded = run(totalInput + frameSize * 2 + tolerance * 2 + Math.ceil(analysisHop));
+      const remainder = concatFloat32([padded, tail]);
+      const needed = Math.max(0, target - (emitted - padded.length));
+      emitted = target;
+      return remainder.subarray(0, Math.min(needed, remainder.length));
+    },
+  };
+}
+
+export function createVoiceProcessor(sampleRate: number, settings: VoiceProcessingSettings): StreamProcessor {
+  const speed = settings.speed || 1;
+  const pitchRatio = Math.pow(2, (settings.pitch || 0) / 1200);
+  const stretcher = createTimeStretcher(sampleRate, pitchRatio / speed);
+  const resampler = createStreamingResampler(pitchRatio);
+
+  return {
+    process: (chunk) => resampler.process(stretcher.process(chunk)),
+    flush: () => concatFloat32([resampler.process(stretcher.flush()), resampler.flush()]),
+  };
+}
+
+// Offline helper for complete clips (previews, renders)
+export function applyVoiceSettings(samples: Float32Array, sampleRate: number, settings?: VoiceProcessingSettings): Float32Array {
+  if (!settings || isNeutralVoice(settings)) return samples;
+  const processor = createVoiceProcessor(sampleRate, settings);
+  return concatFloat32([processor.process(samples), processor.flush()]);
+}
+
+// Renders a finished TTS clip (24kHz Int16) with a voice's tempo/pitch baked in, for merged exports
+export function renderVoicePcm(pcm: Int16Array, settings?: VoiceProcessingSettings, sampleRate: number = 24000): Int16Array {
+  if (!settings || isNeutralVoice(settings)) return pcm;
+  return float32ToInt16(applyVoiceSettings(int16ToFloat32(pcm), sampleRate, settings));
+}
+
+// --- Mastering ---
+// Turns are trimmed, levelled and laid out with a standard gap, then the whole program is
+// normalized to a loudness target (ITU-R BS.1770 integrated loudness) and true-peak limited.
+
+export const LOUDNESS_TARGETS = [
+  { label: 'Podcast', lufs: -16 },
+  { label: 'Broadcast', lufs: -23 },
+];
+
+export const DEFAULT_MASTERING: MasteringSettings = { turnGapMs: 400, loudnessTarget: -16, truePeakDb: -1 };
+
+const SILENCE_THRESHOLD_DB = -45;
+const SILENCE_WINDOW_SECONDS = 0.01;
+const TRIM_LEAD_SECONDS = 0.03; // Kept ahead of the first sound so soft onsets survive
+const TRIM_TAIL_SECONDS = 0.08; // Kept after the last so breaths and reverb tails decay
+const TURN_HEADROOM_DB = 6;     // Turns are levelled this far under the target; the program gain makes it up
+const MAX_TURN_GAIN_DB = 15;
+
+// Start and end of the audible part of a clip, with a little padding; [0, 0] when it is all silence
+export function silenceBounds(pcm: Int16Array, sampleRate: number = 24000): [number, number] {
+  const window = Math.max(1, Math.round(sampleRate * SILENCE_WINDOW_SECONDS));
+  const threshold = 32768 * 10 ** (SILENCE_THRESHOLD_DB / 20);
+  const loud = (start: number) => {
+    let sum = 0;
+    const end = Math.min(pcm.length, start + window);
+    for (let i = start; i < end; i++) sum += pcm[i] * pcm[i];
+    return Math.sqrt(sum / (end - start)) > threshold;
+  };
+  let first = 0;
+  while (first < pcm.length && !loud(first)) first += window;
+  if (first >= pcm.length) return [0, 0];
+  let last = Math.floor((pcm.length - 1) / window) * window;
+  while (last > first && !loud(last)) last -= window;
+  return [
+    Math.max(0, first - Math.round(sampleRate * TRIM_LEAD_SECONDS)),
+    Math.min(pcm.length, last + window + Math.round(sampleRate * TRIM_TAIL_SECONDS)),
+  ];
+}
+
+type Biquad = { b: [number, number, number]; a: [number, number] };
+
+// K-weighting filter pair (BS.1770 pre-filter and RLB high-pass) designed for any sample rate
+function kWeightingFilters(sampleRate: number): Biquad[] {
+  let K = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  const Vh = 10 ** (3.999843853973347 / 20);
+  const Vb = Vh ** 0.4996667741545416;
+  let Q = 0.7071752369554196;
+  let a0 = 1 + K / Q + K * K;
+  const shelf: Biquad = {
+    b: [(Vh + (Vb * K) / Q + K * K) / a0, (2 * (K * K - Vh)) / a0, (Vh - (Vb * K) / Q + K * K) / a0],
+    a: [(2 * (K * K - 1)) / a0, (1 - K / Q + K * K) / a0],
+  };
+  K = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+  const highPass: Biquad = { b: [1, -2, 1], a: [(2 * (K * K - 1)) / a0, (1 - K / Q + K * K) / a0] };
+  return [shelf, highPass];
+}
+
+function applyBiquad(input: Float32Array, { b, a }: Biquad): Float32Array {
+  const out = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = b[0] * x + b[1] * x1 + b[2] * x2 - a[0] * y1 - a[1] * y2;
+    x2 = x1; x1 = x; y2 = y1; y1 = y;
+    out[i] = y;
+  }
+  return out;
+}
+
+const powerToLufs = (power: number) => (power > 0 ? -0.691 + 10 * Math.log10(power) : -Infinity);
+
+// Integrated loudness in LUFS: 400ms blocks every 100ms, gated at -70 LUFS and then 10 LU under
+// the ungated level. Clips shorter than one block are measured whole, without gating.
+export function measureLoudness(samples: Float32Array, sampleRate: number = 24000): number {
+  const weighted = kWeightingFilters(sampleRate).reduce(applyBiquad, samples);
+  const squares = new Float64Array(weighted.length + 1);
+  for (let i = 0; i < weighted.length; i++) squares[i + 1] = squares[i] + weighted[i] * weighted[i];
+  const block = Math.round(0.4 * sampleRate);
+  if (weighted.length < block) return weighted.length ? powerToLufs(squares[weighted.length] / weighted.length) : -Infinity;
+
+  const step = Math.round(0.1 * sampleRate);
+  const powers: number[] = [];
+  for (let start = 0; start + block <= weighted.length; start += step) powers.push((squares[start + block] - squares[start]) / block);
+  const mean = (values: number[]) => (values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0);
+  const absolute = powers.filter(power => power > 10 ** ((-70 + 0.691) / 10));
+  const relative = mean(absolute) * 10 ** (-10 / 10);
+  return powerToLufs(mean(absolute.filter(power => power > relative)));
+}
+
+// 4x oversampling for true peak: three windowed-sinc phases between each pair of samples
+const TRUE_PEAK_FACTOR = 4;
+const TRUE_PEAK_HALF_TAPS = 6;
+let truePeakTable: Float32Array | null = null;
+
+function truePeakPhases(): Float32Array {
+  if (truePeakTable) return truePeakTable;
+  const width = 2 * TRUE_PEAK_HALF_TAPS;
+  truePeakTable = new Float32Array((TRUE_PEAK_FACTOR - 1) * width);
+  for (let phase = 1; phase < TRUE_PEAK_FACTOR; phase++) {
+    for (let j = 0; j < width; j++) {
+      const x = j - TRUE_PEAK_HALF_TAPS + 1 - phase / TRUE_PEAK_FACTOR;
+      const t = x / TRUE_PEAK_HALF_TAPS;
+      const window = 0.42 + 0.5 * Math.cos(Math.PI * t) + 0.08 * Math.cos(2 * Math.PI * t);
+      truePeakTable[(phase - 1) * width + j] = (Math.sin(Math.PI * x) / (Math.PI * x)) * window;
+    }
+  }
+  return truePeakTable;
+}
+
+// Highest absolute level from each sample up to (not including) the next one, inter-sample
+// peaks included. Quiet stretches can't overshoot to anywhere near full scale, so only
+// samples above minLevel are oversampled.
+function truePeakEnvelope(samples: Float32Array, minLevel = 0): Float32Array {
+  const table = truePeakPhases();
+  const width = 2 * TRUE_PEAK_HALF_TAPS;
+  const envelope = new Float32Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    let peak = Math.abs(samples[i]);
+    if (peak >= minLevel || Math.abs(samples[i + 1] ?? 0) >= minLevel) {
+      const first = i - TRUE_PEAK_HALF_TAPS + 1;
+      for (let phase = 0; phase < TRUE_PEAK_FACTOR - 1; phase++) {
+        let acc = 0;
+        for (let j = Math.max(0, -first); j < width && first + j < samples.length; j++) acc += samples[first + j] * table[phase * width + j];
+        peak = Math.max(peak, Math.abs(acc));
+      }
+    }
+    envelope[i] = peak;
+  }
+  return envelope;
+}
+
+export function measureTruePeak(samples: Float32Array): number {
+  const samplePeak = samples.reduce((max, value) => Math.max(max, Math.abs(value)), 0);
+  const peak = truePeakEnvelope(samples, samplePeak / 2).reduce((max, value) => Math.max(max, value), 0);
+  return peak > 0 ? 20 * Math.log10(peak) : -Infinity;
+}
+
+const LIMITER_LOOKAHEAD_SECONDS = 0.005;
+const LIMITER_RELEASE_SECONDS = 0.08;
+
+// Lookahead limiter holding the true peak under ceilingDb. The gain needed at each sample is
+// min-filtered over the lookahead window and then averaged over the same window, which ramps
+// down ahead of every peak and is still at or under the gain that peak needs when it arrives.
+export function limitTruePeak(samples: Float32Array, ceilingDb: number, sampleRate: number = 24000): Float32Array {
+  const ceiling = 10 ** ((ceilingDb - 0.05) / 20); // A hair under, for the interpolation between gain steps
+  const envelope = truePeakEnvelope(samples, ceiling / 2);
+  if (!envelope.some(peak => peak > ceiling)) return samples;
+
+  const n = samples.length;
+  const lookahead = Math.max(1, Math.round(sampleRate * LIMITER_LOOKAHEAD_SECONDS));
+  const needed = Float32Array.from(envelope, peak => (peak > ceiling ? ceiling / peak : 1));
+
+  // Sliding minimum over [i, i + lookahead) with a monotonic queue
+  const minimum = new Float32Array(n);
+  const queue = new Int32Array(n);
+  let head = 0, tail = 0;
+  for (let i = n - 1; i >= 0; i--) {
+    while (tail > head && needed[queue[tail - 1]] >= needed[i]) tail--;
+    queue[tail++] = i;
+    if (queue[head] >= i + lookahead) head++;
+    minimum[i] = needed[queue[head]];
+  }
+
+  const release = 1 - Math.exp(-1 / (sampleRate * LIMITER_RELEASE_SECONDS));
+  const out = new Float32Array(n);
+  let sum = minimum[0] * lookahead; // Positions before the start count as minimum[0]
+  let gain = 1;
+  for (let i = 0; i < n; i++) {
+    sum += minimum[i] - minimum[Math.max(0, i - lookahead)];
+    gain = Math.min(sum / lookahead, gain + (1 - gain) * release);
+    out[i] = samples[i] * gain;
+  }
+  return out;
+}
+
+export interface ArrangedTurn {
+  pcm: Int16Array;
+  pauseBeforeMs?: number;
+}
+
+// Where a turn landed in the arrangement, in samples. pauseStart is where the silence ahead of
+// it begins; start and end bound the turn itself.
+export interface TurnPlacement {
+  pauseStart: number;
+  start: number;
+  end: number;
+}
+
+function gainDb(samples: Float32Array, db: number): Float32Array {
+  const gain = 10 ** (db / 20);
+  return samples.map(sample => sample * gain);
+}
+
+// Lays turns end to end as one float program (full scale is ±1, and levelled turns may go
+// past it until masterPcm limits them). Without settings each turn goes in as rendered, after its
+// [pause] if it has one. With settings each turn is trimmed to its audible part and levelled to
+// the same loudness (a little under the target, leaving headroom for the program gain), and
+// turns are separated by turnGapMs unless a [pause] asks for its own length.
+export function arrangeTurns(turns: ArrangedTurn[], settings?: MasteringSettings, sampleRate: number = 24000): { samples: Float32Array; placements: TurnPlacement[] } {
+  const parts: { samples: Float32Array; at: number }[] = [];
+  const placements: TurnPlacement[] = [];
+  let position = 0;
+  turns.forEach((turn, i) => {
+    let pcm = turn.pcm;
+    let gapMs = turn.pauseBeforeMs || 0;
+    if (settings) {
+      const [start, end] = silenceBounds(pcm, sampleRate);
+      pcm = pcm.subarray(start, end);
+      gapMs = turn.pauseBeforeMs ?? (i > 0 ? settings.turnGapMs : 0);
+    }
+    let samples = int16ToFloat32(pcm);
+    if (settings && settings.loudnessTarget !== null && samples.length > 0) {
+      const loudness = measureLoudness(samples, sampleRate);
+      if (Number.isFinite(loudness)) {
+        samples = gainDb(samples, Math.max(-MAX_TURN_GAIN_DB, Math.min(MAX_TURN_GAIN_DB, settings.loudnessTarget - TURN_HEADROOM_DB - loudness)));
+      }
+    }
+    const gap = Math.round((gapMs / 1000) * sampleRate);
+    parts.push({ samples, at: position + gap });
+    placements.push({ pauseStart: position, start: position + gap, end: position + gap + samples.length });
+    position += gap + samples.length;
+  });
+  const program = new Float32Array(position);
+  parts.forEach(part => program.set(part.samples, part.at));
+  return { samples: program, placements };
+}
+
+// Program stage: gain to the loudness target, then the true-peak limiter. Takes the float
+// program so nothing is clipped before the limiter sees it; the only Int16 conversion is the
+// last step. Length is unchanged.
+export function masterPcm(samples: Float32Array, settings: MasteringSettings, sampleRate: number = 24000): Int16Array {
+  if (settings.loudnessTarget !== null) {
+    const loudness = measureLoudness(samples, sampleRate);
+    if (Number.isFinite(loudness)) samples = gainDb(samples, settings.loudnessTarget - loudness);
+  }
+  return float32ToInt16(limitTruePeak(samples, settings.truePeakDb, sampleRate));
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { activeCaption, buildCaptions, splitSentences, toSrt, toWebVtt } from './captions';
+
+const timing = (speaker: string, text: string, start: number, end: number) => ({ speaker, text, start: start * 24000, end: end * 24000 });
+
+describe('splitSentences', () => {
+  it('keeps closing punctuation and quotes with their sentence', () => {
+    expect(splitSentences('Stop! "Who goes there?" she asked. And then…silence')).toEqual(['Stop!', '"Who goes there?"', 'she asked.', 'And then…', 'silence']);
+  });
+});
+
+describe('buildCaptions', () => {
+  it('gives short turns one caption spanning the turn', () => {
+    expect(buildCaptions([timing('Ava', 'Hello there. Hi.', 1, 2.5)])).toEqual([{ start: 1, end: 2.5, text: 'Hello there. Hi.', speaker: 'Ava' }]);
+  });
+
+  it('splits long turns by sentence and shares the time out by length', () => {
+    const first = 'The storm had been building over the harbour since noon.';
+    const second = 'Nobody on the pier expected it to turn.';
+    const captions = buildCaptions([timing('Ava', `${first} ${second}`, 0, 10)]);
+    expect(captions.map(c => c.text)).toEqual([first, second]);
+    expect(captions[0].end).toBeCloseTo((10 * first.length) / (first.length + second.length));
+    expect(captions[1].start).toBe(captions[0].end);
+    expect(captions[1].end).toBe(10);
+  });
+
+  it('breaks sentences that are too long on their own into even word runs', () => {
+    const sentence = Array.from({ length: 30 }, (_, i) => `word${i}`).join(' ');
+    const captions = buildCaptions([timing('Ava', sentence, 0, 6)], 24000, 84);
+    expect(captions.length).toBe(3);
+    expect(captions.every(c => c.text.length <= 84)).toBe(true);
+    expect(captions.map(c => c.text).join(' ')).toBe(sentence);
+  });
+});
+
+describe('activeCaption', () => {
+  const captions = buildCaptions([timing('Ava', 'One.', 0, 1), timing('Ben', 'Two.', 2, 3)]);
+
+  it('finds the caption under the playhead and nothing in the gaps', () => {
+    expect(activeCaption(captions, 0.5)?.text).toBe('One.');
+    expect(activeCaption(captions, 1.5)).toBeNull();
+    expect(activeCaption(captions, 2)?.text).toBe('Two.');
+    expect(activeCaption(captions, 3)).toBeNull();
+    expect(activeCaption([], 1)).toBeNull();
+  });
+});
+
+describe('caption files', () => {
+  const captions = buildCaptions([
+    timing('Ava', 'Welcome back to the show, where the tides <always> win.', 0, 3.25),
+    timing('Ava', 'Today we go north.', 3.25, 5),
+    timing('Ben', 'Thanks.', 3723.5, 3724),
+  ]);
+
+  it('writes numbered SRT blocks, labelling speaker changes', () => {
+    expect(toSrt(captions)).toBe([
+      '1\n00:00:00,000 --> 00:00:03,250\nAva: Welcome back to the show,\nwhere the tides <always> win.\n',
+      '2\n00:00:03,250 --> 00:00:05,000\nToday we go north.\n',
+      '3\n01:02:03,500 --> 01:02:04,000\nBen: Thanks.\n',
+    ].join('\n'));
+  });
+
+  it('leaves SRT unlabelled with a single speaker', () => {
+    expect(toSrt(captions.slice(0, 1))).not.toContain('Ava:');
+  });
+
+  it('writes WebVTT with voice spans and escaped text', () => {
+    const vtt = toWebVtt(captions);
+    expect(vtt.startsWith('WEBVTT\n\n00:00:00.000 --> 00:00:03.250\n<v Ava>Welcome back to the show,\nwhere the tides &lt;always&gt; win.\n')).toBe(true);
+    expect(vtt).toContain('01:02:03.500 --> 01:02:04.000\n<v Ben>Thanks.\n');
+  });
+});
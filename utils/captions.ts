@@ -0,0 +1,118 @@
+import { TurnTiming } from '../types';
+
+// Two lines of 42 characters, the usual broadcast caption limit
+export const MAX_CAPTION_CHARS = 84;
+const MAX_LINE_CHARS = 42;
+
+export interface Caption {
+  start: number; // Seconds
+  end: number;
+  text: string;
+  speaker: string;
+}
+
+export type CaptionFormat = 'srt' | 'vtt';
+
+// Sentences keep their closing punctuation and any quote or bracket after it
+export const splitSentences = (text: string): string[] =>
+  (text.match(/[^.!?…]+(?:[.!?…]+["'”’)\]]*|$)/g) || []).map(sentence => sentence.trim()).filter(Boolean);
+
+// Breaks an overlong sentence into even runs of words rather than one full run and a stub
+const splitWords = (sentence: string, maxChars: number): string[] => {
+  const words = sentence.split(' ');
+  const target = sentence.length / Math.ceil(sentence.length / maxChars);
+  const pieces: string[] = [];
+  let current = '';
+  for (const word of words) {
+    const joined = current ? `${current} ${word}` : word;
+    if (current && (joined.length > maxChars || current.length >= target)) {
+      pieces.push(current);
+      current = word;
+    } else {
+      current = joined;
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+};
+
+// Caption-sized pieces of a turn: whole sentences where they fit, neighbours merged while the
+// result still fits
+const captionChunks = (text: string, maxChars: number): string[] => {
+  const chunks: string[] = [];
+  for (const piece of splitSentences(text).flatMap(sentence => (sentence.length > maxChars ? splitWords(sentence, maxChars) : [sentence]))) {
+    const last = chunks[chunks.length - 1];
+    if (last !== undefined && last.length + 1 + piece.length <= maxChars) chunks[chunks.length - 1] = `${last} ${piece}`;
+    else chunks.push(piece);
+  }
+  return chunks;
+};
+
+// One caption per turn, or per sentence group for long turns. The synthesizer only tells us
+// where whole turns start and end, so a turn's time is shared out by character count.
+export const buildCaptions = (timings: TurnTiming[], sampleRate = 24000, maxChars = MAX_CAPTION_CHARS): Caption[] =>
+  timings.flatMap(timing => {
+    const chunks = captionChunks(timing.text.replace(/\s+/g, ' ').trim(), maxChars);
+    const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    const start = timing.start / sampleRate;
+    const duration = (timing.end - timing.start) / sampleRate;
+    let done = 0;
+    return chunks.map(chunk => {
+      const caption = { start: start + (duration * done) / total, end: 0, text: chunk, speaker: timing.speaker };
+      done += chunk.length;
+      caption.end = start + (duration * done) / total;
+      return caption;
+    });
+  });
+
+// The caption on screen at a playback position, if any
+export const activeCaption = (captions: Caption[], seconds: number): Caption | null => {
+  let low = 0;
+  let high = captions.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (captions[mid].start <= seconds) low = mid + 1;
+    else high = mid - 1;
+  }
+  const caption = captions[high];
+  return caption && seconds < caption.end ? caption : null;
+};
+
+// Breaks at the space nearest the middle when the text doesn't fit on one line
+const wrapLines = (text: string): string => {
+  if (text.length <= MAX_LINE_CHARS) return text;
+  const middle = text.length / 2;
+  let best = -1;
+  for (let i = text.indexOf(' '); i !== -1; i = text.indexOf(' ', i + 1)) {
+    if (best === -1 || Math.abs(i - middle) < Math.abs(best - middle)) best = i;
+  }
+  return best === -1 ? text : `${text.slice(0, best)}\n${text.slice(best + 1)}`;
+};
+
+const timestamp = (seconds: number, separator: ',' | '.') => {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// SRT has no speaker markup, so with more than one speaker each change of voice is labelled "Name: "
+export const toSrt = (captions: Caption[]): string => {
+  const labelled = new Set(captions.map(caption => caption.speaker)).size > 1;
+  return captions.map((caption, i) => {
+    const label = labelled && caption.speaker && caption.speaker !== captions[i - 1]?.speaker ? `${caption.speaker}: ` : '';
+    return `${i + 1}\n${timestamp(caption.start, ',')} --> ${timestamp(caption.end, ',')}\n${wrapLines(label + caption.text)}\n`;
+  }).join('\n');
+};
+
+// WebVTT names the speaker of every cue with a voice span
+export const toWebVtt = (captions: Caption[]): string => ['WEBVTT\n', ...captions.map(caption => {
+  const voice = caption.speaker ? `<v ${escapeVtt(caption.speaker)}>` : '';
+  return `${timestamp(caption.start, '.')} --> ${timestamp(caption.end, '.')}\n${voice}${escapeVtt(wrapLines(caption.text))}\n`;
+})].join('\n');
+
+export const captionFile = (captions: Caption[], format: CaptionFormat): Blob =>
+  format === 'srt'
+    ? new Blob([toSrt(captions)], { type: 'application/x-subrip' })
+    : new Blob([toWebVtt(captions)], { type: 'text/vtt' });
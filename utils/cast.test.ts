@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { CAST_COLORS } from '../constants';
+import { CastMember, Gender, VoiceOption } from '../types';
+import { castColor, castFromPreset, moveCastMember, nextCastColor, presetFromCast } from './cast';
+
+const member = (id: string, extra: Partial<CastMember> = {}): CastMember => ({ id, name: id, voiceId: 'v1', ...extra });
+
+const voice = (id: string): VoiceOption => ({ id, apiId: id, name: id, gender: Gender.Neutral, description: '', color: '', speed: 1, pitch: 0 });
+
+describe('cast colors', () => {
+  it('falls back to the palette by position', () => {
+    expect(castColor(member('a'), 1)).toBe(CAST_COLORS[1]);
+    expect(castColor(member('a', { color: '#123456' }), 1)).toBe('#123456');
+  });
+
+  it('hands out the first unused color', () => {
+    expect(nextCastColor([member('a'), member('b', { color: CAST_COLORS[2] })])).toBe(CAST_COLORS[1]);
+  });
+});
+
+describe('moveCastMember', () => {
+  const cast = [member('a'), member('b'), member('c'), member('d')];
+
+  it('moves a member into the target position', () => {
+    expect(moveCastMember(cast, 'a', 'c').map(m => m.id)).toEqual(['b', 'c', 'a', 'd']);
+    expect(moveCastMember(cast, 'd', 'b').map(m => m.id)).toEqual(['a', 'd', 'b', 'c']);
+  });
+
+  it('leaves the cast alone for unknown or identical ids', () => {
+    expect(moveCastMember(cast, 'a', 'a')).toBe(cast);
+    expect(moveCastMember(cast, 'x', 'a')).toBe(cast);
+  });
+});
+
+describe('cast presets', () => {
+  it('round-trips names, voices, styles and colors with fresh ids', () => {
+    const cast = [member('Narrator'), member('Alice', { voiceId: 'v2', stylePrompt: 'bright' }), member('Bob', { voiceId: 'gone' })];
+    const preset = presetFromCast('Series', cast);
+    expect(preset.members[1]).toEqual({ name: 'Alice', voiceId: 'v2', stylePrompt: 'bright', color: CAST_COLORS[1] });
+
+    const loaded = castFromPreset(preset, [voice('v1'), voice('v2')]);
+    expect(loaded.map(m => [m.name, m.voiceId, m.stylePrompt])).toEqual([
+      ['Narrator', 'v1', undefined],
+      ['Alice', 'v2', 'bright'],
+      ['Bob', 'v1', undefined],
+    ]);
+    expect(loaded.every(m => !cast.some(c => c.id === m.id))).toBe(true);
+  });
+});
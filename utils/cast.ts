@@ -0,0 +1,38 @@
+import { CAST_COLORS } from '../constants';
+import { CastMember, CastPreset, VoiceOption } from '../types';
+
+// Members saved before colors existed fall back to a color by position
+export const castColor = (member: CastMember, index: number): string =>
+  member.color || CAST_COLORS[index % CAST_COLORS.length];
+
+// First palette color nobody in the cast is using yet
+export const nextCastColor = (cast: CastMember[]): string =>
+  CAST_COLORS.find(color => !cast.some((member, i) => castColor(member, i) === color))
+    || CAST_COLORS[cast.length % CAST_COLORS.length];
+
+// Moves a member to where another one is; the first member reads narration, so this can change the narrator
+export const moveCastMember = (cast: CastMember[], fromId: string, toId: string): CastMember[] => {
+  const from = cast.findIndex(member => member.id === fromId);
+  const to = cast.findIndex(member => member.id === toId);
+  if (from === -1 || to === -1 || from === to) return cast;
+  const next = [...cast];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
+
+export const presetFromCast = (name: string, cast: CastMember[]): CastPreset => ({
+  id: crypto.randomUUID(),
+  name,
+  members: cast.map(({ id, ...member }, i) => ({ ...member, color: castColor({ id, ...member }, i) })),
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+});
+
+// Every load gets fresh ids; voices that are gone (deleted custom voices) fall back to the first one
+export const castFromPreset = (preset: CastPreset, voices: VoiceOption[]): CastMember[] =>
+  preset.members.map(member => ({
+    ...member,
+    id: crypto.randomUUID(),
+    voiceId: voices.some(v => v.id === member.voiceId) ? member.voiceId : voices[0].id,
+  }));
@@ -0,0 +1,149 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { GenerationJob, Project, StorySegment, TtsCacheEntry } from '../types';
+import {
+  deleteAudioAsset,
+  deleteCastPreset,
+  deleteGenerationJob,
+  evictTtsCache,
+  getAudioAssets,
+  getCastPresets,
+  getCheckpoints,
+  getCustomVoices,
+  getGenerationJob,
+  getProjectsByUser,
+  getTtsCacheEntry,
+  getTtsCacheUsage,
+  getUser,
+  putTtsCacheEntry,
+  saveAudioAsset,
+  saveCastPreset,
+  saveCheckpoint,
+  saveProject,
+} from './db';
+
+const DB_NAME = 'NeonVoiceDB';
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+// Recreates the original schema (users + projects only) with some data in it
+const seedVersion1 = async (users: object[], projects: object[]) => {
+  const open = indexedDB.open(DB_NAME, 1);
+  open.onupgradeneeded = () => {
+    open.result.createObjectStore('users', { keyPath: 'id' });
+    open.result.createObjectStore('projects', { keyPath: 'id' }).createIndex('userId', 'userId', { unique: false });
+  };
+  const db = await request(open);
+  const tx = db.transaction(['users', 'projects'], 'readwrite');
+  users.forEach(u => tx.objectStore('users').put(u));
+  projects.forEach(p => tx.objectStore('projects').put(p));
+  await new Promise(resolve => { tx.oncomplete = resolve; });
+  db.close();
+};
+
+const inspect = async () => {
+  const db = await request(indexedDB.open(DB_NAME));
+  const info = { version: db.version, stores: Array.from(db.objectStoreNames).sort() };
+  db.close();
+  return info;
+};
+
+const project = (id: string, userId: string, updatedAt: number) => ({
+  id, userId, name: id, createdAt: 0, updatedAt, text: '', audioData: null, duration: 0, voiceVolume: 1,
+  agent: { id: 'a', name: 'A', voice: 'Kore', voiceSettings: { speed: 1, pitch: 0 }, systemInstruction: '', avatarColor: '' },
+});
+
+const cacheEntry = (key: string, bytes: number, lastAccessed: number): TtsCacheEntry => ({
+  key, model: 'm', voice: 'v', text: key, style: '', pcm: new Int16Array(bytes / 2), bytes, createdAt: 0, lastAccessed,
+});
+
+beforeEach(() => {
+  globalThis.indexedDB = new IDBFactory() as unknown as typeof globalThis.indexedDB;
+});
+
+describe('schema upgrades', () => {
+  it('keeps v1 users and projects when upgrading to the current version', async () => {
+    await seedVersion1(
+      [{ id: 'u1', username: 'neo', avatar: '', createdAt: 1 }],
+      [project('old', 'u1', 10), project('older', 'u1', 5), project('other', 'u2', 20)],
+    );
+
+    expect(await getUser('neo')).toMatchObject({ id: 'u1' });
+    expect((await getProjectsByUser('u1')).map(p => p.id)).toEqual(['old', 'older']);
+    expect(await getCustomVoices()).toEqual([]);
+
+    expect(await inspect()).toEqual({
+      version: 6,
+      stores: ['audio_assets', 'cast_presets', 'custom_voices', 'generation_checkpoints', 'generation_jobs', 'projects', 'tts_cache', 'users'],
+    });
+  });
+
+  it('creates every store on a fresh install', async () => {
+    await saveProject(project('p', 'u', 0) as Project);
+    expect((await inspect()).stores).toHaveLength(8);
+    expect(await getProjectsByUser('u')).toHaveLength(1);
+  });
+});
+
+describe('TTS cache', () => {
+  it('touches entries on read and evicts least recently used first', async () => {
+    await putTtsCacheEntry(cacheEntry('a', 100, 1));
+    await putTtsCacheEntry(cacheEntry('b', 100, 2));
+    await putTtsCacheEntry(cacheEntry('c', 100, 3));
+    const hit = await getTtsCacheEntry('a');
+    expect(hit?.lastAccessed).toBeGreaterThan(3);
+    expect(hit?.pcm).toBeInstanceOf(Int16Array);
+
+    expect(await evictTtsCache(250)).toBe(1);
+    expect(await getTtsCacheEntry('b')).toBeNull();
+    expect(await getTtsCacheUsage()).toEqual({ entries: 2, bytes: 200 });
+    expect(await evictTtsCache(1000)).toBe(0);
+  });
+});
+
+describe('generation checkpoints', () => {
+  it('stores segments per job and removes them with the job', async () => {
+    const job: GenerationJob = { id: 'job', total: 2, completed: 1, status: 'running', updatedAt: 0 };
+    const segment: StorySegment = { id: 's1', voiceId: 'v', text: 'Hi', sourceLine: 'Hi', hash: '0', audioData: new Int16Array([1, 2]) };
+    await saveCheckpoint(job, segment);
+    await saveCheckpoint({ ...job, id: 'other' }, { ...segment, id: 's2' });
+
+    expect(await getGenerationJob('job')).toMatchObject({ completed: 1, status: 'running' });
+    expect((await getCheckpoints('job')).map(s => s.id)).toEqual(['s1']);
+
+    await deleteGenerationJob('job');
+    expect(await getGenerationJob('job')).toBeNull();
+    expect(await getCheckpoints('job')).toEqual([]);
+    expect(await getCheckpoints('other')).toHaveLength(1);
+  });
+});
+
+describe('cast presets', () => {
+  it('lists presets by name and deletes them', async () => {
+    const preset = (id: string, name: string) => ({ id, name, members: [{ name: 'Narrator', voiceId: 'v1' }], createdAt: 0, updatedAt: 0 });
+    await saveCastPreset(preset('1', 'Season 2'));
+    await saveCastPreset(preset('2', 'Pilot'));
+    expect((await getCastPresets()).map(p => p.name)).toEqual(['Pilot', 'Season 2']);
+
+    await deleteCastPreset('2');
+    expect((await getCastPresets()).map(p => p.id)).toEqual(['1']);
+  });
+});
+
+describe('audio assets', () => {
+  it('keeps decoded PCM and lists assets by name', async () => {
+    const asset = (id: string, name: string) => ({ id, name, kind: 'sfx' as const, pcm: new Int16Array([1, 2, 3]), duration: 3 / 24000, createdAt: 0 });
+    await saveAudioAsset(asset('1', 'thunder'));
+    await saveAudioAsset(asset('2', 'door_creak'));
+    const assets = await getAudioAssets();
+    expect(assets.map(a => a.name)).toEqual(['door_creak', 'thunder']);
+    expect(assets[0].pcm).toBeInstanceOf(Int16Array);
+
+    await deleteAudioAsset('2');
+    expect((await getAudioAssets()).map(a => a.id)).toEqual(['1']);
+  });
+});
@@ -1,11 +1,16 @@
 
-import { Project, User, VoiceOption } from '../types';
+import { AudioAsset, CastPreset, GenerationJob, Project, StorySegment, TtsCacheEntry, User, VoiceOption } from '../types';
 
 const DB_NAME = 'NeonVoiceDB';
-const DB_VERSION = 2; // Incremented version to add voice store
+const DB_VERSION = 6; // v2 added the voice store, v3 the TTS cache, v4 generation checkpoints, v5 cast presets, v6 audio assets
 const STORE_USERS = 'users';
 const STORE_PROJECTS = 'projects';
 const STORE_VOICES = 'custom_voices';
+const STORE_TTS_CACHE = 'tts_cache';
+const STORE_JOBS = 'generation_jobs';
+const STORE_CHECKPOINTS = 'generation_checkpoints';
+const STORE_CAST_PRESETS = 'cast_presets';
+const STORE_AUDIO_ASSETS = 'audio_assets';
 
 const openDB = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
@@ -26,6 +31,28 @@ const openDB = (): Promise<IDBDatabase> => {
       if (!db.objectStoreNames.contains(STORE_VOICES)) {
         db.createObjectStore(STORE_VOICES, { keyPath: 'id' });
       }
+
+      if (!db.objectStoreNames.contains(STORE_TTS_CACHE)) {
+        const cacheStore = db.createObjectStore(STORE_TTS_CACHE, { keyPath: 'key' });
+        cacheStore.createIndex('lastAccessed', 'lastAccessed', { unique: false });
+      }
+
+      if (!db.objectStoreNames.contains(STORE_JOBS)) {
+        db.createObjectStore(STORE_JOBS, { keyPath: 'id' });
+      }
+
+      if (!db.objectStoreNames.contains(STORE_CHECKPOINTS)) {
+        const checkpointStore = db.createObjectStore(STORE_CHECKPOINTS, { keyPath: 'id' });
+        checkpointStore.createIndex('jobId', 'jobId', { unique: false });
+      }
+
+      if (!db.objectStoreNames.contains(STORE_CAST_PRESETS)) {
+        db.createObjectStore(STORE_CAST_PRESETS, { keyPath: 'id' });
+      }
+
+      if (!db.objectStoreNames.contains(STORE_AUDIO_ASSETS)) {
+        db.createObjectStore(STORE_AUDIO_ASSETS, { keyPath: 'id' });
+      }
     };
 
     request.onsuccess = (event) => {
@@ -80,6 +107,17 @@ export const getUser = async (username: string): Promise<User | null> => {
   });
 };
 
+export const updateUser = async (user: User): Promise<User> => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_USERS, 'readwrite');
+  const store = tx.objectStore(STORE_USERS);
+  store.put(user);
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve(user);
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
 // --- Project Operations ---
 
 export const saveProject = async (project: Project): Promise<void> => {
@@ -151,3 +189,212 @@ export const deleteCustomVoice = async (id: string): Promise<void> => {
     tx.oncomplete = () => resolve();
   });
 };
+
+// --- TTS Cache Operations ---
+
+// Returns the entry and bumps its lastAccessed so LRU eviction keeps it around
+export const getTtsCacheEntry = async (key: string): Promise<TtsCacheEntry | null> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_TTS_CACHE, 'readwrite');
+    const store = tx.objectStore(STORE_TTS_CACHE);
+    const request = store.get(key);
+    request.onsuccess = () => {
+      const entry = request.result as TtsCacheEntry | undefined;
+      if (!entry) {
+        resolve(null);
+        return;
+      }
+      const touched = { ...entry, lastAccessed: Date.now() };
+      store.put(touched);
+      resolve(touched);
+    };
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const putTtsCacheEntry = async (entry: TtsCacheEntry): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_TTS_CACHE, 'readwrite');
+  tx.objectStore(STORE_TTS_CACHE).put(entry);
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const getTtsCacheUsage = async (): Promise<{ entries: number; bytes: number }> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_TTS_CACHE, 'readonly');
+    const request = tx.objectStore(STORE_TTS_CACHE).openCursor();
+    let entries = 0;
+    let bytes = 0;
+    request.onsuccess = (e) => {
+      const cursor = (e.target as IDBRequest<IDBCursorWithValue>).result;
+      if (cursor) {
+        entries++;
+        bytes += (cursor.value as TtsCacheEntry).bytes;
+        cursor.continue();
+      } else {
+        resolve({ entries, bytes });
+      }
+    };
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+// Deletes least recently used entries until the cache fits the byte budget
+export const evictTtsCache = async (budgetBytes: number): Promise<number> => {
+  const { bytes } = await getTtsCacheUsage();
+  if (bytes <= budgetBytes) return 0;
+
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_TTS_CACHE, 'readwrite');
+    const request = tx.objectStore(STORE_TTS_CACHE).index('lastAccessed').openCursor();
+    let remaining = bytes;
+    let evicted = 0;
+    request.onsuccess = (e) => {
+      const cursor = (e.target as IDBRequest<IDBCursorWithValue>).result;
+      if (!cursor || remaining <= budgetBytes) return;
+      remaining -= (cursor.value as TtsCacheEntry).bytes;
+      cursor.delete();
+      evicted++;
+      cursor.continue();
+    };
+    tx.oncomplete = () => resolve(evicted);
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const clearTtsCache = async (): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_TTS_CACHE, 'readwrite');
+  tx.objectStore(STORE_TTS_CACHE).clear();
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+// --- Generation Job Operations ---
+
+export const saveGenerationJob = async (job: GenerationJob): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_JOBS, 'readwrite');
+  tx.objectStore(STORE_JOBS).put({ ...job, updatedAt: Date.now() });
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const getGenerationJob = async (id: string): Promise<GenerationJob | null> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_JOBS, 'readonly');
+    const request = tx.objectStore(STORE_JOBS).get(id);
+    request.onsuccess = () => resolve(request.result || null);
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+// Stores one finished segment and bumps the job's progress in the same transaction
+export const saveCheckpoint = async (job: GenerationJob, segment: StorySegment): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction([STORE_JOBS, STORE_CHECKPOINTS], 'readwrite');
+  tx.objectStore(STORE_CHECKPOINTS).put({ id: segment.id, jobId: job.id, segment });
+  tx.objectStore(STORE_JOBS).put({ ...job, updatedAt: Date.now() });
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const getCheckpoints = async (jobId: string): Promise<StorySegment[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_CHECKPOINTS, 'readonly');
+    const request = tx.objectStore(STORE_CHECKPOINTS).index('jobId').getAll(jobId);
+    request.onsuccess = () => resolve((request.result || []).map((r: { segment: StorySegment }) => r.segment));
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const deleteGenerationJob = async (id: string): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction([STORE_JOBS, STORE_CHECKPOINTS], 'readwrite');
+  tx.objectStore(STORE_JOBS).delete(id);
+  const checkpoints = tx.objectStore(STORE_CHECKPOINTS);
+  const request = checkpoints.index('jobId').getAllKeys(id);
+  request.onsuccess = () => request.result.forEach(key => checkpoints.delete(key));
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+// --- Cast Preset Operations ---
+
+export const saveCastPreset = async (preset: CastPreset): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_CAST_PRESETS, 'readwrite');
+  tx.objectStore(STORE_CAST_PRESETS).put({ ...preset, updatedAt: Date.now() });
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const getCastPresets = async (): Promise<CastPreset[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_CAST_PRESETS, 'readonly');
+    const request = tx.objectStore(STORE_CAST_PRESETS).getAll();
+    request.onsuccess = () => resolve((request.result as CastPreset[]).sort((a, b) => a.name.localeCompare(b.name)));
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const deleteCastPreset = async (id: string): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_CAST_PRESETS, 'readwrite');
+  tx.objectStore(STORE_CAST_PRESETS).delete(id);
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+// --- Audio Asset Operations (music beds and sfx) ---
+
+export const saveAudioAsset = async (asset: AudioAsset): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_AUDIO_ASSETS, 'readwrite');
+  tx.objectStore(STORE_AUDIO_ASSETS).put(asset);
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const getAudioAssets = async (): Promise<AudioAsset[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_AUDIO_ASSETS, 'readonly');
+    const request = tx.objectStore(STORE_AUDIO_ASSETS).getAll();
+    request.onsuccess = () => resolve((request.result as AudioAsset[]).sort((a, b) => a.name.localeCompare(b.name)));
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const deleteAudioAsset = async (id: string): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_AUDIO_ASSETS, 'readwrite');
+  tx.objectStore(STORE_AUDIO_ASSETS).delete(id);
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
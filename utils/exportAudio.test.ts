@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_EXPORT_SETTINGS, ExportSettings, estimateExportBytes, exportAudio, exportFileName, exportSampleRate } from './exportAudio';
+
+const pcm = Int16Array.from({ length: 24000 }, (_, i) => Math.round(Math.sin(i / 5) * 8000));
+const settings = (patch: Partial<ExportSettings>): ExportSettings => ({ ...DEFAULT_EXPORT_SETTINGS, ...patch });
+const bytes = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+describe('exportAudio', () => {
+  it('writes resampled stereo WAV', async () => {
+    const blob = await exportAudio(pcm, settings({ format: 'wav', sampleRate: 48000, channels: 2 }));
+    const view = new DataView(await blob.arrayBuffer());
+    expect(blob.type).toBe('audio/wav');
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(24, true)).toBe(48000);
+    expect(view.getUint32(40, true)).toBe(48000 * 2 * 2);
+    // Both channels carry the same signal
+    expect(view.getInt16(44 + 400, true)).toBe(view.getInt16(46 + 400, true));
+  });
+
+  it('writes tagged FLAC', async () => {
+    const file = await bytes(await exportAudio(pcm, settings({ format: 'flac' }), { title: 'Pilot' }));
+    expect(new TextDecoder().decode(file.subarray(0, 4))).toBe('fLaC');
+    expect(new TextDecoder().decode(file.subarray(0, 200))).toContain('TITLE=Pilot');
+  });
+
+  it('puts the ID3 tag in front of the MP3 frames', async () => {
+    const file = await bytes(await exportAudio(pcm, settings({ format: 'mp3' }), { artist: 'Nova' }));
+    expect(new TextDecoder().decode(file.subarray(0, 3))).toBe('ID3');
+    const tagEnd = 10 + ((file[6] << 21) | (file[7] << 14) | (file[8] << 7) | file[9]);
+    expect(file[tagEnd]).toBe(0xff);
+    expect(file[tagEnd + 1] & 0xe0).toBe(0xe0);
+  });
+
+  it('starts VBR MP3 with a Xing frame', async () => {
+    const file = await bytes(await exportAudio(pcm, settings({ format: 'mp3', mp3Mode: 'vbr', channels: 2 })));
+    expect(new TextDecoder().decode(file.subarray(36, 40))).toBe('Xing');
+  });
+
+  it('explains when the browser has no Opus encoder', async () => {
+    await expect(exportAudio(pcm, settings({ format: 'opus' }))).rejects.toThrow(/cannot encode Opus/);
+  });
+});
+
+describe('export helpers', () => {
+  it('fixes Opus at 48kHz', () => {
+    expect(exportSampleRate(settings({ format: 'opus', sampleRate: 44100 }))).toBe(48000);
+    expect(exportSampleRate(settings({ format: 'wav', sampleRate: 44100 }))).toBe(44100);
+  });
+
+  it('estimates sizes from the bitrate', () => {
+    expect(estimateExportBytes(settings({ format: 'mp3', mp3Bitrate: 128 }), 60)).toBe(960000);
+    expect(estimateExportBytes(settings({ format: 'wav', sampleRate: 24000, channels: 1 }), 1)).toBe(44 + 48000);
+  });
+
+  it('names files safely', () => {
+    expect(exportFileName('Ep 1: The / Start', 'opus')).toBe('Ep_1_The_Start.opus');
+    expect(exportFileName('  ', 'mp3')).toBe('neonvoice.mp3');
+  });
+});
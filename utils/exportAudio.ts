@@ -0,0 +1,150 @@
+import { float32ToInt16, int16ToFloat32, pcmToWav, resampleSinc } from './audio';
+import { encodeFlac } from './flac';
+import { encodeOggOpus } from './ogg';
+import { AudioMetadata, concatBytes, id3v2Tag, uint32BE } from './tags';
+
+export type ExportFormat = 'wav' | 'mp3' | 'opus' | 'flac';
+export type ExportSampleRate = 24000 | 44100 | 48000;
+export type Mp3Bitrate = 64 | 96 | 128 | 160 | 192 | 256 | 320;
+
+export interface ExportSettings {
+  format: ExportFormat;
+  sampleRate: ExportSampleRate; // Opus is always 48kHz
+  channels: 1 | 2;
+  mp3Mode: 'cbr' | 'vbr';
+  mp3Bitrate: Mp3Bitrate;
+  mp3Quality: number; // LAME VBR quality, 0 (best) to 9
+  opusBitrate: number; // kbps
+}
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'mp3',
+  sampleRate: 44100,
+  channels: 1,
+  mp3Mode: 'cbr',
+  mp3Bitrate: 128,
+  mp3Quality: 2,
+  opusBitrate: 64,
+};
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string; tags: boolean }> = {
+  mp3: { label: 'MP3', extension: 'mp3', mimeType: 'audio/mpeg', tags: true },
+  opus: { label: 'Ogg Opus', extension: 'opus', mimeType: 'audio/ogg; codecs=opus', tags: true },
+  flac: { label: 'FLAC', extension: 'flac', mimeType: 'audio/flac', tags: true },
+  wav: { label: 'WAV', extension: 'wav', mimeType: 'audio/wav', tags: false },
+};
+
+export const MP3_BITRATES: Mp3Bitrate[] = [64, 96, 128, 160, 192, 256, 320];
+export const OPUS_BITRATES = [24, 32, 48, 64, 96, 128];
+
+// LAME's approximate average bitrate per VBR quality step, for size estimates only
+const MP3_VBR_KBPS = [245, 225, 190, 175, 165, 130, 115, 100, 85, 65];
+const MP3_CHUNK_SAMPLES = 1152 * 64;
+
+// Opus only runs at 48kHz, the others use what was picked
+export const exportSampleRate = (settings: ExportSettings): number => (settings.format === 'opus' ? 48000 : settings.sampleRate);
+
+// Rough output size, shown before encoding; FLAC is a guess since it depends on the audio
+export const estimateExportBytes = (settings: ExportSettings, durationSeconds: number): number => {
+  const samples = durationSeconds * exportSampleRate(settings) * settings.channels;
+  switch (settings.format) {
+    case 'wav': return 44 + samples * 2;
+    case 'flac': return samples * 2 * (settings.channels === 2 ? 0.3 : 0.55);
+    case 'mp3': {
+      const kbps = settings.mp3Mode === 'cbr' ? settings.mp3Bitrate : MP3_VBR_KBPS[settings.mp3Quality] * (settings.channels === 2 ? 1 : 0.6);
+      return (kbps * 1000 * durationSeconds) / 8;
+    }
+    case 'opus': return (settings.opusBitrate * 1000 * durationSeconds) / 8;
+  }
+};
+
+export const exportFileName = (name: string, extension: string): string => {
+  const base = name.trim().replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '_') || 'neonvoice';
+  return `${base}.${extension}`;
+};
+
+const interleave = (channels: Int16Array[]): Int16Array => {
+  if (channels.length === 1) return channels[0];
+  const out = new Int16Array(channels[0].length * channels.length);
+  channels.forEach((channel, c) => {
+    for (let i = 0; i < channel.length; i++) out[i * channels.length + c] = channel[i];
+  });
+  return out;
+};
+
+// Layer III bitrates (kbps) by bitrate index, for MPEG-1 and for MPEG-2/2.5
+const MP3_FRAME_KBPS = {
+  mpeg1: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  mpeg2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+const MP3_SAMPLE_RATES = [[11025, 12000, 8000], [], [22050, 24000, 16000], [44100, 48000, 32000]]; // By version bits
+
+const mp3FrameLength = (bytes: Uint8Array, offset: number) => {
+  if (offset + 4 > bytes.length || bytes[offset] !== 0xff || (bytes[offset + 1] & 0xe6) !== 0xe2) return 0;
+  const version = (bytes[offset + 1] >> 3) & 3;
+  const kbps = MP3_FRAME_KBPS[version === 3 ? 'mpeg1' : 'mpeg2'][bytes[offset + 2] >> 4];
+  const sampleRate = MP3_SAMPLE_RATES[version]?.[(bytes[offset + 2] >> 2) & 3];
+  if (!kbps || !sampleRate) return 0;
+  return Math.floor(((version === 3 ? 144 : 72) * kbps * 1000) / sampleRate) + ((bytes[offset + 2] >> 1) & 1);
+};
+
+// Without a Xing frame up front, players guess a VBR file's duration from its first frame's
+// bitrate. The Xing frame is a silent frame in the stream's own format carrying the frame
+// and byte counts.
+const xingFrame = (frames: Uint8Array): Uint8Array => {
+  let count = 0;
+  for (let offset = 0, length; (length = mp3FrameLength(frames, offset)) > 0; offset += length) count++;
+  if (count === 0) return new Uint8Array(0);
+
+  const version = (frames[1] >> 3) & 3;
+  const mono = frames[3] >> 6 === 3;
+  // 64kbps leaves room for the tag at any of our sample rates
+  const header = new Uint8Array([0xff, frames[1] | 1, ((version === 3 ? 5 : 8) << 4) | (frames[2] & 0x0c), frames[3]]);
+  const frame = new Uint8Array(mp3FrameLength(header, 0));
+  frame.set(header);
+  // The tag sits after the side information, whose size depends on version and channels
+  const tagOffset = 4 + (version === 3 ? (mono ? 17 : 32) : (mono ? 9 : 17));
+  frame.set(concatBytes([new TextEncoder().encode('Xing'), uint32BE(0x3), uint32BE(count + 1), uint32BE(frame.length + frames.length)]), tagOffset);
+  return frame;
+};
+
+const encodeMp3 = async (channels: Float32Array[], sampleRate: number, settings: ExportSettings): Promise<Uint8Array> => {
+  // The LAME wasm build is large, so it only loads once someone exports an MP3
+  const { createMp3Encoder } = await import('wasm-media-encoders');
+  const encoder = await createMp3Encoder();
+  encoder.configure({
+    sampleRate,
+    channels: channels.length as 1 | 2,
+    ...(settings.mp3Mode === 'cbr' ? { bitrate: settings.mp3Bitrate } : { vbrQuality: settings.mp3Quality }),
+  });
+  // The encoder reuses its output buffer, so each result is copied before the next call
+  const parts: Uint8Array[] = [];
+  for (let start = 0; start < channels[0].length; start += MP3_CHUNK_SAMPLES) {
+    parts.push(encoder.encode(channels.map(channel => channel.subarray(start, start + MP3_CHUNK_SAMPLES))).slice());
+  }
+  parts.push(encoder.finalize().slice());
+  const frames = concatBytes(parts);
+  return settings.mp3Mode === 'vbr' ? concatBytes([xingFrame(frames), frames]) : frames;
+};
+
+// Encodes a mono 16-bit render into the chosen format, resampled and duplicated to stereo as
+// asked. Tags go into ID3 (MP3) or Vorbis comments (FLAC, Opus); WAV carries none.
+export const exportAudio = async (pcm: Int16Array, settings: ExportSettings, metadata: AudioMetadata = {}, sourceRate = 24000): Promise<Blob> => {
+  const sampleRate = exportSampleRate(settings);
+  const mono = resampleSinc(int16ToFloat32(pcm), sourceRate, sampleRate);
+  const channels = Array.from({ length: settings.channels }, () => mono);
+  const { mimeType } = EXPORT_FORMATS[settings.format];
+
+  switch (settings.format) {
+    case 'wav':
+      return pcmToWav(interleave(channels.map(float32ToInt16)), sampleRate, settings.channels);
+    case 'flac':
+      return new Blob([encodeFlac(channels.map(float32ToInt16), sampleRate, metadata)], { type: mimeType });
+    case 'mp3': {
+      const frames = await encodeMp3(channels, sampleRate, settings);
+      return new Blob([id3v2Tag(metadata), frames], { type: mimeType });
+    }
+    case 'opus':
+      return new Blob([await encodeOggOpus(channels, settings.opusBitrate, metadata, sourceRate)], { type: mimeType });
+  }
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { crc8, crc16, encodeFlac } from './flac';
+
+const ascii = (value: string) => new TextEncoder().encode(value);
+
+// Walks the metadata blocks after the "fLaC" marker
+const metadataBlocks = (file: Uint8Array) => {
+  const blocks: { type: number; body: Uint8Array }[] = [];
+  let offset = 4;
+  for (let last = false; !last;) {
+    last = (file[offset] & 0x80) !== 0;
+    const length = (file[offset + 1] << 16) | (file[offset + 2] << 8) | file[offset + 3];
+    blocks.push({ type: file[offset] & 0x7f, body: file.subarray(offset + 4, offset + 4 + length) });
+    offset += 4 + length;
+  }
+  return { blocks, audioStart: offset };
+};
+
+const tone = (length: number) => Int16Array.from({ length }, (_, i) => Math.round(Math.sin(i / 7) * 8000 + Math.sin(i / 3.1) * 2000));
+
+describe('checksums', () => {
+  it('match the FLAC check values', () => {
+    expect(crc8(ascii('123456789'))).toBe(0xf4);
+    expect(crc16(ascii('123456789'))).toBe(0xfee8);
+  });
+});
+
+describe('encodeFlac', () => {
+  it('describes the stream in STREAMINFO', () => {
+    const file = encodeFlac([tone(10000), tone(10000)], 44100, { title: 'Pilot' });
+    expect(new TextDecoder().decode(file.subarray(0, 4))).toBe('fLaC');
+    const { blocks } = metadataBlocks(file);
+    expect(blocks.map(block => block.type)).toEqual([0, 4]);
+
+    const info = new DataView(blocks[0].body.buffer, blocks[0].body.byteOffset, 34);
+    expect(info.getUint16(0)).toBe(4096);
+    expect(info.getUint32(10) >>> 12).toBe(44100);
+    expect(((info.getUint8(12) >> 1) & 0x7) + 1).toBe(2);
+    expect((((info.getUint8(12) & 1) << 4) | (info.getUint8(13) >> 4)) + 1).toBe(16);
+    expect(info.getUint32(14)).toBe(10000);
+    expect(new TextDecoder().decode(blocks[1].body)).toContain('TITLE=Pilot');
+  });
+
+  it('adds a picture block for cover art', () => {
+    const file = encodeFlac([tone(100)], 24000, { cover: { mimeType: 'image/jpeg', data: new Uint8Array(10) } });
+    expect(metadataBlocks(file).blocks.map(block => block.type)).toEqual([0, 4, 6]);
+  });
+
+  it('writes frames with valid header and footer checksums', () => {
+    const file = encodeFlac([tone(5000)], 24000);
+    const { audioStart } = metadataBlocks(file);
+    // Two frames: a full 4096 block, then a short one whose size follows the frame number
+    const second = file.findIndex((byte, i) => i > audioStart && byte === 0xff && file[i + 1] === 0xf8 && file[i + 4] === 0x01);
+    expect(file[audioStart]).toBe(0xff);
+    expect(file[audioStart + 1]).toBe(0xf8);
+    expect(crc8(file.subarray(audioStart, audioStart + 5))).toBe(file[audioStart + 5]);
+    expect(crc16(file.subarray(audioStart, second))).toBe(0);
+    expect(crc16(file.subarray(second))).toBe(0);
+    expect((file[second + 5] << 8) | file[second + 6]).toBe(5000 - 4096 - 1);
+  });
+
+  it('compresses silence and dual-mono stereo to almost nothing extra', () => {
+    expect(encodeFlac([new Int16Array(48000)], 48000).length).toBeLessThan(300);
+    const mono = encodeFlac([tone(48000)], 48000).length;
+    const stereo = encodeFlac([tone(48000), tone(48000)], 48000).length;
+    expect(mono).toBeLessThan(48000 * 2 * 0.8);
+    expect(stereo - mono).toBeLessThan(200);
+  });
+});
@@ -0,0 +1,271 @@
+import { AudioMetadata, concatBytes, pictureBlock, vorbisComment, vorbisCommentFields } from './tags';
+
+// Minimal FLAC encoder for 16-bit exports: fixed predictors (orders 0-4) with partitioned
+// Rice residuals, plus left/side or right/side stereo when it is smaller. Dual-mono stereo
+// (our usual case) codes the side channel as a constant, so it costs next to nothing.
+
+const BLOCK_SIZE = 4096;
+const BITS_PER_SAMPLE = 16;
+const MAX_PARTITION_ORDER = 8;
+const MAX_RICE_PARAMETER = 14; // 15 is the escape code
+const VENDOR = 'NeonVoice FLAC encoder';
+
+const SAMPLE_RATE_CODES: Record<number, number> = {
+  88200: 1, 176400: 2, 192000: 3, 8000: 4, 16000: 5, 22050: 6, 24000: 7, 32000: 8, 44100: 9, 48000: 10, 96000: 11,
+};
+
+const CRC8_TABLE = new Uint8Array(256).map((_, i) => {
+  let crc = i;
+  for (let bit = 0; bit < 8; bit++) crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+  return crc;
+});
+
+const CRC16_TABLE = new Uint16Array(256).map((_, i) => {
+  let crc = i << 8;
+  for (let bit = 0; bit < 8; bit++) crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff;
+  return crc;
+});
+
+export const crc8 = (bytes: Uint8Array): number => bytes.reduce((crc, byte) => CRC8_TABLE[crc ^ byte], 0);
+
+export const crc16 = (bytes: Uint8Array): number => bytes.reduce((crc, byte) => ((crc << 8) & 0xffff) ^ CRC16_TABLE[(crc >> 8) ^ byte], 0);
+
+// MSB-first bit packing
+class BitWriter {
+  private buffer = new Uint8Array(4096);
+  private length = 0;
+  private acc = 0;
+  private pending = 0; // Bits in acc not yet flushed to a byte (always < 8 between calls)
+
+  private pushByte(byte: number) {
+    if (this.length === this.buffer.length) {
+      const grown = new Uint8Array(this.buffer.length * 2);
+      grown.set(this.buffer);
+      this.buffer = grown;
+    }
+    this.buffer[this.length++] = byte;
+  }
+
+  // Unsigned value in up to 32 bits
+  write(value: number, bits: number) {
+    if (bits > 16) {
+      this.write(Math.floor(value / 0x10000) & ((1 << (bits - 16)) - 1), bits - 16);
+      this.write(value & 0xffff, 16);
+      return;
+    }
+    this.acc = (this.acc << bits) | (value & ((1 << bits) - 1));
+    this.pending += bits;
+    while (this.pending >= 8) {
+      this.pending -= 8;
+      this.pushByte((this.acc >>> this.pending) & 0xff);
+    }
+    this.acc &= (1 << this.pending) - 1;
+  }
+
+  writeSigned(value: number, bits: number) {
+    this.write(value < 0 ? value + 2 ** bits : value, bits);
+  }
+
+  writeRice(value: number, parameter: number) {
+    const unsigned = value >= 0 ? value * 2 : -value * 2 - 1;
+    let quotient = Math.floor(unsigned / (1 << parameter));
+    for (; quotient >= 16; quotient -= 16) this.write(0, 16);
+    this.write(1, quotient + 1);
+    if (parameter) this.write(unsigned & ((1 << parameter) - 1), parameter);
+  }
+
+  align() {
+    if (this.pending) this.write(0, 8 - this.pending);
+  }
+
+  append(other: BitWriter) {
+    if (this.pending === 0) {
+      for (let i = 0; i < other.length; i++) this.pushByte(other.buffer[i]);
+    } else {
+      for (let i = 0; i < other.length; i++) this.write(other.buffer[i], 8);
+    }
+    if (other.pending) this.write(other.acc, other.pending);
+  }
+
+  get bitLength() {
+    return this.length * 8 + this.pending;
+  }
+
+  bytes(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+// Residual of the fixed polynomial predictor of each order 0-4
+const fixedResiduals = (samples: Int32Array): Int32Array[] => {
+  const orders = [samples];
+  for (let order = 1; order <= 4; order++) {
+    const previous = orders[order - 1];
+    const residual = new Int32Array(samples.length);
+    for (let i = order; i < samples.length; i++) residual[i] = previous[i] - previous[i - 1];
+    orders.push(residual);
+  }
+  return orders;
+};
+
+const riceCost = (count: number, sum: number) => {
+  let best = { parameter: 0, bits: Infinity };
+  for (let parameter = 0; parameter <= MAX_RICE_PARAMETER; parameter++) {
+    const bits = count * (parameter + 1) + Math.floor(sum / 2 ** parameter);
+    if (bits < best.bits) best = { parameter, bits };
+  }
+  return best;
+};
+
+// Best partition order and Rice parameters for a residual whose first `order` values are warm-up
+const planResidual = (residual: Int32Array, order: number) => {
+  const n = residual.length;
+  let maxOrder = 0;
+  while (maxOrder < MAX_PARTITION_ORDER && n % (2 << maxOrder) === 0 && (n >> (maxOrder + 1)) > order) maxOrder++;
+
+  let sums = new Float64Array(1 << maxOrder);
+  const size = n >> maxOrder;
+  for (let i = order; i < n; i++) {
+    const value = residual[i];
+    sums[Math.floor(i / size)] += value >= 0 ? value * 2 : -value * 2 - 1;
+  }
+
+  let best = { partitionOrder: 0, parameters: [0], bits: Infinity };
+  for (let partitionOrder = maxOrder; partitionOrder >= 0; partitionOrder--) {
+    const partitionSize = n >> partitionOrder;
+    const plans = Array.from(sums, (sum, p) => riceCost(partitionSize - (p === 0 ? order : 0), sum));
+    const bits = 2 + 4 + plans.reduce((total, plan) => total + 4 + plan.bits, 0);
+    if (bits < best.bits) best = { partitionOrder, parameters: plans.map(plan => plan.parameter), bits };
+    if (partitionOrder > 0) sums = Float64Array.from({ length: sums.length / 2 }, (_, p) => sums[2 * p] + sums[2 * p + 1]);
+  }
+  return best;
+};
+
+const encodeSubframe = (samples: Int32Array, bps: number): BitWriter => {
+  const writer = new BitWriter();
+  if (samples.every(sample => sample === samples[0])) {
+    writer.write(0, 8); // CONSTANT
+    writer.writeSigned(samples[0], bps);
+    return writer;
+  }
+
+  const residuals = fixedResiduals(samples);
+  let best = { order: 0, plan: planResidual(residuals[0], 0), bits: Infinity };
+  for (let order = 0; order <= 4 && order < samples.length; order++) {
+    const plan = planResidual(residuals[order], order);
+    const bits = order * bps + plan.bits;
+    if (bits < best.bits) best = { order, plan, bits };
+  }
+
+  if (best.bits >= samples.length * bps) {
+    writer.write(0b00000010, 8); // VERBATIM
+    samples.forEach(sample => writer.writeSigned(sample, bps));
+    return writer;
+  }
+
+  const { order, plan } = best;
+  writer.write((0b001000 | order) << 1, 8); // FIXED, predictor order in the low bits
+  for (let i = 0; i < order; i++) writer.writeSigned(samples[i], bps);
+  writer.write(0, 2); // Rice coding with 4-bit parameters
+  writer.write(plan.partitionOrder, 4);
+  const residual = residuals[order];
+  const partitionSize = samples.length >> plan.partitionOrder;
+  plan.parameters.forEach((parameter, p) => {
+    writer.write(parameter, 4);
+    const end = (p + 1) * partitionSize;
+    for (let i = Math.max(order, p * partitionSize); i < end; i++) writer.writeRice(residual[i], parameter);
+  });
+  return writer;
+};
+
+// Frame numbers use the same variable-length scheme as UTF-8
+const utf8Number = (writer: BitWriter, value: number) => {
+  if (value < 0x80) {
+    writer.write(value, 8);
+    return;
+  }
+  let bytes = 2;
+  while (value >= 2 ** (5 * bytes + 1)) bytes++;
+  const lead = (0xff00 >> bytes) & 0xff;
+  writer.write(lead | Math.floor(value / 2 ** (6 * (bytes - 1))), 8);
+  for (let i = bytes - 2; i >= 0; i--) writer.write(0x80 | (Math.floor(value / 2 ** (6 * i)) & 0x3f), 8);
+};
+
+const encodeFrame = (channels: Int32Array[], frameNumber: number, sampleRate: number): Uint8Array => {
+  const n = channels[0].length;
+
+  // Channel assignment 0/1 = independent mono/stereo, 8 = left/side, 9 = right/side
+  let assignment = channels.length - 1;
+  let subframes = channels.map(channel => encodeSubframe(channel, BITS_PER_SAMPLE));
+  if (channels.length === 2) {
+    const side = channels[0].map((left, i) => left - channels[1][i]);
+    const sideFrame = encodeSubframe(side, BITS_PER_SAMPLE + 1);
+    const [left, right] = subframes;
+    const options = [
+      { assignment: 1, frames: [left, right] },
+      { assignment: 8, frames: [left, sideFrame] },
+      { assignment: 9, frames: [sideFrame, right] },
+    ];
+    const best = options.reduce((a, b) => (b.frames[0].bitLength + b.frames[1].bitLength < a.frames[0].bitLength + a.frames[1].bitLength ? b : a));
+    assignment = best.assignment;
+    subframes = best.frames;
+  }
+
+  const header = new BitWriter();
+  header.write(0xfff8, 16); // Sync code, fixed block size
+  header.write(n === BLOCK_SIZE ? 0b1100 : 0b0111, 4);
+  header.write(SAMPLE_RATE_CODES[sampleRate] ?? 0, 4);
+  header.write(assignment, 4);
+  header.write(0b100, 3); // 16 bits per sample
+  header.write(0, 1);
+  utf8Number(header, frameNumber);
+  if (n !== BLOCK_SIZE) header.write(n - 1, 16);
+  header.write(crc8(header.bytes()), 8);
+
+  const frame = new BitWriter();
+  frame.append(header);
+  subframes.forEach(subframe => frame.append(subframe));
+  frame.align();
+  const bytes = frame.bytes();
+  const crc = crc16(bytes);
+  return concatBytes([bytes, new Uint8Array([crc >> 8, crc & 0xff])]);
+};
+
+const metadataBlock = (type: number, body: Uint8Array, last: boolean) =>
+  concatBytes([new Uint8Array([(last ? 0x80 : 0) | type, body.length >> 16, (body.length >> 8) & 0xff, body.length & 0xff]), body]);
+
+// Encodes 16-bit channels (all the same length) as a .flac file
+export const encodeFlac = (channels: Int16Array[], sampleRate: number, metadata: AudioMetadata = {}): Uint8Array => {
+  const total = channels[0]?.length ?? 0;
+  const blockSize = Math.max(16, Math.min(BLOCK_SIZE, total));
+
+  const info = new BitWriter();
+  info.write(blockSize, 16); // Min and max block size
+  info.write(blockSize, 16);
+  info.write(0, 24); // Min and max frame size unknown
+  info.write(0, 24);
+  info.write(sampleRate, 20);
+  info.write(channels.length - 1, 3);
+  info.write(BITS_PER_SAMPLE - 1, 5);
+  info.write(Math.floor(total / 2 ** 32), 4);
+  info.write(total >>> 0, 32);
+  for (let i = 0; i < 4; i++) info.write(0, 32); // No MD5
+
+  const blocks = [
+    { type: 0, body: info.bytes() },
+    { type: 4, body: vorbisComment(VENDOR, vorbisCommentFields(metadata)) },
+    ...(metadata.cover ? [{ type: 6, body: pictureBlock(metadata.cover) }] : []),
+  ];
+
+  const frames: Uint8Array[] = [];
+  for (let start = 0, frameNumber = 0; start < total; start += BLOCK_SIZE, frameNumber++) {
+    const end = Math.min(total, start + BLOCK_SIZE);
+    frames.push(encodeFrame(channels.map(channel => Int32Array.from(channel.subarray(start, end))), frameNumber, sampleRate));
+  }
+
+  return concatBytes([
+    new TextEncoder().encode('fLaC'),
+    ...blocks.map((block, i) => metadataBlock(block.type, block.body, i === blocks.length - 1)),
+    ...frames,
+  ]);
+};
@@ -0,0 +1,308 @@
+import { ApiError, GenerateContentParameters, GenerateContentResponse, GoogleGenAI, Modality, Type } from '@google/genai';
+import { DEFAULT_GEMINI_BURST, DEFAULT_GEMINI_RPM, TTS_MODEL } from '../constants';
+import { Gender, VoiceAnalysis, VoiceName } from '../types';
+import { SpeechProvider } from './speechProvider';
+import { readNumberSetting, writeNumberSetting } from './settings';
+
+// Shared Gemini access: one client, one request queue, one retry policy.
+// Live sessions only borrow the client; they are long-lived sockets, not metered requests.
+
+export type GeminiErrorCode =
+  | 'rate_limited'    // 429 that outlasted the retries
+  | 'unavailable'     // 5xx
+  | 'auth'            // 401 / 403
+  | 'missing_key'     // No API key configured
+  | 'invalid_request' // Other 4xx
+  | 'network'
+  | 'aborted'
+  | 'empty_response'
+  | 'unknown';
+
+export class GeminiError extends Error {
+  code: GeminiErrorCode;
+  status?: number;
+  retryAfterMs?: number;
+
+  constructor(code: GeminiErrorCode, message: string, options: { status?: number; retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = 'GeminiError';
+    this.code = code;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return this.code === 'rate_limited' || this.code === 'unavailable' || this.code === 'network';
+  }
+}
+
+export interface GeminiCallOptions {
+  signal?: AbortSignal;
+  maxRetries?: number;
+}
+
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+
+let client: GoogleGenAI | null = null;
+
+export const getGenAI = (): GoogleGenAI => {
+  if (!process.env.API_KEY) {
+    throw new GeminiError('missing_key', 'GEMINI_API_KEY is not set');
+  }
+  if (!client) client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return client;
+};
+
+// --- Errors ---
+
+// ApiError messages carry the JSON error body; pull out the human part and any RetryInfo
+const parseApiErrorBody = (message: string): { text: string; retryAfterMs?: number } => {
+  const retryDelay = message.match(/"retryDelay"\s*:\s*"([\d.]+)s"/) || message.match(/retry[- ]after[":\s]+([\d.]+)/i);
+  const retryAfterMs = retryDelay ? Math.round(parseFloat(retryDelay[1]) * 1000) : undefined;
+  try {
+    const body = JSON.parse(message.slice(message.indexOf('{')));
+    return { text: body?.error?.message || message, retryAfterMs };
+  } catch {
+    return { text: message, retryAfterMs };
+  }
+};
+
+export const toGeminiError = (e: unknown, signal?: AbortSignal): GeminiError => {
+  if (e instanceof GeminiError) return e;
+  // Errors can come from the SDK, fetch or a DOMException, so only the common fields are read
+  const error = (typeof e === 'object' && e !== null ? e : {}) as { name?: unknown; status?: unknown; message?: unknown };
+  if (signal?.aborted || error.name === 'AbortError') return new GeminiError('aborted', 'Request cancelled');
+
+  if (e instanceof ApiError || typeof error.status === 'number') {
+    const status = Number(error.status);
+    const { text, retryAfterMs } = parseApiErrorBody(String(error.message ?? ''));
+    const code: GeminiErrorCode =
+      status === 429 ? 'rate_limited'
+      : status >= 500 ? 'unavailable'
+      : status === 401 || status === 403 ? 'auth'
+      : 'invalid_request';
+    return new GeminiError(code, text, { status, retryAfterMs });
+  }
+
+  if (e instanceof TypeError) return new GeminiError('network', e.message);
+  return new GeminiError('unknown', typeof error.message === 'string' && error.message ? error.message : String(e));
+};
+
+// Copy the UI shows in place of a raw exception
+export const describeGeminiError = (e: unknown): string => {
+  const error = toGeminiError(e);
+  switch (error.code) {
+    case 'rate_limited':
+      return error.retryAfterMs
+        ? `Neural link throttled (quota exceeded). Retry in ${Math.ceil(error.retryAfterMs / 1000)}s.`
+        : 'Neural link throttled (quota exceeded). Please wait a moment and retry.';
+    case 'unavailable':
+      return 'Synthesis service is temporarily unavailable. Retry shortly.';
+    case 'auth':
+      return 'The API key was rejected. Check your Gemini credentials.';
+    case 'missing_key':
+      return 'No Gemini API key. Set GEMINI_API_KEY in .env.local, or SPEECH_PROVIDER=mock for offline audio.';
+    case 'invalid_request':
+      return `Request rejected: ${error.message}`;
+    case 'network':
+      return 'Network failure. Check your neural connection.';
+    case 'aborted':
+      return 'Request cancelled.';
+    case 'empty_response':
+      return 'The model returned no audio for this request.';
+    default:
+      return error.message || 'Unexpected synthesis failure.';
+  }
+};
+
+// --- Rate limiting ---
+// Token bucket refilled at `rpm` per minute; waiters are served in FIFO order. The rate is set
+// to match the key's quota from the control beside the cache stats and kept across reloads.
+
+// Choices offered in the UI, in requests per minute
+export const GEMINI_RPM_OPTIONS = [3, 10, 15, 30, 60, 120, 300];
+
+const RPM_SETTING = 'geminiRpm';
+
+interface Waiter {
+  resolve: () => void;
+  reject: (e: GeminiError) => void;
+}
+
+const limiter = {
+  rpm: Math.max(1, readNumberSetting(RPM_SETTING, DEFAULT_GEMINI_RPM)),
+  capacity: DEFAULT_GEMINI_BURST,
+  tokens: DEFAULT_GEMINI_BURST,
+  lastRefill: Date.now(),
+  queue: [] as Waiter[],
+  timer: null as ReturnType<typeof setTimeout> | null,
+};
+
+export const setGeminiRateLimit = (rpm: number, burst: number = limiter.capacity) => {
+  refill();
+  limiter.rpm = Math.max(1, rpm);
+  writeNumberSetting(RPM_SETTING, limiter.rpm);
+  limiter.capacity = Math.max(1, burst);
+  limiter.tokens = Math.min(limiter.tokens, limiter.capacity);
+  if (limiter.timer) clearTimeout(limiter.timer);
+  pump();
+};
+
+export const getGeminiRateLimit = () => limiter.rpm;
+
+const refill = () => {
+  const now = Date.now();
+  limiter.tokens = Math.min(limiter.capacity, limiter.tokens + ((now - limiter.lastRefill) * limiter.rpm) / 60000);
+  limiter.lastRefill = now;
+};
+
+const pump = () => {
+  limiter.timer = null;
+  refill();
+  while (limiter.queue.length > 0 && limiter.tokens >= 1) {
+    limiter.tokens -= 1;
+    limiter.queue.shift()!.resolve();
+  }
+  if (limiter.queue.length > 0) {
+    limiter.timer = setTimeout(pump, Math.ceil(((1 - limiter.tokens) * 60000) / limiter.rpm));
+  }
+};
+
+const acquireToken = (signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new GeminiError('aborted', 'Request cancelled'));
+      return;
+    }
+    const onAbort = () => {
+      limiter.queue = limiter.queue.filter(w => w !== waiter);
+      reject(new GeminiError('aborted', 'Request cancelled'));
+    };
+    const waiter: Waiter = {
+      resolve: () => { signal?.removeEventListener('abort', onAbort); resolve(); },
+      reject,
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    limiter.queue.push(waiter);
+    if (!limiter.timer) pump();
+  });
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new GeminiError('aborted', 'Request cancelled'));
+      return;
+    }
+    const timer = setTimeout(() => { signal?.removeEventListener('abort', onAbort); resolve(); }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new GeminiError('aborted', 'Request cancelled'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// --- Requests ---
+
+// Runs `request` through the limiter, retrying 429 / 5xx / network failures.
+// A server-provided retry delay wins over exponential backoff; both get jitter.
+export const callGemini = async <T>(
+  request: (ai: GoogleGenAI, signal?: AbortSignal) => Promise<T>,
+  { signal, maxRetries = 3 }: GeminiCallOptions = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    await acquireToken(signal);
+    try {
+      return await request(getGenAI(), signal);
+    } catch (e) {
+      const error = toGeminiError(e, signal);
+      if (!error.retryable || attempt >= maxRetries) throw error;
+
+      const backoff = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * Math.pow(2, attempt));
+      const delay = error.retryAfterMs !== undefined
+        ? error.retryAfterMs + Math.random() * BASE_BACKOFF_MS
+        : backoff / 2 + Math.random() * (backoff / 2);
+      console.warn(`Gemini request failed (${error.code}), retry ${attempt + 1}/${maxRetries} in ${Math.round(delay)}ms`);
+      await sleep(delay, signal);
+    }
+  }
+};
+
+export const generateContent = (params: GenerateContentParameters, options: GeminiCallOptions = {}): Promise<GenerateContentResponse> =>
+  callGemini(
+    (ai, signal) => ai.models.generateContent({ ...params, config: { ...params.config, abortSignal: signal } }),
+    options
+  );
+
+export interface SpeechRequest {
+  text: string;
+  voice?: string; // Single prebuilt voice
+  style?: string; // Delivery instruction, sent ahead of the text the way the TTS docs prompt it
+  speakers?: { speaker: string; voice: string }[]; // Multi-speaker render
+}
+
+// Returns the base64 PCM of a TTS render
+export const synthesizeSpeech = async ({ text, voice, style, speakers }: SpeechRequest, options: GeminiCallOptions = {}): Promise<string> => {
+  const response = await generateContent({
+    model: TTS_MODEL,
+    contents: [{ parts: [{ text: style ? `${style}: ${text}` : text }] }],
+    config: {
+      responseModalities: [Modality.AUDIO],
+      speechConfig: speakers
+        ? {
+            multiSpeakerVoiceConfig: {
+              speakerVoiceConfigs: speakers.map(s => ({
+                speaker: s.speaker,
+                voiceConfig: { prebuiltVoiceConfig: { voiceName: s.voice } },
+              })),
+            },
+          }
+        : { voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } } },
+    },
+  }, options);
+
+  const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+  if (!base64Audio) throw new GeminiError('empty_response', 'No audio in TTS response');
+  return base64Audio;
+};
+
+const ANALYSIS_MODEL = 'gemini-3-flash-preview';
+
+export const analyzeVoiceSample = async (sample: { data: string; mimeType: string }, options: GeminiCallOptions = {}): Promise<VoiceAnalysis> => {
+  const prompt = `Analyze this voice sample for pitch, speed, and gender. Map it to one of the Gemini prebuilt voices (Puck, Charon, Kore, Fenrir, Zephyr). Return only JSON.`;
+  const response = await generateContent({
+    model: ANALYSIS_MODEL,
+    contents: {
+      parts: [
+        { inlineData: sample },
+        { text: prompt }
+      ]
+    },
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          suggestedName: { type: Type.STRING },
+          baseVoice: { type: Type.STRING, enum: [VoiceName.Puck, VoiceName.Charon, VoiceName.Kore, VoiceName.Fenrir, VoiceName.Zephyr] },
+          speed: { type: Type.NUMBER },
+          pitch: { type: Type.NUMBER },
+          description: { type: Type.STRING },
+          systemInstruction: { type: Type.STRING },
+          gender: { type: Type.STRING, enum: [Gender.Male, Gender.Female, Gender.Neutral] }
+        }
+      }
+    }
+  }, options);
+  if (!response.text) throw new GeminiError('empty_response', 'No analysis in response');
+  return JSON.parse(response.text) as VoiceAnalysis;
+};
+
+export const geminiSpeechProvider: SpeechProvider = {
+  id: 'gemini',
+  ttsModel: TTS_MODEL,
+  tts: ({ text, voice, style }, options) => synthesizeSpeech({ text, voice, style }, options),
+  multiSpeakerTts: ({ text, speakers }, options) => synthesizeSpeech({ text, speakers }, options),
+  analyzeVoice: analyzeVoiceSample,
+  liveConnect: async (params) => getGenAI().live.connect(params),
+};
@@ -0,0 +1,64 @@
+import { GenerationJob, StorySegment } from '../types';
+import { deleteGenerationJob, saveCheckpoint, saveGenerationJob } from './db';
+import { GeminiError, toGeminiError } from './gemini';
+
+export interface GenerationProgress {
+  done: number;  // Segments with audio, including ones reused from cache or earlier runs
+  total: number;
+  etaMs: number | null; // null until one segment has been timed
+}
+
+export interface GenerationJobOptions {
+  jobId: string;
+  segments: StorySegment[]; // Planned timeline; segments that already have audio are skipped
+  synthesize: (segment: StorySegment, signal: AbortSignal) => Promise<Int16Array | null>;
+  signal: AbortSignal;
+  onProgress?: (progress: GenerationProgress) => void;
+}
+
+// Fills in every segment without audio, checkpointing each one as it lands. On cancel or
+// failure the job record stays behind (paused / failed) so the next run can pick up the
+// checkpoints; on success it is removed.
+export const runGenerationJob = async ({ jobId, segments, synthesize, signal, onProgress }: GenerationJobOptions): Promise<StorySegment[]> => {
+  const result = [...segments];
+  const total = result.length;
+  let done = result.filter(s => s.audioData).length;
+  const job: GenerationJob = { id: jobId, total, completed: done, status: 'running', updatedAt: Date.now() };
+  await saveGenerationJob(job);
+
+  const startedAt = Date.now();
+  let timed = 0;
+  const report = () => {
+    const perSegment = timed > 0 ? (Date.now() - startedAt) / timed : null;
+    onProgress?.({ done, total, etaMs: perSegment === null ? null : perSegment * (total - done) });
+  };
+  report();
+
+  try {
+    for (let i = 0; i < result.length; i++) {
+      if (result[i].audioData) continue;
+      if (signal.aborted) throw new GeminiError('aborted', 'Request cancelled');
+
+      result[i] = { ...result[i], audioData: await synthesize(result[i], signal) };
+      done++;
+      timed++;
+      job.completed = done;
+      await saveCheckpoint(job, result[i]);
+      report();
+    }
+  } catch (e) {
+    const error = toGeminiError(e, signal);
+    await saveGenerationJob({ ...job, status: error.code === 'aborted' ? 'paused' : 'failed', error: error.message })
+      .catch(err => console.warn("Could not record job state", err));
+    throw error;
+  }
+
+  await deleteGenerationJob(jobId);
+  return result;
+};
+
+export const formatEta = (ms: number): string => {
+  const seconds = Math.max(1, Math.round(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+};
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { MixTrack, StorySegment } from '../types';
+import { float32ToInt16, int16ToFloat32, measureTruePeak } from './audio';
+import { mixdown, MixdownOptions, mixStory, sfxKey, unmatchedCues } from './mixer';
+
+const RATE = 1000;
+
+const constant = (value: number, length: number) => new Int16Array(length).fill(value);
+// Float mixing rounds a sample or so off
+const rounded = (pcm: Int16Array) => Array.from(pcm, v => Math.round(v / 10) * 10);
+// mixdown works in float; read it back as 16-bit to compare sample values
+const mixPcm = (voice: Int16Array, options: MixdownOptions) => float32ToInt16(mixdown(int16ToFloat32(voice), options));
+
+const segment = (id: string, audio: Int16Array, overrides: Partial<StorySegment> = {}): StorySegment => ({
+  id, voiceId: 'kore', text: id, sourceLine: id, hash: id, audioData: audio, ...overrides,
+});
+
+const track = (name: string, kind: MixTrack['kind'], overrides: Partial<MixTrack> = {}): MixTrack => ({
+  id: name, assetId: `asset-${name}`, name, kind, volume: 1, ...overrides,
+});
+
+describe('sfxKey', () => {
+  it('ignores case, separators and the file extension', () => {
+    expect(sfxKey('Door Creak.wav')).toBe('door_creak');
+    expect(sfxKey(' door-creak ')).toBe('door_creak');
+    expect(sfxKey('door__creak')).toBe('door_creak');
+  });
+});
+
+describe('unmatchedCues', () => {
+  it('lists each cue without an sfx track once', () => {
+    const segments = [
+      segment('a', constant(1, 1), { sfx: [{ name: 'Door Creak' }, { name: 'thunder' }] }),
+      segment('b', constant(1, 1), { sfx: [{ name: 'THUNDER' }] }),
+    ];
+    expect(unmatchedCues(segments, [track('door_creak', 'sfx'), track('thunder', 'music')])).toEqual(['thunder']);
+  });
+});
+
+describe('mixdown', () => {
+  // 1s of silence, 2s of speech, 2s of silence
+  const voice = new Int16Array(5 * RATE);
+  voice.fill(16384, RATE, 3 * RATE);
+
+  it('ducks music beds while the voice speaks and recovers afterwards', () => {
+    const mix = mixPcm(voice, { voiceVolume: 0, duckingDb: 12, beds: [{ pcm: constant(16384, 5 * RATE), volume: 1 }], sampleRate: RATE });
+    expect(mix[RATE / 2]).toBeCloseTo(16384, -1);
+    expect(mix[2 * RATE] / 16384).toBeCloseTo(10 ** (-12 / 20), 2);
+    expect(mix[RATE * 3 - 1]).toBeLessThan(mix[RATE / 2] / 3);
+  });
+
+  it('leaves beds alone with ducking off', () => {
+    const mix = mixPcm(voice, { voiceVolume: 0, duckingDb: 0, beds: [{ pcm: constant(16384, RATE), volume: 0.5 }], sampleRate: RATE });
+    expect(rounded(mix.slice(RATE / 2, RATE / 2 + 1))).toEqual([8190]);
+    expect(mix[RATE + 10]).toBe(0);
+  });
+
+  it('loops beds to the end of the mix and fades them out', () => {
+    const mix = mixPcm(voice, { voiceVolume: 0, beds: [{ pcm: constant(16384, RATE / 2), volume: 1, loop: true }], sampleRate: RATE });
+    expect(mix.length).toBe(5 * RATE);
+    expect(mix[2 * RATE]).toBeCloseTo(16384, -1);
+    expect(mix[4 * RATE]).toBeCloseTo(8192, -1);
+    expect(Math.abs(mix[5 * RATE - 1])).toBeLessThan(20);
+  });
+
+  it('scales the voice and lets cues run past its end', () => {
+    const mix = mixPcm(constant(10000, 10), { voiceVolume: 0.5, cues: [{ pcm: constant(2000, 5), volume: 1, at: 8 }], sampleRate: RATE });
+    expect(rounded(mix)).toEqual([5000, 5000, 5000, 5000, 5000, 5000, 5000, 5000, 7000, 7000, 2000, 2000, 2000]);
+  });
+});
+
+describe('mixStory', () => {
+  it('returns the plain voice track when there is nothing to mix', () => {
+    const segments = [segment('a', constant(100, 3))];
+    expect(rounded(mixStory(segments, { voiceVolume: 1 }, new Map()))).toEqual([100, 100, 100]);
+  });
+
+  it('plays each cue at its offset into the segment lead-in', () => {
+    const segments = [
+      segment('a', constant(0, 10), { sfx: [{ name: 'knock' }] }),
+      segment('b', constant(0, 10), { pauseBeforeMs: 5, sfx: [{ name: 'Knock' }, { name: 'boom', offsetMs: 5 }, { name: 'missing' }] }),
+    ];
+    const assets = new Map([['asset-knock', constant(1000, 2)], ['asset-boom', constant(3000, 1)]]);
+    const mix = mixStory(segments, { voiceVolume: 1, tracks: [track('knock', 'sfx'), track('boom', 'sfx')] }, assets, RATE);
+    expect(mix.length).toBe(25);
+    expect(rounded(mix.slice(0, 3))).toEqual([1000, 1000, 0]);
+    expect(rounded(mix.slice(10, 16))).toEqual([1000, 1000, 0, 0, 0, 3000]);
+  });
+
+  it('limits beds and cues that sum past full scale instead of clipping them', () => {
+    const mastering = { turnGapMs: 0, loudnessTarget: null, truePeakDb: -1 };
+    const tone = Int16Array.from({ length: RATE }, (_, i) => Math.round(20000 * Math.sin((2 * Math.PI * 50 * i) / RATE)));
+    const segments = [segment('a', tone, { sfx: [{ name: 'hit' }] })];
+    const tracks = [track('bed', 'music'), track('hit', 'sfx', { volume: 0.8 })];
+    const mix = mixStory(segments, { voiceVolume: 1, tracks, duckingDb: 0, mastering }, new Map([['asset-bed', tone], ['asset-hit', tone]]), RATE);
+    expect(measureTruePeak(int16ToFloat32(mix))).toBeLessThanOrEqual(-1);
+    // Each cycle's crest (every 10th sample from 5) still stands above its neighbours; clipping
+    // before the limiter would flatten them to the same level
+    [205, 505, 805].forEach(crest => expect(Math.abs(mix[crest]) / Math.abs(mix[crest + 1])).toBeGreaterThan(1.03));
+  });
+
+  it('skips muted tracks and tracks whose audio is gone', () => {
+    const segments = [segment('a', constant(0, 4), { sfx: [{ name: 'knock' }] })];
+    const tracks = [track('knock', 'sfx', { muted: true }), track('bed', 'music')];
+    const mix = mixStory(segments, { voiceVolume: 1, tracks }, new Map([['asset-knock', constant(1000, 2)]]), RATE);
+    expect(Array.from(mix)).toEqual([0, 0, 0, 0]);
+  });
+});
@@ -0,0 +1,148 @@
+import { MixTrack, Project, StorySegment } from '../types';
+import { float32ToInt16, masterPcm } from './audio';
+import { arrangeSegments } from './segments';
+
+export const DEFAULT_DUCKING_DB = 12;
+export const DEFAULT_MUSIC_VOLUME = 0.3;
+export const DEFAULT_SFX_VOLUME = 0.8;
+
+// Ducking works on 10ms blocks of the voice track
+const BLOCK_SECONDS = 0.01;
+const VOICE_THRESHOLD = 0.02;       // Block RMS (about -34 dBFS) that counts as speech
+const DUCK_LOOKAHEAD_SECONDS = 0.15; // Dip just before the first word instead of on it
+const DUCK_HOLD_SECONDS = 0.4;       // Stay down through the gaps between words
+const DUCK_ATTACK_SECONDS = 0.05;
+const DUCK_RELEASE_SECONDS = 0.35;
+const BED_FADE_OUT_SECONDS = 2;      // Beds still playing when the story ends fade instead of cutting
+
+// "Door Creak.wav", "door-creak" and "door_creak" all name the same sound
+export const sfxKey = (name: string) => name.trim().toLowerCase().replace(/\.[a-z0-9]{2,4}$/, '').replace(/[\s_-]+/g, '_');
+
+// Cue names used in the segments that no SFX track answers to, in order of first use
+export const unmatchedCues = (segments: Pick<StorySegment, 'sfx'>[], tracks: MixTrack[] = []): string[] => {
+  const known = new Set(tracks.filter(t => t.kind === 'sfx').map(t => sfxKey(t.name)));
+  const missing = new Map<string, string>();
+  segments.forEach(segment => segment.sfx?.forEach(cue => {
+    const key = sfxKey(cue.name);
+    if (!known.has(key) && !missing.has(key)) missing.set(key, cue.name);
+  }));
+  return Array.from(missing.values());
+};
+
+export interface BedInput {
+  pcm: Int16Array;
+  volume: number;
+  loop?: boolean;
+}
+
+export interface CueInput {
+  pcm: Int16Array;
+  volume: number;
+  at: number; // Sample offset in the mix
+}
+
+export interface MixdownOptions {
+  voiceVolume: number;
+  duckingDb?: number;
+  beds?: BedInput[];
+  cues?: CueInput[];
+  sampleRate?: number;
+}
+
+// Gain for the music beds per block: dips by duckingDb while the voice is active, with a
+// little lookahead and hold so the bed doesn't pump between words
+export const duckingEnvelope = (voice: Float32Array, duckingDb: number, sampleRate = 24000, length = voice.length): { blockSize: number; gains: Float32Array } => {
+  const blockSize = Math.max(1, Math.round(sampleRate * BLOCK_SECONDS));
+  const blocks = Math.ceil(length / blockSize);
+  const gains = new Float32Array(blocks).fill(1);
+  if (duckingDb <= 0) return { blockSize, gains };
+
+  const active = new Uint8Array(blocks);
+  for (let b = 0; b < blocks; b++) {
+    const end = Math.min((b + 1) * blockSize, voice.length);
+    let sum = 0;
+    for (let i = b * blockSize; i < end; i++) sum += voice[i] ** 2;
+    active[b] = Math.sqrt(sum / blockSize) > VOICE_THRESHOLD ? 1 : 0;
+  }
+
+  const lookahead = Math.round(DUCK_LOOKAHEAD_SECONDS / BLOCK_SECONDS);
+  const hold = Math.round(DUCK_HOLD_SECONDS / BLOCK_SECONDS);
+  const near = new Uint8Array(blocks);
+  for (let b = 0, last = -Infinity; b < blocks; b++) {
+    if (active[b]) last = b;
+    if (b - last <= hold) near[b] = 1;
+  }
+  for (let b = blocks - 1, next = Infinity; b >= 0; b--) {
+    if (active[b]) next = b;
+    if (next - b <= lookahead) near[b] = 1;
+  }
+
+  const floor = 10 ** (-duckingDb / 20);
+  const attack = 1 - Math.exp(-BLOCK_SECONDS / DUCK_ATTACK_SECONDS);
+  const release = 1 - Math.exp(-BLOCK_SECONDS / DUCK_RELEASE_SECONDS);
+  let gain = 1;
+  for (let b = 0; b < blocks; b++) {
+    const target = near[b] ? floor : 1;
+    gain += (target - gain) * (target < gain ? attack : release);
+    gains[b] = gain;
+  }
+  return { blockSize, gains };
+};
+
+// Sums the float voice track, music beds and sfx into one float track. Beds start with the story
+// and are ducked under the voice; cues may run past the voice and lengthen the mix. Nothing is
+// clamped here: overshoot is left for masterPcm's limiter (or the final Int16 conversion).
+export const mixdown = (voice: Float32Array, { voiceVolume, duckingDb = 0, beds = [], cues = [], sampleRate = 24000 }: MixdownOptions): Float32Array => {
+  const length = cues.reduce((max, cue) => Math.max(max, cue.at + cue.pcm.length), voice.length);
+  const mix = new Float32Array(length);
+  for (let i = 0; i < voice.length; i++) mix[i] = voice[i] * voiceVolume;
+
+  const audibleBeds = beds.filter(bed => bed.pcm.length > 0 && bed.volume > 0);
+  if (audibleBeds.length > 0) {
+    const { blockSize, gains } = duckingEnvelope(voice, duckingDb, sampleRate, length);
+    const fadeLength = Math.min(length, Math.round(BED_FADE_OUT_SECONDS * sampleRate));
+    for (const bed of audibleBeds) {
+      const cutOff = bed.loop || bed.pcm.length > length;
+      const bedLength = bed.loop ? length : Math.min(length, bed.pcm.length);
+      for (let i = 0; i < bedLength; i++) {
+        const block = Math.floor(i / blockSize);
+        const next = gains[block + 1] ?? gains[block];
+        let gain = bed.volume * (gains[block] + (next - gains[block]) * ((i % blockSize) / blockSize));
+        if (cutOff && i >= length - fadeLength) gain *= (length - i) / fadeLength;
+        mix[i] += (bed.pcm[i % bed.pcm.length] / 32768) * gain;
+      }
+    }
+  }
+
+  for (const cue of cues) {
+    for (let i = 0; i < cue.pcm.length; i++) mix[cue.at + i] += (cue.pcm[i] / 32768) * cue.volume;
+  }
+  return mix;
+};
+
+// Mixer settings saved on the project
+export type StoryMixSettings = Pick<Project, 'voiceVolume' | 'tracks' | 'duckingDb' | 'mastering'>;
+
+// The full Story render: segments on the voice track, music beds under it and each sfx cue
+// where its segment's lead-in starts. assets maps AudioAsset ids to their PCM; tracks whose
+// asset is gone are left out. With mastering settings the finished mix is normalized and limited.
+export const mixStory = (segments: StorySegment[], settings: StoryMixSettings, assets: Map<string, Int16Array>, sampleRate = 24000): Int16Array => {
+  const { samples: voice, timings } = arrangeSegments(segments, sampleRate, settings.mastering);
+  const master = (samples: Float32Array) => (settings.mastering && samples.length > 0 ? masterPcm(samples, settings.mastering, sampleRate) : float32ToInt16(samples));
+  const tracks = (settings.tracks || []).filter(track => !track.muted && assets.has(track.assetId));
+  if (tracks.length === 0 && settings.voiceVolume === 1) return master(voice);
+
+  const beds = tracks
+    .filter(track => track.kind === 'music')
+    .map(track => ({ pcm: assets.get(track.assetId)!, volume: track.volume, loop: track.loop }));
+
+  const effects = new Map(tracks.filter(track => track.kind === 'sfx').map(track => [sfxKey(track.name), track]));
+  const cues = timings.flatMap(({ segment, pauseStart, start }) => (segment.sfx || []).flatMap(cue => {
+    const track = effects.get(sfxKey(cue.name));
+    if (!track) return [];
+    const at = Math.min(start, pauseStart + Math.round(((cue.offsetMs || 0) / 1000) * sampleRate));
+    return [{ pcm: assets.get(track.assetId)!, volume: track.volume, at }];
+  }));
+
+  return master(mixdown(voice, { voiceVolume: settings.voiceVolume, duckingDb: settings.duckingDb ?? DEFAULT_DUCKING_DB, beds, cues, sampleRate }));
+};
@@ -0,0 +1,218 @@
+import { LiveConnectParameters, LiveServerMessage } from '@google/genai';
+import { Gender, VoiceAnalysis, VoiceName } from '../types';
+import { arrayBufferToBase64, base64ToPcm16 } from './audio';
+import { fnv1a } from './segments';
+import { LiveSessionHandle, SpeechProvider } from './speechProvider';
+import { GeminiError } from './gemini';
+
+// Offline stand-in for Gemini. Output is deterministic: the same text and voice always
+// produce the same samples, which keeps demos repeatable and tests stable.
+
+const SAMPLE_RATE = 24000;
+
+// Rough vowel formants (F1, F2 in Hz) picked per word to give the "speech" some colour
+const VOWEL_FORMANTS: [number, number][] = [
+  [730, 1090], [530, 1840], [270, 2290], [570, 840], [300, 870], [660, 1720],
+];
+
+const formantGain = (freq: number, formants: [number, number]) =>
+  formants.reduce((acc, f, i) => acc + Math.exp(-Math.pow((freq - f) / (i === 0 ? 180 : 260), 2)), 0.05);
+
+// Voiced, syllable-like bursts: one per word, with pauses at punctuation
+export const synthesizeMockPcm = (text: string, voice: string): Int16Array => {
+  const baseF0 = 90 + (fnv1a(voice) % 130);
+  const words = text.split(/\s+/).filter(Boolean);
+  const parts: Float32Array[] = [];
+
+  words.forEach((word, w) => {
+    const seed = fnv1a(`${voice}|${w}|${word}`);
+    const formants = VOWEL_FORMANTS[seed % VOWEL_FORMANTS.length];
+    const duration = 0.12 + 0.045 * Math.min(word.length, 9);
+    const length = Math.round(duration * SAMPLE_RATE);
+    const f0 = baseF0 * (0.92 + ((seed >>> 8) % 17) / 100);
+    const harmonics = Math.floor(3500 / f0);
+    const gains = Array.from({ length: harmonics }, (_, k) => formantGain((k + 1) * f0, formants) / (k + 1));
+
+    const syllable = new Float32Array(length);
+    for (let n = 0; n < length; n++) {
+      const t = n / SAMPLE_RATE;
+      const pitch = f0 * (1 + 0.04 * Math.sin((Math.PI * n) / length)); // slight rise and fall
+      let sample = 0;
+      for (let k = 0; k < harmonics; k++) sample += gains[k] * Math.sin(2 * Math.PI * (k + 1) * pitch * t);
+      syllable[n] = sample * Math.sin((Math.PI * n) / length); // soft attack and release
+    }
+    parts.push(syllable);
+
+    const pause = /[.!?]$/.test(word) ? 0.35 : /[,;:]$/.test(word) ? 0.18 : 0.06;
+    parts.push(new Float32Array(Math.round(pause * SAMPLE_RATE)));
+  });
+
+  const total = parts.reduce((acc, p) => acc + p.length, 0);
+  const mix = new Float32Array(total);
+  let offset = 0;
+  let peak = 1e-9;
+  for (const p of parts) {
+    mix.set(p, offset);
+    offset += p.length;
+    for (let i = 0; i < p.length; i++) peak = Math.max(peak, Math.abs(p[i]));
+  }
+
+  const out = new Int16Array(total);
+  for (let i = 0; i < total; i++) out[i] = Math.round((mix[i] / peak) * 0.3 * 0x7FFF);
+  return out;
+};
+
+const pcmToBase64 = (pcm: Int16Array) => arrayBufferToBase64(pcm.buffer.slice(pcm.byteOffset, pcm.byteOffset + pcm.byteLength) as ArrayBuffer);
+
+const abortable = async <T>(signal: AbortSignal | undefined, work: () => T): Promise<T> => {
+  await new Promise(r => setTimeout(r, 30)); // Stay asynchronous like a real request
+  if (signal?.aborted) throw new GeminiError('aborted', 'Request cancelled');
+  return work();
+};
+
+// --- Scripted Live session ---
+
+const MOCK_REPLIES = [
+  "Link established. This is an offline simulation, so my answers are scripted.",
+  "Understood. I would normally think about that, but tonight I am running on synthetic circuits.",
+  "Signal received. Try typing a message or holding the talk button to keep the demo going.",
+  "Copy that. Everything you hear is generated locally, no network required.",
+];
+
+const VAD_THRESHOLD = 0.02;  // RMS of 16-bit mic audio, normalised
+const MIN_SPEECH_MS = 300;
+const END_OF_TURN_SILENCE_MS = 700;
+const OUTPUT_CHUNK_SAMPLES = 2400; // 100ms per audio message
+
+export const connectMockLive = async ({ callbacks, config }: LiveConnectParameters): Promise<LiveSessionHandle> => {
+  const voice = config?.speechConfig?.voiceConfig?.prebuiltVoiceConfig?.voiceName || VoiceName.Kore;
+  const autoActivity = !config?.realtimeInputConfig?.automaticActivityDetection?.disabled;
+  const timers = new Set<ReturnType<typeof setTimeout>>();
+  let closed = false;
+  let turn = 0;
+  let speechMs = 0;
+  let silenceMs = 0;
+  let responding = false;
+
+  const emit = (message: Record<string, unknown>) => {
+    if (!closed) callbacks.onmessage(message as unknown as LiveServerMessage); // Plain object: handlers only read fields
+  };
+
+  const later = (ms: number, fn: () => void) => {
+    const timer = setTimeout(() => { timers.delete(timer); fn(); }, ms);
+    timers.add(timer);
+  };
+
+  const cancelResponse = () => {
+    timers.forEach(clearTimeout);
+    timers.clear();
+    responding = false;
+  };
+
+  // Streams a reply the way the server does: transcript and audio interleaved, then turnComplete
+  const respond = (heard: string | null) => {
+    cancelResponse();
+    responding = true;
+    if (heard) emit({ serverContent: { inputTranscription: { text: heard } } });
+
+    const reply = MOCK_REPLIES[turn++ % MOCK_REPLIES.length];
+    const pcm = synthesizeMockPcm(reply, voice);
+    const words = reply.split(' ');
+    const chunks = Math.ceil(pcm.length / OUTPUT_CHUNK_SAMPLES);
+
+    for (let c = 0; c < chunks; c++) {
+      later(150 + c * 80, () => {
+        const fromWord = Math.floor((c / chunks) * words.length);
+        const toWord = Math.floor(((c + 1) / chunks) * words.length);
+        if (toWord > fromWord) emit({ serverContent: { outputTranscription: { text: words.slice(fromWord, toWord).join(' ') + ' ' } } });
+        const data = pcmToBase64(pcm.subarray(c * OUTPUT_CHUNK_SAMPLES, (c + 1) * OUTPUT_CHUNK_SAMPLES));
+        emit({ serverContent: { modelTurn: { parts: [{ inlineData: { data, mimeType: `audio/pcm;rate=${SAMPLE_RATE}` } }] } } });
+      });
+    }
+    later(150 + chunks * 80, () => {
+      responding = false;
+      emit({ serverContent: { turnComplete: true } });
+    });
+  };
+
+  later(50, () => {
+    callbacks.onopen?.();
+    emit({ sessionResumptionUpdate: { resumable: true, newHandle: `mock-${Date.now()}` } });
+  });
+
+  return {
+    sendRealtimeInput: (params) => {
+      if (params.activityStart) {
+        if (responding) {
+          cancelResponse();
+          emit({ serverContent: { interrupted: true } });
+        }
+        return;
+      }
+      if (params.activityEnd) {
+        respond('(push-to-talk turn)');
+        return;
+      }
+
+      const media = params.media as { data?: string } | undefined;
+      if (!media?.data) return;
+      const pcm = base64ToPcm16(media.data);
+      let energy = 0;
+      for (let i = 0; i < pcm.length; i++) energy += (pcm[i] / 32768) ** 2;
+      const rms = Math.sqrt(energy / Math.max(1, pcm.length));
+      const chunkMs = (pcm.length / 16000) * 1000;
+
+      // Tiny energy VAD standing in for the server's activity detection
+      if (rms > VAD_THRESHOLD) {
+        if (responding && autoActivity) {
+          cancelResponse();
+          emit({ serverContent: { interrupted: true } });
+        }
+        speechMs += chunkMs;
+        silenceMs = 0;
+      } else if (speechMs >= MIN_SPEECH_MS) {
+        silenceMs += chunkMs;
+        if (autoActivity && silenceMs >= END_OF_TURN_SILENCE_MS) {
+          speechMs = 0;
+          silenceMs = 0;
+          respond('(speech detected)');
+        }
+      }
+    },
+    sendClientContent: () => respond(null), // Typed turns already appear in the transcript
+    sendToolResponse: () => {},
+    close: () => {
+      if (closed) return;
+      cancelResponse();
+      closed = true;
+      callbacks.onclose?.({ reason: 'closed' } as CloseEvent);
+    },
+  };
+};
+
+export const mockSpeechProvider: SpeechProvider = {
+  id: 'mock',
+  ttsModel: 'mock-formant-tts',
+  tts: ({ text, voice }, options) => abortable(options?.signal, () => pcmToBase64(synthesizeMockPcm(text, voice))),
+  multiSpeakerTts: ({ text, speakers }, options) => abortable(options?.signal, () => {
+    // Voice whichever speaker the line is attributed to ("Name: ...")
+    const speaker = speakers.find(s => text.includes(`${s.speaker}:`)) || speakers[0];
+    const line = text.split('\n').find(l => l.includes(`${speaker.speaker}:`)) || text;
+    return pcmToBase64(synthesizeMockPcm(line.slice(line.indexOf(':') + 1), speaker.voice));
+  }),
+  analyzeVoice: (sample, options) => abortable(options?.signal, (): VoiceAnalysis => {
+    const seed = fnv1a(sample.data.slice(0, 4096));
+    const voices = [VoiceName.Puck, VoiceName.Charon, VoiceName.Kore, VoiceName.Fenrir, VoiceName.Zephyr];
+    const genders = [Gender.Male, Gender.Female, Gender.Neutral];
+    return {
+      suggestedName: `Specimen ${(seed % 900) + 100}`,
+      baseVoice: voices[seed % voices.length],
+      speed: 0.9 + (seed % 5) * 0.05,
+      pitch: ((seed >>> 4) % 9) * 50 - 200,
+      description: 'Offline analysis placeholder derived from the recording.',
+      systemInstruction: 'You are a synthetic persona created from a voice sample. Be concise and friendly.',
+      gender: genders[(seed >>> 8) % genders.length],
+    };
+  }),
+  liveConnect: connectMockLive,
+};
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { oggCrc, oggStream, opusHead, opusTags } from './ogg';
+
+interface Page { flags: number; granule: number; sequence: number; lacing: number[]; body: Uint8Array; crcOk: boolean }
+
+const readPages = (stream: Uint8Array): Page[] => {
+  const pages: Page[] = [];
+  for (let offset = 0; offset < stream.length;) {
+    const view = new DataView(stream.buffer, stream.byteOffset + offset);
+    expect(new TextDecoder().decode(stream.subarray(offset, offset + 4))).toBe('OggS');
+    const count = stream[offset + 26];
+    const lacing = Array.from(stream.subarray(offset + 27, offset + 27 + count));
+    const size = 27 + count + lacing.reduce((a, b) => a + b, 0);
+    const page = stream.slice(offset, offset + size);
+    const crc = view.getUint32(22, true);
+    new DataView(page.buffer).setUint32(22, 0, true);
+    pages.push({
+      flags: stream[offset + 5],
+      granule: view.getInt32(6, true),
+      sequence: view.getUint32(18, true),
+      lacing,
+      body: stream.subarray(offset + 27 + count, offset + size),
+      crcOk: oggCrc(page) === crc,
+    });
+    offset += size;
+  }
+  return pages;
+};
+
+const packet = (length: number, granule: number) => ({ data: new Uint8Array(length).fill(length & 0xff), granule });
+
+describe('oggCrc', () => {
+  it('matches the Ogg check value', () => {
+    expect(oggCrc(new TextEncoder().encode('123456789'))).toBe(0x89a1897f);
+  });
+});
+
+describe('oggStream', () => {
+  it('starts each group on a new page and flags the first and last', () => {
+    const pages = readPages(oggStream([[packet(19, 0)], [packet(30, 0)], [packet(100, 960), packet(80, 1920)]], 7));
+    expect(pages.map(page => page.flags)).toEqual([0x02, 0, 0x04]);
+    expect(pages.map(page => page.sequence)).toEqual([0, 1, 2]);
+    expect(pages[2].lacing).toEqual([100, 80]);
+    expect(pages[2].granule).toBe(1920);
+    expect(pages.every(page => page.crcOk)).toBe(true);
+  });
+
+  it('laces large packets across pages as continuations', () => {
+    const pages = readPages(oggStream([[packet(70000, 0)], [packet(255, 960)]], 7));
+    expect(pages).toHaveLength(3);
+    expect(pages[0].lacing).toHaveLength(255);
+    expect(pages[0].granule).toBe(-1); // Nothing finishes on the first page
+    expect(pages[1].flags & 0x01).toBe(0x01);
+    expect(pages[0].body.length + pages[1].body.length).toBe(70000);
+    expect(pages[1].granule).toBe(0);
+    // A packet of exactly 255 bytes needs a closing zero-length segment
+    expect(pages[2].lacing).toEqual([255, 0]);
+    expect(pages[2].flags).toBe(0x04);
+  });
+
+  it('splits long runs of small packets into pages of a few KB', () => {
+    const audio = Array.from({ length: 200 }, (_, i) => packet(160, (i + 1) * 960));
+    const pages = readPages(oggStream([audio], 7));
+    expect(pages.length).toBeGreaterThan(5);
+    expect(pages.every(page => page.body.length < 5000)).toBe(true);
+    expect(pages[pages.length - 1].granule).toBe(200 * 960);
+  });
+});
+
+describe('opus headers', () => {
+  it('writes OpusHead and OpusTags', () => {
+    const head = opusHead(2, 312, 24000);
+    const view = new DataView(head.buffer);
+    expect(new TextDecoder().decode(head.subarray(0, 8))).toBe('OpusHead');
+    expect([head[8], head[9], view.getUint16(10, true), view.getUint32(12, true)]).toEqual([1, 2, 312, 24000]);
+    expect(head.length).toBe(19);
+
+    const tags = new TextDecoder().decode(opusTags({ title: 'Pilot', cover: { mimeType: 'image/png', data: new Uint8Array(4) } }));
+    expect(tags.startsWith('OpusTags')).toBe(true);
+    expect(tags).toContain('TITLE=Pilot');
+    expect(tags).toContain('METADATA_BLOCK_PICTURE=');
+  });
+});
@@ -0,0 +1,167 @@
+import { AudioMetadata, concatBytes, pictureCommentField, vorbisComment, vorbisCommentFields } from './tags';
+
+// Ogg Opus: the container, its two header packets and encoding through WebCodecs
+
+const OPUS_SAMPLE_RATE = 48000;
+const DEFAULT_PRE_SKIP = 312; // libopus lookahead at 48kHz, used when the encoder doesn't report one
+const PAGE_TARGET_BYTES = 4096;
+const VENDOR = 'NeonVoice';
+
+const CRC_TABLE = new Uint32Array(256).map((_, i) => {
+  let crc = i << 24;
+  for (let bit = 0; bit < 8; bit++) crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+  return crc >>> 0;
+});
+
+export const oggCrc = (bytes: Uint8Array): number => {
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ bytes[i]) & 0xff]) >>> 0;
+  return crc;
+};
+
+export interface OggPacket {
+  data: Uint8Array;
+  granule: number; // Position after the packet; header packets use 0
+}
+
+const writePage = (flags: number, granule: number, serial: number, sequence: number, lacing: number[], body: Uint8Array[]) => {
+  const header = new Uint8Array(27 + lacing.length);
+  const view = new DataView(header.buffer);
+  header.set([0x4f, 0x67, 0x67, 0x53]); // "OggS"
+  view.setUint8(5, flags);
+  // -1 marks a page where no packet finishes
+  view.setUint32(6, granule < 0 ? 0xffffffff : granule % 2 ** 32, true);
+  view.setUint32(10, granule < 0 ? 0xffffffff : Math.floor(granule / 2 ** 32), true);
+  view.setUint32(14, serial, true);
+  view.setUint32(18, sequence, true);
+  view.setUint8(26, lacing.length);
+  header.set(lacing, 27);
+  const page = concatBytes([header, ...body]);
+  new DataView(page.buffer).setUint32(22, oggCrc(page), true);
+  return page;
+};
+
+// Lays packets out in pages. Each group starts on a fresh page, which is how Opus wants its
+// header packets; the first page is flagged beginning-of-stream and the last end-of-stream.
+export const oggStream = (groups: OggPacket[][], serial: number): Uint8Array => {
+  const pages: Uint8Array[] = [];
+  let lacing: number[] = [];
+  let body: Uint8Array[] = [];
+  let bodyBytes = 0;
+  let granule = -1;
+  let continued = false;
+
+  const flush = (last = false) => {
+    const flags = (continued ? 0x01 : 0) | (pages.length === 0 ? 0x02 : 0) | (last ? 0x04 : 0);
+    pages.push(writePage(flags, granule, serial, pages.length, lacing, body));
+    lacing = [];
+    body = [];
+    bodyBytes = 0;
+    granule = -1;
+    continued = false;
+  };
+
+  groups.forEach((packets, g) => {
+    packets.forEach(packet => {
+      if (bodyBytes >= PAGE_TARGET_BYTES) flush();
+      // A packet is a run of 255-byte segments closed by a shorter one (possibly empty)
+      for (let offset = 0; ;) {
+        if (lacing.length === 255) {
+          flush();
+          continued = offset > 0;
+        }
+        const size = Math.min(255, packet.data.length - offset);
+        lacing.push(size);
+        body.push(packet.data.subarray(offset, offset + size));
+        bodyBytes += size;
+        offset += size;
+        if (size < 255) break;
+      }
+      granule = packet.granule;
+    });
+    const last = g === groups.length - 1;
+    if (lacing.length > 0 || last) flush(last);
+  });
+  return concatBytes(pages);
+};
+
+// Identification header (RFC 7845 section 5.1), channel mapping family 0
+export const opusHead = (channels: number, preSkip: number, inputSampleRate: number): Uint8Array => {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(new TextEncoder().encode('OpusHead'));
+  view.setUint8(8, 1);
+  view.setUint8(9, channels);
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, inputSampleRate, true);
+  return head;
+};
+
+// Comment header; cover art travels as a base64 FLAC picture block
+export const opusTags = (metadata: AudioMetadata): Uint8Array => concatBytes([
+  new TextEncoder().encode('OpusTags'),
+  vorbisComment(VENDOR, [...vorbisCommentFields(metadata), ...(metadata.cover ? [pictureCommentField(metadata.cover)] : [])]),
+]);
+
+// Encodes 48kHz float channels to an .opus file with the browser's WebCodecs Opus encoder
+export const encodeOggOpus = async (channels: Float32Array[], bitrateKbps: number, metadata: AudioMetadata = {}, inputSampleRate = OPUS_SAMPLE_RATE): Promise<Uint8Array> => {
+  const config: AudioEncoderConfig = { codec: 'opus', sampleRate: OPUS_SAMPLE_RATE, numberOfChannels: channels.length, bitrate: bitrateKbps * 1000 };
+  if (typeof AudioEncoder === 'undefined' || !(await AudioEncoder.isConfigSupported(config)).supported) {
+    throw new Error('This browser cannot encode Opus. Try Chrome or Edge, or export MP3 instead.');
+  }
+
+  const packets: { data: Uint8Array; samples: number }[] = [];
+  let preSkip = DEFAULT_PRE_SKIP;
+  let failure: unknown = null;
+  const encoder = new AudioEncoder({
+    output: (chunk, meta) => {
+      // Some encoders hand over their own OpusHead, which has the real pre-skip
+      const description = meta?.decoderConfig?.description;
+      if (description && description.byteLength >= 12) {
+        const head = ArrayBuffer.isView(description)
+          ? new Uint8Array(description.buffer, description.byteOffset, description.byteLength)
+          : new Uint8Array(description);
+        if (new TextDecoder().decode(head.subarray(0, 8)) === 'OpusHead') preSkip = head[10] | (head[11] << 8);
+      }
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      packets.push({ data, samples: Math.round(((chunk.duration ?? 20000) * OPUS_SAMPLE_RATE) / 1e6) });
+    },
+    error: e => { failure = e; },
+  });
+  encoder.configure(config);
+
+  const length = channels[0]?.length ?? 0;
+  for (let start = 0; start < length; start += OPUS_SAMPLE_RATE) {
+    const frames = Math.min(OPUS_SAMPLE_RATE, length - start);
+    const planar = new Float32Array(frames * channels.length);
+    channels.forEach((channel, c) => planar.set(channel.subarray(start, start + frames), c * frames));
+    const data = new AudioData({
+      format: 'f32-planar',
+      sampleRate: OPUS_SAMPLE_RATE,
+      numberOfFrames: frames,
+      numberOfChannels: channels.length,
+      timestamp: Math.round((start / OPUS_SAMPLE_RATE) * 1e6),
+      data: planar,
+    });
+    encoder.encode(data);
+    data.close();
+  }
+  await encoder.flush();
+  encoder.close();
+  if (failure) throw failure;
+
+  // Granule positions count decoded 48kHz samples, pre-skip included (the encoder's output
+  // already starts with it); the last one cuts the final frame's padding
+  let position = 0;
+  const audio = packets.map(packet => {
+    position += packet.samples;
+    return { data: packet.data, granule: Math.min(position, preSkip + length) };
+  });
+  const serial = crypto.getRandomValues(new Uint32Array(1))[0];
+  return oggStream([
+    [{ data: opusHead(channels.length, preSkip, inputSampleRate), granule: 0 }],
+    [{ data: opusTags(metadata), granule: 0 }],
+    audio,
+  ], serial);
+};
@@ -0,0 +1,216 @@
+import { describe, expect, it } from 'vitest';
+import { CastMember } from '../types';
+import { matchSpeaker, parseScript, pauseLineMs, tokenizeScript } from './script';
+
+const member = (name: string, voiceId = name.toLowerCase()): CastMember => ({ id: `cast-${voiceId}`, name, voiceId });
+const cast = [member('Narrator'), member('Alice'), member('Bob')];
+
+const spoken = (text: string, members = cast) => parseScript(text, members).turns.map(t => [t.voiceId, t.text]);
+
+describe('parseScript', () => {
+  it('assigns named lines to their speaker', () => {
+    expect(parseScript('Alice: Hello.\nBob: Hi there.', cast).turns).toEqual([
+      { castId: 'cast-alice', voiceId: 'alice', text: 'Hello.', sourceLine: 'Alice: Hello.' },
+      { castId: 'cast-bob', voiceId: 'bob', text: 'Hi there.', sourceLine: 'Bob: Hi there.' },
+    ]);
+  });
+
+  it('matches names case-insensitively with loose spacing around the colon', () => {
+    expect(spoken('alice:Hello\n  BOB  :   Hi  ')).toEqual([['alice', 'Hello'], ['bob', 'Hi']]);
+  });
+
+  it('gives untagged text outside a turn to the first cast member', () => {
+    expect(spoken('The door creaks open.\n\nAlice: Hello?\n\nNobody answers.')).toEqual([
+      ['narrator', 'The door creaks open.'],
+      ['alice', 'Hello?'],
+      ['narrator', 'Nobody answers.'],
+    ]);
+  });
+
+  it('continues a turn across lines until a blank line or the next speaker', () => {
+    const { turns } = parseScript('Alice: It was late.\nThe wind was howling.\nBob: Go on.\nPlease.\n\nSilence.', cast);
+    expect(turns.map(t => [t.voiceId, t.text])).toEqual([
+      ['alice', 'It was late. The wind was howling.'],
+      ['bob', 'Go on. Please.'],
+      ['narrator', 'Silence.'],
+    ]);
+    expect(turns[0].sourceLine).toBe('Alice: It was late.\nThe wind was howling.');
+  });
+
+  it('skips blank lines and speakers with nothing to say', () => {
+    const { turns } = parseScript('\n   \nAlice:\nBob:   \nAlice: Still here.\n\n', cast);
+    expect(turns).toHaveLength(1);
+    expect(turns[0].text).toBe('Still here.');
+  });
+
+  it('returns nothing without a cast', () => {
+    expect(parseScript('Alice: Hello.', [])).toEqual({ turns: [], warnings: [] });
+  });
+
+  it('treats regex metacharacters in names literally', () => {
+    const special = [member('Narrator'), member('Dr. (Evil)', 'evil'), member('C++', 'cpp')];
+    expect(spoken('Dr. (Evil): One million dollars.\nC++: Segfault.\n\nDrX (Evil) said nothing.', special)).toEqual([
+      ['evil', 'One million dollars.'],
+      ['cpp', 'Segfault.'],
+      ['narrator', 'DrX (Evil) said nothing.'],
+    ]);
+  });
+
+  it('does not confuse names that share a prefix', () => {
+    const prefixed = [member('Narrator'), member('Ann'), member('Anna')];
+    expect(spoken('Anna: First.\nAnn: Second.', prefixed).map(([voice]) => voice)).toEqual(['anna', 'ann']);
+  });
+});
+
+describe('directives', () => {
+  it('reads pauses in seconds and milliseconds before the next turn', () => {
+    const { turns } = parseScript('Alice: One.\n\n[pause 2s]\n\nBob: Two.\n[pause 250ms]\nThree.\n\n[pause]\nFour.', cast);
+    expect(turns.map(t => [t.text, t.pauseBeforeMs])).toEqual([
+      ['One.', undefined],
+      ['Two.', 2000],
+      ['Three.', 250],
+      ['Four.', 1000],
+    ]);
+    expect(turns[2].voiceId).toBe('bob');
+  });
+
+  it('splits a line at an inline pause and keeps the speaker', () => {
+    const { turns } = parseScript('Alice: Wait for it... [pause 1.5s] now!', cast);
+    expect(turns).toEqual([
+      { castId: 'cast-alice', voiceId: 'alice', text: 'Wait for it...', sourceLine: 'Alice: Wait for it...' },
+      { castId: 'cast-alice', voiceId: 'alice', text: 'now!', sourceLine: '[pause 1500ms]\nAlice: now!', pauseBeforeMs: 1500 },
+    ]);
+  });
+
+  it('takes directions from the tag, the start of a turn or a line of their own', () => {
+    const { turns } = parseScript('Alice (whispering): Over here.\n\nBob: (shouting) What?\n(calmer)\nNever mind.\n\n(softly)\nThe end.', cast);
+    expect(turns.map(t => [t.voiceId, t.direction, t.text])).toEqual([
+      ['alice', 'whispering', 'Over here.'],
+      ['bob', 'shouting', 'What?'],
+      ['bob', 'calmer', 'Never mind.'],
+      ['narrator', 'softly', 'The end.'],
+    ]);
+  });
+
+  it('reads bracket style tags anywhere in a turn', () => {
+    const { turns } = parseScript('Alice (whispering): [excited] Guess what? [sad] Never mind.\n\n[nervous]\nBob: Oh.\n\nAlice: [note: door] Hm.', cast);
+    expect(turns.map(t => [t.voiceId, t.direction, t.text])).toEqual([
+      ['alice', 'whispering, excited', 'Guess what?'],
+      ['alice', 'sad', 'Never mind.'],
+      ['bob', 'nervous', 'Oh.'],
+      ['alice', undefined, '[note: door] Hm.'],
+    ]);
+  });
+
+  it('marks the first turn under a heading with its chapter', () => {
+    const { turns } = parseScript('# Chapter One\nAlice: Hi.\nBob: Hey.\n\n## The Storm\n\nRain fell.', cast);
+    expect(turns.map(t => [t.text, t.chapter])).toEqual([
+      ['Hi.', 'Chapter One'],
+      ['Hey.', undefined],
+      ['Rain fell.', 'The Storm'],
+    ]);
+    expect(turns[0].sourceLine).toBe('# Chapter One\nAlice: Hi.');
+  });
+
+  it('writes split turns back in a form that parses the same', () => {
+    const { turns } = parseScript('# Act I\nBob (tired): Hello. [pause 2s] (brighter) Oh, it is you!', cast);
+    const rewritten = turns.map(t => t.sourceLine).join('\n\n');
+    expect(parseScript(rewritten, cast).turns).toEqual(turns);
+  });
+
+  it('takes sfx cues out of the spoken text and plays them where the next turn starts', () => {
+    const { turns } = parseScript('Alice: Hello? [sfx: door_creak] Who is it?\n\n[sfx: thunder]\n[pause 2s] [sfx: rain]\nBob: Yikes.', cast);
+    expect(turns.map(t => [t.text, t.pauseBeforeMs, t.sfx])).toEqual([
+      ['Hello?', undefined, undefined],
+      ['Who is it?', undefined, [{ name: 'door_creak' }]],
+      ['Yikes.', 2000, [{ name: 'thunder' }, { name: 'rain', offsetMs: 2000 }]],
+    ]);
+  });
+
+  it('writes cues back between the pauses they were written between', () => {
+    const { turns } = parseScript('Bob: Hi [sfx: boom] [pause 1s] [sfx: echo] there', cast);
+    expect(turns[1].sourceLine).toBe('[sfx: boom]\n[pause 1s]\n[sfx: echo]\nBob: there');
+    expect(parseScript(turns.map(t => t.sourceLine).join('\n\n'), cast).turns).toEqual(turns);
+  });
+});
+
+describe('warnings', () => {
+  it('reports unknown speakers and reads their lines with the first cast member', () => {
+    const { turns, warnings } = parseScript('Alice: Who is there?\nCarol: Just me.\nAt 10:30 the bell rang.', cast);
+    expect(warnings).toEqual([{ line: 2, message: 'Unknown speaker "Carol", read by Narrator' }]);
+    expect(turns.map(t => [t.voiceId, t.text])).toEqual([
+      ['alice', 'Who is there?'],
+      ['narrator', 'Carol: Just me. At 10:30 the bell rang.'],
+    ]);
+  });
+
+  it('reports directives left at the end of the script', () => {
+    expect(parseScript('Alice: Bye.\n\n[pause 3s]', cast).warnings).toEqual([
+      { line: 3, message: 'Directive at the end of the script has no line to apply to' },
+    ]);
+    expect(parseScript('Alice: Bye. [sfx: slam]', cast).warnings).toHaveLength(1);
+  });
+
+  it('keeps the lines after the last turn so a reorder can write them back', () => {
+    const { turns, trailing } = parseScript('Alice: Hi.\n\nBob: Hi.\n\n# Epilogue\n[sfx: applause]', cast);
+    expect(trailing).toBe('# Epilogue\n[sfx: applause]');
+    expect(turns.map(t => t.sourceLine)).toEqual(['Alice: Hi.', 'Bob: Hi.']);
+    expect(parseScript('Alice: Bye. [sfx: slam]', cast).trailing).toBeUndefined();
+  });
+});
+
+describe('pauseLineMs', () => {
+  it('adds up lines made only of pauses', () => {
+    expect(pauseLineMs('[pause 2s]')).toBe(2000);
+    expect(pauseLineMs('  [pause 500ms] [pause 1s] ')).toBe(1500);
+  });
+
+  it('ignores lines with anything else on them', () => {
+    expect(pauseLineMs('Host: [pause 2s]')).toBeNull();
+    expect(pauseLineMs('')).toBeNull();
+  });
+});
+
+describe('matchSpeaker', () => {
+  it('returns the index of the matching name and the remaining text', () => {
+    expect(matchSpeaker('Guest: Thanks for having me', ['Host', 'Guest'])).toEqual({ index: 1, text: 'Thanks for having me', direction: undefined });
+    expect(matchSpeaker('Guest (laughing): Sure', ['Guest'])).toEqual({ index: 0, text: 'Sure', direction: 'laughing' });
+  });
+
+  it('ignores blank names and unknown speakers', () => {
+    expect(matchSpeaker(': hello', ['', '  '])).toBeNull();
+    expect(matchSpeaker('Stranger: hello', ['Host'])).toBeNull();
+  });
+});
+
+describe('tokenizeScript', () => {
+  it('splits tags, directives and headings into highlightable runs', () => {
+    const script = '# One\nAlice (sad): Hi [pause 1s] [excited] there [sfx: bell]\n  (softly) Carol: no\nCarol: who?';
+    const tokens = tokenizeScript(script, cast);
+    expect(tokens.map(t => t.text).join('')).toBe(script);
+    expect(tokens.filter(t => t.kind !== 'text').map(t => [t.kind, t.text])).toEqual([
+      ['heading', '# One'],
+      ['speaker', 'Alice '],
+      ['direction', '(sad)'],
+      ['speaker', ': '],
+      ['pause', '[pause 1s]'],
+      ['direction', '[excited]'],
+      ['sfx', '[sfx: bell]'],
+      ['direction', '(softly)'],
+      ['unknown', 'Carol:'],
+    ]);
+    expect(tokens.find(t => t.kind === 'speaker')?.castId).toBe('cast-alice');
+  });
+
+  it('tags every run with the cast member whose turn it belongs to', () => {
+    const tokens = tokenizeScript('Bob: Hi\nstill Bob\n\nNarration\n# Heading', cast);
+    expect(tokens.map(t => [t.text, t.castId])).toEqual([
+      ['Bob', 'cast-bob'],
+      [': ', 'cast-bob'],
+      ['Hi\nstill Bob\n', 'cast-bob'],
+      ['\n', undefined],
+      ['Narration\n', 'cast-narrator'],
+      ['# Heading', undefined],
+    ]);
+  });
+});
@@ -0,0 +1,402 @@
+import { CastMember, SfxCue } from '../types';
+
+// One turn of a Story script resolved to the voice that reads it
+export interface ScriptTurn {
+  castId: string;
+  voiceId: string;
+  text: string;
+  sourceLine: string;     // Script snippet that parses back to this turn; used to rewrite the script on reorder
+  direction?: string;     // Delivery note from "(whispering)" or "[excited]"
+  pauseBeforeMs?: number; // Silence requested with [pause] ahead of the turn
+  chapter?: string;       // Set on the first turn under a "# Chapter" heading
+  sfx?: SfxCue[];         // [sfx: name] cues ahead of or inside the turn
+}
+
+export interface ScriptWarning {
+  line: number; // 1-based
+  message: string;
+}
+
+export interface ParsedScript {
+  turns: ScriptTurn[];
+  warnings: ScriptWarning[];
+  trailing?: string; // Headings and directives after the last turn, which no sourceLine carries
+}
+
+export const DEFAULT_PAUSE_MS = 1000;
+
+const PAUSE_PATTERN = /\[pause(?:\s*:?\s*(\d+(?:\.\d+)?)\s*(ms|s)?)?\s*\]/i;
+const HEADING_PATTERN = /^#+\s*(.*)$/;
+const LEADING_DIRECTION_PATTERN = /^\(([^()]*)\)\s*/;
+// "[excited]" anywhere in a line; bracket tags with a colon ("[sfx: door]") are not styles
+const STYLE_TAG_PATTERN = /\[(?!pause\b)([^[\]:]+)\]/i;
+const SFX_PATTERN = /\[sfx\s*:\s*([^[\]]*)\]/i;
+const DIRECTIVE_PATTERN = new RegExp(`${PAUSE_PATTERN.source}|${STYLE_TAG_PATTERN.source}|${SFX_PATTERN.source}`, 'i');
+// Pauses and cues on a line outside a turn, in the order they were written
+const LEAD_IN_PATTERN = new RegExp(`${PAUSE_PATTERN.source}|${SFX_PATTERN.source}`, 'gi');
+const LONE_DIRECTION_PATTERN = /^(?:\(([^()]*)\)|\[(?!pause\b)([^[\]:]+)\])$/i;
+// Looks like "Name: ..." or "Name (aside): ..." but with a name nobody in the cast has.
+// Times ("At 10:30") and URLs are left alone.
+const SPEAKER_TAG_PATTERN = /^([A-Z][\w.'’-]*(?: [\w.'’-]+){0,2})\s*(?:\([^()]*\))?\s*:\s*(?!\/\/)(?!\d)\S/;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const parsePauseMs = (match: RegExpMatchArray) => {
+  if (!match[1]) return DEFAULT_PAUSE_MS;
+  const amount = Number(match[1]);
+  return Math.round(match[2]?.toLowerCase() === 'ms' ? amount : amount * 1000);
+};
+
+// Total length of a line made only of [pause] directives, or null for any other line
+export const pauseLineMs = (line: string): number | null => {
+  const pauses = new RegExp(PAUSE_PATTERN.source, 'gi');
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.replace(pauses, '').trim()) return null;
+  return Array.from(trimmed.matchAll(pauses), parsePauseMs).reduce((sum, ms) => sum + ms, 0);
+};
+
+export const formatPause = (ms: number) => (ms % 1000 === 0 ? `${ms / 1000}s` : `${ms}ms`);
+
+// offsetMs is how much of the turn's pause was written ahead of the cue
+const addCue = (cues: SfxCue[], name: string, offsetMs: number) => {
+  const trimmed = name.trim();
+  if (trimmed) cues.push(offsetMs ? { name: trimmed, offsetMs } : { name: trimmed });
+};
+
+// Name in a line shaped like "Name: ..." whether or not it belongs to the cast
+export const speakerTagOf = (line: string): string | null => line.trim().match(SPEAKER_TAG_PATTERN)?.[1] ?? null;
+
+// Finds the speaker a "Name: text" line belongs to. Case insensitive with flexible spacing
+// around the colon; names are matched literally, so "Dr. (Evil)" or "C++" are safe.
+// A parenthetical between name and colon ("Name (whispering): ...") comes back as direction.
+export const matchSpeaker = (line: string, names: string[]): { index: number; text: string; direction?: string } | null => {
+  const match = matchSpeakerTag(line, names);
+  return match && { index: match.index, text: match.text.trim(), direction: match.direction?.trim() || undefined };
+};
+
+// Same as matchSpeaker, but keeps the raw tag ("Name (aside): ") so it can be highlighted
+const matchSpeakerTag = (line: string, names: string[]) => {
+  for (let index = 0; index < names.length; index++) {
+    const name = names[index].trim();
+    if (!name) continue;
+    const match = line.match(new RegExp(`^(${escapeRegExp(name)}\\s*)(?:(\\([^()]*\\))\\s*)?:\\s*`, 'i'));
+    if (match) {
+      return {
+        index,
+        name: match[1],
+        parenthetical: match[2],
+        tag: match[0],
+        direction: match[2]?.slice(1, -1),
+        text: line.slice(match[0].length),
+      };
+    }
+  }
+  return null;
+};
+
+interface OpenTurn {
+  castIndex: number;
+  tagged: boolean;
+  direction?: string;
+  directionSpoken: boolean; // Direction already went out with an emitted turn
+  pauseBeforeMs?: number;
+  chapter?: string;
+  sfx: SfxCue[];
+  text: string[];
+}
+
+// Turns a script into voiced turns.
+// - "Name: text" starts a turn for that cast member; untagged lines continue the current
+//   turn and a blank line ends it. Untagged text outside a turn is narration for cast[0].
+// - "[pause 2s]", "[pause 500ms]" or "[pause]" add silence before what follows; inside a
+//   line they split the turn in two.
+// - "(whispering)" after the name, at the start of a turn or on its own line, and "[excited]"
+//   anywhere, set the direction. Tags ahead of any text add up; later ones replace it.
+// - "# Heading" marks a chapter on the next turn.
+// - "[sfx: door_creak]" cues a sound effect where the next turn starts; inside a line it
+//   splits the turn like a pause does.
+// - Lines tagged with a name outside the cast are read by cast[0] and reported as warnings.
+export const parseScript = (text: string, cast: CastMember[]): ParsedScript => {
+  const turns: ScriptTurn[] = [];
+  const warnings: ScriptWarning[] = [];
+  if (cast.length === 0) return { turns, warnings };
+  const names = cast.map(member => member.name);
+
+  let current: OpenTurn | null = null;
+  // Raw lines of the block being read, including headings and pauses ahead of it
+  let blockLines: string[] = [];
+  let blockStart = 0;
+  // Directives seen outside a turn, waiting for the next one
+  let pending: { pauseMs: number; chapter?: string; direction?: string; sfx: SfxCue[]; line: number } = { pauseMs: 0, sfx: [], line: 0 };
+
+  const emit = (turn: OpenTurn) => {
+    const spoken = turn.text.join(' ').replace(/\s+/g, ' ').trim();
+    turn.text = [];
+    // Directives without text stay on the open turn for whatever follows
+    if (!spoken) return;
+    turns.push({
+      castId: cast[turn.castIndex].id,
+      voiceId: cast[turn.castIndex].voiceId,
+      text: spoken,
+      sourceLine: '',
+      ...(turn.direction ? { direction: turn.direction } : {}),
+      ...(turn.pauseBeforeMs ? { pauseBeforeMs: turn.pauseBeforeMs } : {}),
+      ...(turn.chapter ? { chapter: turn.chapter } : {}),
+      ...(turn.sfx.length ? { sfx: turn.sfx } : {}),
+    });
+    turn.directionSpoken = true;
+    turn.pauseBeforeMs = undefined;
+    turn.chapter = undefined;
+    turn.sfx = [];
+  };
+
+  const setDirection = (turn: OpenTurn, value: string) => {
+    const hadText = turn.text.some(part => part.trim());
+    emit(turn);
+    const direction = value.trim() || undefined;
+    turn.direction = hadText || turn.directionSpoken || !direction
+      ? direction
+      : [turn.direction, direction].filter(Boolean).join(', ');
+    turn.directionSpoken = false;
+  };
+
+  const open = (castIndex: number, tagged: boolean, direction?: string): OpenTurn => {
+    const turn: OpenTurn = {
+      castIndex,
+      tagged,
+      direction: [pending.direction, direction].filter(Boolean).join(', ') || undefined,
+      directionSpoken: false,
+      pauseBeforeMs: pending.pauseMs || undefined,
+      chapter: pending.chapter,
+      sfx: pending.sfx,
+      text: [],
+    };
+    pending = { pauseMs: 0, sfx: [], line: 0 };
+    return turn;
+  };
+
+  // Reads text belonging to the open turn, splitting it at directives
+  const consume = (turn: OpenTurn, content: string) => {
+    let rest = content.trim();
+    while (rest) {
+      const leading = rest.match(LEADING_DIRECTION_PATTERN);
+      if (leading) {
+        setDirection(turn, leading[1]);
+        rest = rest.slice(leading[0].length);
+        continue;
+      }
+      const directive = rest.match(DIRECTIVE_PATTERN);
+      if (!directive || directive.index === undefined) {
+        turn.text.push(rest);
+        return;
+      }
+      turn.text.push(rest.slice(0, directive.index));
+      if (directive[3] !== undefined) {
+        setDirection(turn, directive[3]);
+      } else if (directive[4] !== undefined) {
+        emit(turn);
+        addCue(turn.sfx, directive[4], turn.pauseBeforeMs || 0);
+      } else {
+        emit(turn);
+        turn.pauseBeforeMs = (turn.pauseBeforeMs || 0) + parsePauseMs(directive);
+      }
+      rest = rest.slice(directive.index + directive[0].length).trim();
+    }
+  };
+
+  // A block that produced a single turn keeps the writer's own formatting for reordering
+  const closeBlock = (line: number) => {
+    if (!current) return;
+    emit(current);
+    if (current.pauseBeforeMs || current.chapter || current.sfx.length) {
+      const shift = pending.pauseMs;
+      pending = {
+        ...pending,
+        pauseMs: pending.pauseMs + (current.pauseBeforeMs || 0),
+        chapter: pending.chapter || current.chapter,
+        sfx: [...pending.sfx, ...(shift ? current.sfx.map(cue => ({ ...cue, offsetMs: (cue.offsetMs || 0) + shift })) : current.sfx)],
+        line,
+      };
+    }
+    const produced = turns.slice(blockStart);
+    if (produced.length === 1) {
+      produced[0].sourceLine = blockLines.join('\n');
+    } else {
+      const speaker = current.tagged ? names[current.castIndex].trim() : null;
+      produced.forEach(turn => { turn.sourceLine = formatTurn(turn, speaker); });
+    }
+    if (produced.length > 0) blockLines = [];
+    blockStart = turns.length;
+    current = null;
+  };
+
+  text.split('\n').forEach((raw, i) => {
+    const lineNumber = i + 1;
+    const line = raw.trim();
+
+    if (!line) {
+      closeBlock(lineNumber);
+      return;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      closeBlock(lineNumber);
+      blockLines.push(line);
+      pending = { ...pending, chapter: heading[1].trim() || undefined, line: lineNumber };
+      return;
+    }
+
+    const speaker = matchSpeaker(line, names);
+    if (speaker) {
+      closeBlock(lineNumber);
+      blockLines.push(line);
+      current = open(speaker.index, true, speaker.direction);
+      consume(current, speaker.text);
+      return;
+    }
+
+    const unknown = speakerTagOf(line);
+    if (unknown) {
+      warnings.push({ line: lineNumber, message: `Unknown speaker "${unknown}", read by ${cast[0].name}` });
+      closeBlock(lineNumber);
+    }
+
+    if (current) {
+      blockLines.push(line);
+      consume(current, line);
+      return;
+    }
+
+    // Outside a turn, lines made only of directives wait for the next turn
+    const leadIns = Array.from(line.matchAll(LEAD_IN_PATTERN));
+    const stripped = line.replace(LEAD_IN_PATTERN, '').trim();
+    const loneDirection = stripped.match(LONE_DIRECTION_PATTERN);
+    if (!stripped || loneDirection) {
+      blockLines.push(line);
+      leadIns.forEach(match => {
+        if (match[3] !== undefined) addCue(pending.sfx, match[3], pending.pauseMs);
+        else pending.pauseMs += parsePauseMs(match);
+      });
+      if (loneDirection) pending.direction = (loneDirection[1] ?? loneDirection[2]).trim() || undefined;
+      pending.line = lineNumber;
+      return;
+    }
+
+    blockLines.push(line);
+    current = open(0, false);
+    consume(current, line);
+  });
+  closeBlock(0);
+
+  if (pending.pauseMs || pending.chapter || pending.direction || pending.sfx.length) {
+    warnings.push({ line: pending.line, message: 'Directive at the end of the script has no line to apply to' });
+  }
+  return blockLines.length ? { turns, warnings, trailing: blockLines.join('\n') } : { turns, warnings };
+};
+
+// Pauses and cues ahead of a turn as directive bodies ("pause 1s", "sfx: door"), with each
+// cue back between the pauses it was written between
+export const leadInDirectives = (turn: Pick<ScriptTurn, 'pauseBeforeMs' | 'sfx'>): string[] => {
+  const directives: string[] = [];
+  const pauseMs = turn.pauseBeforeMs || 0;
+  let at = 0;
+  turn.sfx?.forEach(cue => {
+    const offset = Math.min(cue.offsetMs || 0, pauseMs);
+    if (offset > at) directives.push(`pause ${formatPause(offset - at)}`);
+    at = Math.max(at, offset);
+    directives.push(`sfx: ${cue.name}`);
+  });
+  if (pauseMs > at) directives.push(`pause ${formatPause(pauseMs - at)}`);
+  return directives;
+};
+
+// Writes a turn back as a script snippet that parses to the same turn
+const formatTurn = (turn: ScriptTurn, speaker: string | null): string => {
+  const lines: string[] = [];
+  if (turn.chapter) lines.push(`# ${turn.chapter}`);
+  lines.push(...leadInDirectives(turn).map(directive => `[${directive}]`));
+  const direction = turn.direction ? `(${turn.direction})` : '';
+  lines.push(speaker
+    ? `${speaker}${direction ? ` ${direction}` : ''}: ${turn.text}`
+    : `${direction ? `${direction} ` : ''}${turn.text}`);
+  return lines.join('\n');
+};
+
+export type ScriptTokenKind = 'text' | 'speaker' | 'direction' | 'pause' | 'sfx' | 'heading' | 'unknown';
+
+export interface ScriptToken {
+  kind: ScriptTokenKind;
+  text: string;
+  castId?: string; // Cast member whose turn the run belongs to
+}
+
+// Splits a script into runs for the editor's highlighting; the token texts join back into the input
+export const tokenizeScript = (text: string, cast: CastMember[]): ScriptToken[] => {
+  const tokens: ScriptToken[] = [];
+  const names = cast.map(member => member.name);
+  // Follows the parser's turn rules: tags start a turn, blank lines and headings end it,
+  // untagged text outside a turn is narration
+  let turnCastId: string | undefined;
+  const push = (kind: ScriptTokenKind, value: string, castId = turnCastId) => {
+    if (!value) return;
+    const last = tokens[tokens.length - 1];
+    if (last && last.kind === kind && kind === 'text' && last.castId === castId) last.text += value;
+    else tokens.push(castId ? { kind, text: value, castId } : { kind, text: value });
+  };
+
+  // Text after a tag (or a whole untagged line): directions at the start, pauses, styles and cues anywhere
+  const pushBody = (body: string) => {
+    let rest = body;
+    while (rest) {
+      const leading = rest.match(/^(\s*)(\([^()]*\))/);
+      if (leading) {
+        push('text', leading[1]);
+        push('direction', leading[2]);
+        rest = rest.slice(leading[0].length);
+        continue;
+      }
+      const directive = rest.match(DIRECTIVE_PATTERN);
+      if (!directive || directive.index === undefined) {
+        push('text', rest);
+        return;
+      }
+      push('text', rest.slice(0, directive.index));
+      push(directive[3] !== undefined ? 'direction' : directive[4] !== undefined ? 'sfx' : 'pause', directive[0]);
+      rest = rest.slice(directive.index + directive[0].length);
+    }
+  };
+
+  text.split('\n').forEach((line, i) => {
+    if (i > 0) push('text', '\n');
+    const indent = line.match(/^\s*/)![0];
+    const rest = line.slice(indent.length);
+    if (!rest || HEADING_PATTERN.test(rest)) turnCastId = undefined;
+    push('text', indent);
+
+    if (HEADING_PATTERN.test(rest)) {
+      push('heading', rest);
+      return;
+    }
+
+    const speaker = cast.length ? matchSpeakerTag(rest, names) : null;
+    if (speaker) {
+      turnCastId = cast[speaker.index].id;
+      push('speaker', speaker.name);
+      if (speaker.parenthetical) push('direction', speaker.parenthetical);
+      push('speaker', speaker.tag.slice(speaker.name.length + (speaker.parenthetical?.length ?? 0)));
+      pushBody(speaker.text);
+      return;
+    }
+
+    if (rest && (speakerTagOf(rest) || !turnCastId)) turnCastId = cast[0]?.id;
+    if (speakerTagOf(rest)) {
+      const colon = rest.indexOf(':') + 1;
+      push('unknown', rest.slice(0, colon));
+      pushBody(rest.slice(colon));
+      return;
+    }
+    pushBody(rest);
+  });
+  return tokens;
+};
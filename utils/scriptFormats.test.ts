@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'vitest';
+import { CastMember, Gender, VoiceOption } from '../types';
+import { parseScript } from './script';
+import { castForCharacters, detectScriptFormat, exportFountain, importFountain, importMarkdown, importScript, importSsml } from './scriptFormats';
+
+const member = (name: string, voiceId = name.toLowerCase()): CastMember => ({ id: `cast-${voiceId}`, name, voiceId });
+
+const voice = (id: string, name = id): VoiceOption => ({
+  id, apiId: name, name, gender: Gender.Neutral, description: '', color: '', speed: 1, pitch: 0,
+});
+
+describe('importFountain', () => {
+  const fountain = [
+    'Title: **The Long Night**',
+    'Author: Someone',
+    '',
+    'INT. LIGHTHOUSE - NIGHT #1#',
+    '',
+    'Rain hammers the glass. *Nobody* moves.',
+    '',
+    'ALICE',
+    '(whispering)',
+    'Did you hear that?',
+    '',
+    'DR. EVIL (V.O.)',
+    'One million dollars.',
+    '',
+    '@McGregor',
+    'Aye. [[pause 2s]] It was the wind.',
+    '',
+    'CUT TO:',
+    '',
+    '/* cut scene',
+    'BOB',
+    'Never filmed.',
+    '*/',
+    '# Act Two',
+    '',
+    '> THE END <',
+  ].join('\n');
+
+  it('converts dialogue, action and headings into the Story script', () => {
+    const imported = importFountain(fountain);
+    expect(imported.title).toBe('The Long Night');
+    expect(imported.characters).toEqual(['Alice', 'Dr. Evil', 'McGregor']);
+    expect(imported.text).toBe([
+      '# INT. LIGHTHOUSE - NIGHT',
+      'Rain hammers the glass. Nobody moves.',
+      'Alice: (whispering)\nDid you hear that?',
+      'Dr. Evil: One million dollars.',
+      'McGregor: Aye. [pause 2s] It was the wind.',
+      '# Act Two',
+      'THE END',
+    ].join('\n\n'));
+  });
+
+  it('produces a script the parser reads with the imported cast', () => {
+    const imported = importFountain(fountain);
+    const cast = [member('Narrator'), ...imported.characters.map(name => member(name))];
+    const { turns, warnings } = parseScript(imported.text, cast);
+    expect(warnings).toEqual([]);
+    expect(turns.map(t => [t.voiceId, t.direction, t.text])).toEqual([
+      ['narrator', undefined, 'Rain hammers the glass. Nobody moves.'],
+      ['alice', 'whispering', 'Did you hear that?'],
+      ['dr. evil', undefined, 'One million dollars.'],
+      ['mcgregor', undefined, 'Aye.'],
+      ['mcgregor', undefined, 'It was the wind.'],
+      ['narrator', undefined, 'THE END'],
+    ]);
+  });
+});
+
+describe('exportFountain', () => {
+  const cast = [member('Narrator'), member('Alice'), member('McGregor', 'mcg'), member('Dr. (Evil)', 'evil')];
+  const script = '# Chapter One\nThe fog rolls in.\n\nAlice (nervous): Hello?\n\n[pause 1500ms]\n[sfx: gate]\n\nMcGregor: Who goes there?\n\nDr. (Evil): Me.\n\nNarrator (softly): Silence.\n\nEXIT';
+
+  it('writes cues, parentheticals, sections, pause and sfx notes', () => {
+    expect(exportFountain(script, cast, 'Pilot')).toBe([
+      'Title: Pilot',
+      '# Chapter One',
+      'The fog rolls in.',
+      'ALICE\n(nervous)\nHello?',
+      '[[pause 1500ms]]',
+      '[[sfx: gate]]',
+      '@McGregor\nWho goes there?',
+      '@Dr. (Evil)\nMe.',
+      'NARRATOR\n(softly)\nSilence.',
+      '!EXIT',
+    ].join('\n\n') + '\n');
+  });
+
+  it('round-trips through the importer', () => {
+    const imported = importFountain(exportFountain(script, cast, 'Pilot'));
+    expect(imported.title).toBe('Pilot');
+    expect(imported.characters).toEqual(['Alice', 'McGregor', 'Dr. (Evil)', 'Narrator']);
+    const strip = (turns: ReturnType<typeof parseScript>['turns']) => turns.map(({ sourceLine, ...turn }) => turn);
+    expect(strip(parseScript(imported.text, cast).turns)).toEqual(strip(parseScript(script, cast).turns));
+  });
+});
+
+describe('importSsml', () => {
+  it('maps voices, breaks and prosody onto script lines', () => {
+    const imported = importSsml(`<?xml version="1.0"?>
+      <speak>
+        Once upon a time.
+        <break time="2s"/>
+        <voice name="Alice">Hello <sub alias="Doctor">Dr.</sub> Smith &amp; friends.</voice>
+        <voice name="Bob"><prosody rate="slow" volume="soft">I am tired.</prosody> <break strength="weak"/> Goodnight.</voice>
+        <voice name="alice">Bye!</voice>
+      </speak>`);
+    expect(imported.characters).toEqual(['Alice', 'Bob']);
+    expect(imported.text).toBe([
+      'Once upon a time.',
+      '[pause 2s]\nAlice: Hello Doctor Smith & friends.',
+      'Bob (slowly, softly): I am tired.',
+      '[pause 500ms]\nBob: Goodnight.',
+      'alice: Bye!',
+    ].join('\n\n'));
+  });
+
+  it('turns <audio> clips into sfx cues and drops their fallback text', () => {
+    const imported = importSsml('<speak><audio src="fx/door%20creak.wav">creak</audio><break time="1s"/><audio src="knock.mp3?v=2"/><voice name="Bob">Who?</voice></speak>');
+    expect(imported.text).toBe('[sfx: door creak]\n[pause 1s]\n[sfx: knock]\nBob: Who?');
+  });
+
+  it('falls back to the break strength when the time is empty or unreadable', () => {
+    const imported = importSsml('<speak><break time="" strength="weak"/><break time="soon"/><audio src="knock.wav"/><voice name="Bob">Who?</voice></speak>');
+    expect(imported.text).toBe('[pause 1250ms]\n[sfx: knock]\nBob: Who?');
+  });
+
+  it('treats text outside <voice> as narration', () => {
+    const { turns } = parseScript(importSsml('<speak><prosody pitch="+3st">Rise.</prosody></speak>').text, [member('Narrator')]);
+    expect(turns.map(t => [t.voiceId, t.direction, t.text])).toEqual([['narrator', 'high pitch', 'Rise.']]);
+  });
+});
+
+describe('importMarkdown', () => {
+  it('strips formatting and keeps speaker tags', () => {
+    const imported = importMarkdown('# Scene 1\n\n**Alice:** Look at *that*.\n\n> __Bob__: A [link](http://x).\n\n---\n\n- The end.');
+    expect(imported.text).toBe('# Scene 1\n\nAlice: Look at that.\n\nBob: A link.\n\nThe end.');
+    expect(imported.characters).toEqual(['Alice', 'Bob']);
+  });
+});
+
+describe('importScript', () => {
+  it('picks the importer from the extension and content', () => {
+    expect(detectScriptFormat('a.ssml', 'hi')).toBe('ssml');
+    expect(detectScriptFormat('a.txt', '<speak>hi</speak>')).toBe('ssml');
+    expect(detectScriptFormat('a.fountain', 'Alice: hi')).toBe('fountain');
+    expect(detectScriptFormat('a.md', 'hi')).toBe('markdown');
+    expect(detectScriptFormat('a.txt', 'Alice: Hi.\nBob: Hey.')).toBe('text');
+    expect(detectScriptFormat('a.txt', 'A quiet room.\n\nALICE\nHello?')).toBe('fountain');
+  });
+
+  it('collects speaker tags from plain text', () => {
+    expect(importScript('a.txt', 'Alice: Hi.\nBob: Hey.\nalice: again').characters).toEqual(['Alice', 'Bob']);
+  });
+});
+
+describe('castForCharacters', () => {
+  const voices = [voice('v1', 'Kore'), voice('v2', 'Puck'), voice('v3', 'Fenrir')];
+
+  it('adds missing characters with unused or matching voices', () => {
+    const cast = castForCharacters([member('Narrator', 'v1')], ['narrator', 'Alice', 'Fenrir', 'Bob', 'Carol'], voices);
+    expect(cast.map(c => [c.name, c.voiceId])).toEqual([
+      ['Narrator', 'v1'],
+      ['Alice', 'v2'],
+      ['Fenrir', 'v3'],
+      ['Bob', 'v1'],
+      ['Carol', 'v2'],
+    ]);
+  });
+});
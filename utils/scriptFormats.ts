@@ -0,0 +1,378 @@
+import { CastMember, SfxCue, VoiceOption } from '../types';
+import { nextCastColor } from './cast';
+import { leadInDirectives, parseScript, speakerTagOf } from './script';
+
+export type ScriptFormat = 'fountain' | 'ssml' | 'markdown' | 'text';
+
+// A script converted into the Story editor's "Name: line" form
+export interface ImportedScript {
+  format: ScriptFormat;
+  text: string;
+  characters: string[]; // Every speaker found, in order of first appearance
+  title?: string;
+}
+
+export const SCRIPT_IMPORT_ACCEPT = '.fountain,.spmd,.txt,.md,.markdown,.ssml,.xml';
+
+const uniqueNames = (names: string[]) => {
+  const seen = new Set<string>();
+  return names.filter(name => {
+    const key = name.toLowerCase();
+    if (!name || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+const titleCase = (value: string) => value.toLowerCase().replace(/(^|[\s.'’-])(\p{L})/gu, (_, sep, ch) => sep + ch.toUpperCase());
+
+// Strips *italic*, **bold**, ***both*** and _underline_ markers
+const stripEmphasis = (value: string) =>
+  value.replace(/(\*{1,3}|_)(\S(?:.*?\S)?)\1/g, '$2').replace(/\\([*_])/g, '$1');
+
+// --- Fountain ---
+
+const TITLE_PAGE_KEY = /^(title|credit|authors?|source|draft date|date|contact|copyright|notes|revision)\s*:/i;
+const SCENE_HEADING = /^(?:\.(?!\.)|(?:INT|EXT|EST|INT\.?\/EXT|I\/E)[.\s])/i;
+const TRANSITION = /^(?:>(?!.*<\s*$).*|[^a-z]*TO:)$/;
+const CUE_EXTENSION = /\s*\((?:V\.O\.|O\.S\.|O\.C\.|CONT['’]D)\)\s*$/i;
+
+const looksLikeCue = (line: string, next: string | undefined) =>
+  !!next?.trim() && (line.startsWith('@') || (/\p{Lu}/u.test(line) && !/\p{Ll}/u.test(line.replace(/\(.*\)/g, ''))));
+
+// Uppercase cues come back title-cased; forced "@" cues keep the name exactly as written
+const cueName = (cue: string) => {
+  const bare = cue.replace(/\s*\^$/, '');
+  if (bare.startsWith('@')) return bare.slice(1).replace(CUE_EXTENSION, '').trim();
+  return titleCase(bare.replace(/\s*\([^()]*\)\s*$/, '').trim());
+};
+
+export const importFountain = (content: string): ImportedScript => {
+  const source = content
+    .replace(/\r\n?/g, '\n')
+    .replace(/\/\*[\s\S]*?\*\//g, '')
+    // Notes are dropped, except pauses and sfx cues written by exportFountain
+    .replace(/\[\[\s*((?:pause|sfx\s*:)[^\]]*)\]\]/gi, '[$1]')
+    .replace(/\[\[[\s\S]*?\]\]/g, '');
+  const lines = source.split('\n');
+  const blocks: string[] = [];
+  const characters: string[] = [];
+  let title: string | undefined;
+  let i = 0;
+
+  const firstLine = lines.findIndex(line => line.trim());
+  if (firstLine !== -1 && TITLE_PAGE_KEY.test(lines[firstLine].trim())) {
+    for (i = firstLine; i < lines.length && lines[i].trim(); i++) {
+      const match = lines[i].trim().match(/^title\s*:\s*(.*)$/i);
+      if (match) title = stripEmphasis(match[1].trim() || lines[i + 1]?.trim() || '') || undefined;
+    }
+  }
+
+  while (i < lines.length) {
+    const line = lines[i].trim();
+    if (!line || /^={3,}$/.test(line) || /^=(?!=)/.test(line)) {
+      i++;
+      continue;
+    }
+
+    const next = lines[i + 1];
+    if (line.startsWith('#')) {
+      blocks.push(`# ${stripEmphasis(line.replace(/^#+\s*/, ''))}`);
+      i++;
+    } else if (SCENE_HEADING.test(line)) {
+      blocks.push(`# ${line.replace(/^\./, '').replace(/\s*#[^#]*#\s*$/, '').trim()}`);
+      i++;
+    } else if (TRANSITION.test(line) && !line.startsWith('!')) {
+      i++;
+    } else if (looksLikeCue(line, next) && !line.startsWith('!')) {
+      const name = cueName(line);
+      characters.push(name);
+      const dialogue: string[] = [];
+      for (i++; i < lines.length && lines[i].trim(); i++) {
+        dialogue.push(stripEmphasis(lines[i].trim().replace(/^~\s*/, '')));
+      }
+      blocks.push(`${name}: ${dialogue.join('\n')}`);
+    } else {
+      const action: string[] = [];
+      for (; i < lines.length && lines[i].trim(); i++) {
+        action.push(stripEmphasis(lines[i].trim().replace(/^!/, '').replace(/^>\s*(.*?)\s*<$/, '$1')));
+      }
+      blocks.push(action.join('\n'));
+    }
+  }
+
+  return { format: 'fountain', text: blocks.join('\n\n'), characters: uniqueNames(characters), title };
+};
+
+// Fountain cues must be uppercase; names that would not survive the round trip get forced with "@"
+const fountainCue = (name: string) => {
+  const upper = name.toUpperCase();
+  return cueName(upper) === name ? upper : `@${name}`;
+};
+
+// Writes the script as Fountain. The first cast member's plain lines become action, everyone
+// else (and directed narration) becomes dialogue; pauses and sfx cues are kept as notes.
+export const exportFountain = (text: string, cast: CastMember[], title?: string): string => {
+  const blocks: string[] = [];
+  if (title?.trim()) blocks.push(`Title: ${title.trim()}`);
+
+  parseScript(text, cast).turns.forEach(turn => {
+    if (turn.chapter) blocks.push(`# ${turn.chapter}`);
+    blocks.push(...leadInDirectives(turn).map(directive => `[[${directive}]]`));
+
+    const speaker = cast.find(member => member.id === turn.castId) || cast[0];
+    if (speaker === cast[0] && !turn.direction) {
+      // Force lines that Fountain would otherwise read as a cue, heading or other element
+      const forced = /^[#.>=~!@[]/.test(turn.text) || !/\p{Ll}/u.test(turn.text) || SCENE_HEADING.test(turn.text);
+      blocks.push(forced ? `!${turn.text}` : turn.text);
+      return;
+    }
+    blocks.push([fountainCue(speaker.name.trim()), ...(turn.direction ? [`(${turn.direction})`] : []), turn.text].join('\n'));
+  });
+
+  return `${blocks.join('\n\n')}\n`;
+};
+
+// --- SSML ---
+
+const BREAK_STRENGTH_MS: Record<string, number> = { none: 0, 'x-weak': 250, weak: 500, medium: 750, strong: 1000, 'x-strong': 1500 };
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+const decodeEntities = (value: string) =>
+  value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+
+const parseAttributes = (tag: string) => {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3]);
+  }
+  return attributes;
+};
+
+const parseDurationMs = (value: string): number | null => {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s)$/i);
+  if (!match) return null;
+  return Math.round(Number(match[1]) * (match[2].toLowerCase() === 'ms' ? 1 : 1000));
+};
+
+// Relative SSML values: keywords, percentages ("80%") or signed offsets ("+2st", "-6dB")
+const prosodyLevel = (value: string | undefined, low: string[], high: string[]): -1 | 0 | 1 => {
+  if (!value) return 0;
+  const v = value.trim().toLowerCase();
+  if (low.includes(v)) return -1;
+  if (high.includes(v)) return 1;
+  const percent = v.match(/^(\d+(?:\.\d+)?)%$/);
+  if (percent) return Number(percent[1]) < 100 ? -1 : Number(percent[1]) > 100 ? 1 : 0;
+  if (v.startsWith('-')) return -1;
+  if (v.startsWith('+')) return 1;
+  return 0;
+};
+
+// Turns <prosody> attributes into the kind of direction a writer would put in parentheses
+const describeProsody = (attributes: Record<string, string>) => {
+  const rate = prosodyLevel(attributes.rate, ['x-slow', 'slow'], ['fast', 'x-fast']);
+  const pitch = prosodyLevel(attributes.pitch, ['x-low', 'low'], ['high', 'x-high']);
+  const volume = prosodyLevel(attributes.volume, ['silent', 'x-soft', 'soft'], ['loud', 'x-loud']);
+  return [
+    rate === -1 ? 'slowly' : rate === 1 ? 'quickly' : '',
+    pitch === -1 ? 'low pitch' : pitch === 1 ? 'high pitch' : '',
+    volume === -1 ? 'softly' : volume === 1 ? 'loudly' : '',
+  ].filter(Boolean).join(', ');
+};
+
+interface SsmlChunk {
+  speaker?: string;
+  direction?: string;
+  pauseBeforeMs: number;
+  sfx: SfxCue[];
+  text: string;
+}
+
+// <audio src="sounds/door_creak.wav"> cues the sound named "door_creak"
+const audioCueName = (src = '') => {
+  const file = src.split(/[?#]/)[0].split('/').pop() || '';
+  try {
+    return decodeURIComponent(file).replace(/\.[^.]+$/, '').trim();
+  } catch {
+    return file.replace(/\.[^.]+$/, '').trim();
+  }
+};
+
+// Supports <speak>, <voice name>, <break time|strength>, <prosody rate|pitch|volume> and
+// <sub alias>; <audio src> becomes an sfx cue named after the file. Any other markup is
+// dropped and its text kept.
+export const importSsml = (content: string): ImportedScript => {
+  const chunks: SsmlChunk[] = [];
+  const voices: string[] = [];
+  const prosody: string[] = [];
+  const characters: string[] = [];
+  let pauseMs = 0;
+  let cues: SfxCue[] = [];
+  let skipDepth = 0;
+
+  const addText = (raw: string) => {
+    const text = decodeEntities(raw).replace(/\s+/g, ' ');
+    if (!text.trim()) {
+      if (chunks.length) chunks[chunks.length - 1].text += ' ';
+      return;
+    }
+    const speaker = voices[voices.length - 1];
+    const direction = prosody.filter(Boolean).join(', ') || undefined;
+    const last = chunks[chunks.length - 1];
+    if (last && !pauseMs && !cues.length && last.speaker === speaker && last.direction === direction) {
+      last.text += text;
+    } else {
+      chunks.push({ speaker, direction, pauseBeforeMs: pauseMs, sfx: cues, text });
+      pauseMs = 0;
+      cues = [];
+    }
+  };
+
+  const body = content.replace(/<\?xml[\s\S]*?\?>|<!--[\s\S]*?-->|<!\[CDATA\[|\]\]>/g, '');
+  for (const token of body.match(/<[^>]*>|[^<]+/g) || []) {
+    if (!token.startsWith('<')) {
+      if (!skipDepth) addText(token);
+      continue;
+    }
+    const tag = token.match(/^<\s*(\/)?\s*([\w:-]+)/);
+    if (!tag) continue;
+    const closing = !!tag[1];
+    const name = tag[2].toLowerCase().replace(/^\w+:/, '');
+    const selfClosing = /\/\s*>$/.test(token);
+    const attributes = parseAttributes(token);
+
+    if (skipDepth) {
+      if (name === 'sub' || name === 'audio') skipDepth += closing ? -1 : selfClosing ? 0 : 1;
+      continue;
+    }
+
+    switch (name) {
+      case 'voice':
+        if (closing) voices.pop();
+        else if (!selfClosing) {
+          const speaker = attributes.name?.trim() || voices[voices.length - 1];
+          if (attributes.name?.trim()) characters.push(attributes.name.trim());
+          voices.push(speaker);
+        }
+        break;
+      case 'prosody':
+        if (closing) prosody.pop();
+        else if (!selfClosing) prosody.push(describeProsody(attributes));
+        break;
+      case 'break':
+        if (!closing) {
+          // An empty or unreadable time falls back to the strength, like a missing one
+          const ms = attributes.time ? parseDurationMs(attributes.time) : null;
+          pauseMs += ms ?? BREAK_STRENGTH_MS[attributes.strength?.toLowerCase()] ?? BREAK_STRENGTH_MS.medium;
+        }
+        break;
+      case 'sub':
+        if (!closing && attributes.alias) addText(attributes.alias);
+        if (!closing && !selfClosing) skipDepth = 1;
+        break;
+      case 'audio': {
+        const cue = closing ? '' : audioCueName(attributes.src);
+        if (cue) cues.push(pauseMs ? { name: cue, offsetMs: pauseMs } : { name: cue });
+        // Fallback text inside <audio> is only for engines that cannot play the clip
+        if (!closing && !selfClosing) skipDepth = 1;
+        break;
+      }
+      case 'p':
+      case 's':
+        addText(' ');
+        break;
+    }
+  }
+
+  const blocks = chunks
+    .map(chunk => ({ ...chunk, text: chunk.text.trim() }))
+    .filter(chunk => chunk.text)
+    .map(chunk => {
+      const lines = leadInDirectives(chunk).map(directive => `[${directive}]`);
+      const direction = chunk.direction ? `(${chunk.direction})` : '';
+      lines.push(chunk.speaker
+        ? `${chunk.speaker}${direction ? ` ${direction}` : ''}: ${chunk.text}`
+        : `${direction ? `${direction} ` : ''}${chunk.text}`);
+      return lines.join('\n');
+    });
+
+  return { format: 'ssml', text: blocks.join('\n\n'), characters: uniqueNames(characters) };
+};
+
+// --- Markdown / plain text ---
+
+export const importMarkdown = (content: string): ImportedScript => {
+  const text = content
+    .replace(/\r\n?/g, '\n')
+    .replace(/^---\n[\s\S]*?\n---\n/, '') // front matter
+    .replace(/^```[\s\S]*?^```\s*$/gm, '')
+    .split('\n')
+    .map(line => {
+      if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) return '';
+      const bare = line
+        .replace(/^\s*>\s?/, '')
+        .replace(/^\s*(?:[-*+]|\d+[.)])\s+/, '')
+        .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+        .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+        .replace(/`([^`]*)`/g, '$1')
+        // "**Name:** line" and "**Name**: line"
+        .replace(/^(\*\*|__)([^*_:]+?)(:?)\1(:?)/, '$2$3$4');
+      return stripEmphasis(bare);
+    })
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  return { ...importPlainText(text), format: 'markdown' };
+};
+
+export const importPlainText = (content: string): ImportedScript => {
+  const text = content.replace(/\r\n?/g, '\n').trim();
+  const characters = text.split('\n').map(speakerTagOf).filter((name): name is string => !!name);
+  return { format: 'text', text, characters: uniqueNames(characters) };
+};
+
+// Plain .txt files are often Fountain; a title page or uppercase cues without any "Name:" tags give it away
+const looksLikeFountain = (content: string) => {
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+  if (TITLE_PAGE_KEY.test(lines.find(line => line.trim())?.trim() || '')) return true;
+  if (lines.some(line => speakerTagOf(line))) return false;
+  return lines.some((line, i) => !lines[i - 1]?.trim() && line.trim() && looksLikeCue(line.trim(), lines[i + 1]) && !SCENE_HEADING.test(line.trim()));
+};
+
+export const detectScriptFormat = (fileName: string, content: string): ScriptFormat => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'ssml' || /^\s*(?:<\?xml[^>]*>\s*)?<speak[\s>]/i.test(content)) return 'ssml';
+  if (extension === 'fountain' || extension === 'spmd') return 'fountain';
+  if (extension === 'md' || extension === 'markdown') return 'markdown';
+  return looksLikeFountain(content) ? 'fountain' : 'text';
+};
+
+export const importScript = (fileName: string, content: string): ImportedScript => {
+  switch (detectScriptFormat(fileName, content)) {
+    case 'ssml': return importSsml(content);
+    case 'fountain': return importFountain(content);
+    case 'markdown': return importMarkdown(content);
+    default: return importPlainText(content);
+  }
+};
+
+// Adds a cast member for every imported character not already cast. Names that match a voice
+// ("Kore") get that voice; the rest take voices the cast is not using yet, in order.
+export const castForCharacters = (cast: CastMember[], characters: string[], voices: VoiceOption[]): CastMember[] => {
+  const next = [...cast];
+  characters.forEach(name => {
+    if (next.some(member => member.name.trim().toLowerCase() === name.toLowerCase())) return;
+    const named = voices.find(v => v.name.toLowerCase() === name.toLowerCase() || v.apiId.toLowerCase() === name.toLowerCase());
+    const unused = voices.find(v => !next.some(member => member.voiceId === v.id));
+    const voice = named || unused || voices[next.length % voices.length];
+    next.push({ id: crypto.randomUUID(), name, voiceId: voice.id, color: nextCastColor(next) });
+  });
+  return next;
+};
@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import { Gender, StorySegment, VoiceOption } from '../types';
+import { arrangeSegments, hashSegment, mergeSegments, reconcileSegments, segmentTimings, turnTimings } from './segments';
+import { ScriptTurn } from './script';
+
+const voice = (id: string, overrides: Partial<VoiceOption> = {}): VoiceOption => ({
+  id, apiId: id, name: id, gender: Gender.Neutral, description: '', color: '', speed: 1, pitch: 0, ...overrides,
+});
+
+const MODEL = 'test-tts';
+
+const turn = (voiceId: string, text: string): ScriptTurn => ({ castId: `cast-${voiceId}`, voiceId, text, sourceLine: `${voiceId}: ${text}` });
+
+const segment = (voiceId: string, text: string, voices: VoiceOption[], audio: number[] | null): StorySegment => ({
+  id: `${voiceId}-${text}`,
+  voiceId,
+  text,
+  sourceLine: `${voiceId}: ${text}`,
+  hash: hashSegment(text, MODEL, voices.find(v => v.id === voiceId)),
+  audioData: audio && new Int16Array(audio),
+});
+
+describe('hashSegment', () => {
+  it('changes with anything that affects the render', () => {
+    const base = hashSegment('Hello', MODEL, voice('kore'));
+    expect(hashSegment('Hello', MODEL, voice('kore'))).toBe(base);
+    expect(hashSegment('Hello!', MODEL, voice('kore'))).not.toBe(base);
+    expect(hashSegment('Hello', MODEL, voice('kore', { apiId: 'puck' }))).not.toBe(base);
+    expect(hashSegment('Hello', MODEL, voice('kore', { speed: 1.1 }))).not.toBe(base);
+    expect(hashSegment('Hello', MODEL, voice('kore', { pitch: -100 }))).not.toBe(base);
+    expect(hashSegment('Hello', MODEL, voice('kore'), 'Say the following while whispering')).not.toBe(base);
+    expect(hashSegment('Hello', MODEL, voice('kore'), '')).toBe(base);
+    expect(hashSegment('Hello', 'other-tts', voice('kore'))).not.toBe(base);
+  });
+});
+
+describe('reconcileSegments', () => {
+  const voices = [voice('kore'), voice('puck')];
+
+  it('reuses rendered audio for unchanged lines and keeps mute state', () => {
+    const kept = { ...segment('kore', 'One', voices, [1]), muted: true };
+    const [first, second] = reconcileSegments([turn('kore', 'One'), turn('puck', 'Two')], [kept], voices, MODEL);
+    expect(first).toMatchObject({ id: kept.id, muted: true });
+    expect(first.audioData).toBe(kept.audioData);
+    expect(second.audioData).toBeNull();
+    expect(second.hash).toBe(hashSegment('Two', MODEL, voices[1]));
+  });
+
+  it('re-renders a line when its style changes', () => {
+    const existing = [segment('kore', 'One', voices, [1])];
+    const cast = [{ id: 'cast-kore', name: 'Kore', voiceId: 'kore', stylePrompt: 'Menacing' }];
+    expect(reconcileSegments([turn('kore', 'One')], existing, voices, MODEL)[0].audioData).not.toBeNull();
+    expect(reconcileSegments([turn('kore', 'One')], existing, voices, MODEL, cast)[0].audioData).toBeNull();
+    expect(reconcileSegments([{ ...turn('kore', 'One'), direction: 'softly' }], existing, voices, MODEL)[0].audioData).toBeNull();
+  });
+
+  it('re-renders a line when its voice settings change', () => {
+    const existing = [segment('kore', 'One', voices, [1])];
+    const faster = [voice('kore', { speed: 1.2 }), voices[1]];
+    expect(reconcileSegments([turn('kore', 'One')], existing, faster, MODEL)[0].audioData).toBeNull();
+  });
+
+  it('re-renders audio made by a different TTS model', () => {
+    const existing = [segment('kore', 'One', voices, [1])];
+    expect(reconcileSegments([turn('kore', 'One')], existing, voices, 'mock-formant-tts')[0].audioData).toBeNull();
+  });
+
+  it('hands each duplicate line its own segment', () => {
+    const existing = [
+      { ...segment('kore', 'Again', voices, [1]), id: 'a' },
+      { ...segment('kore', 'Again', voices, [2]), id: 'b' },
+    ];
+    const result = reconcileSegments([turn('kore', 'Again'), turn('kore', 'Again'), turn('kore', 'Again')], existing, voices, MODEL);
+    expect(result.map(s => s.id).slice(0, 2)).toEqual(['a', 'b']);
+    expect(result[2].audioData).toBeNull();
+  });
+
+  it('refreshes script directives on reused segments', () => {
+    const existing = [{ ...segment('kore', 'One', voices, [1]), chapter: 'Old', pauseBeforeMs: 500 }];
+    const [reused] = reconcileSegments([{ ...turn('kore', 'One'), chapter: 'New' }], existing, voices, MODEL);
+    expect(reused.audioData).toBe(existing[0].audioData);
+    expect(reused.chapter).toBe('New');
+    expect(reused.pauseBeforeMs).toBeUndefined();
+  });
+
+  it('ignores existing segments that were never rendered', () => {
+    const pending = segment('kore', 'One', voices, null);
+    expect(reconcileSegments([turn('kore', 'One')], [pending], voices, MODEL)[0].id).not.toBe(pending.id);
+  });
+});
+
+describe('mergeSegments', () => {
+  it('concatenates audible rendered segments in order', () => {
+    const voices = [voice('kore')];
+    const merged = mergeSegments([
+      segment('kore', 'A', voices, [1, 2]),
+      { ...segment('kore', 'B', voices, [3]), muted: true },
+      segment('kore', 'C', voices, null),
+      segment('kore', 'D', voices, [4]),
+    ]);
+    expect(Array.from(merged, sample => sample * 32768)).toEqual([1, 2, 4]);
+  });
+
+  it('inserts requested pauses as silence', () => {
+    const voices = [voice('kore')];
+    const merged = mergeSegments([
+      segment('kore', 'A', voices, [1]),
+      { ...segment('kore', 'B', voices, [2]), pauseBeforeMs: 3 },
+    ], 1000);
+    expect(Array.from(merged, sample => sample * 32768)).toEqual([1, 0, 0, 0, 2]);
+  });
+});
+
+describe('arrangeSegments', () => {
+  it('trims each segment and spaces them by the mastering gap', () => {
+    const voices = [voice('kore')];
+    const { samples, timings } = arrangeSegments([
+      segment('kore', 'A', voices, [0, 0, 0, 9000, 0, 0]),
+      segment('kore', 'B', voices, [9000]),
+      { ...segment('kore', 'C', voices, [9000]), pauseBeforeMs: 1 },
+    ], 1000, { turnGapMs: 3, loudnessTarget: null, truePeakDb: -1 });
+    expect(timings.map(t => [t.segment.text, t.pauseStart, t.start, t.end])).toEqual([
+      ['A', 0, 0, 6],
+      ['B', 6, 9, 10],
+      ['C', 10, 11, 12],
+    ]);
+    expect(samples.length).toBe(12);
+  });
+});
+
+describe('segmentTimings', () => {
+  it('places each audible segment where mergeSegments puts it', () => {
+    const voices = [voice('kore')];
+    const timings = segmentTimings([
+      segment('kore', 'A', voices, [1, 2]),
+      { ...segment('kore', 'B', voices, [3]), muted: true },
+      { ...segment('kore', 'C', voices, [4, 5, 6]), pauseBeforeMs: 3 },
+    ], 1000);
+    expect(timings.map(t => [t.segment.text, t.pauseStart, t.start, t.end])).toEqual([
+      ['A', 0, 0, 2],
+      ['C', 2, 5, 8],
+    ]);
+  });
+});
+
+describe('turnTimings', () => {
+  it('names each timing after the cast member reading it', () => {
+    const voices = [voice('kore')];
+    const cast = [{ id: 'cast-kore', name: 'Ava', voiceId: 'kore' }];
+    expect(turnTimings([
+      { ...segment('kore', 'Hi', voices, [1, 2]), castId: 'cast-kore' },
+      segment('kore', 'Bye', voices, [3]),
+    ], cast)).toEqual([
+      { speaker: 'Ava', text: 'Hi', start: 0, end: 2 },
+      { speaker: '', text: 'Bye', start: 2, end: 3 },
+    ]);
+  });
+});
@@ -0,0 +1,66 @@
+import { CastMember, MasteringSettings, StorySegment, TurnTiming, VoiceOption } from '../types';
+import { arrangeTurns, TurnPlacement } from './audio';
+import { ScriptTurn } from './script';
+import { segmentStyle } from './speechStyle';
+
+// FNV-1a; only needs to tell "same render inputs" apart, not be cryptographic
+export const fnv1a = (input: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Everything that changes the rendered audio goes into the hash, including the TTS model, so
+// audio from one provider (e.g. the offline mock) is never reused once another is active.
+export const hashSegment = (text: string, model: string, voice?: VoiceOption, style = ''): string =>
+  fnv1a([model, voice?.apiId ?? '', voice?.speed ?? 1, voice?.pitch ?? 0, text, ...(style ? [style] : [])].join('|')).toString(16).padStart(8, '0');
+
+// Maps freshly parsed turns onto existing segments. Turns whose hash matches an unused
+// segment keep its audio (and mute state); everything else comes back with audioData = null.
+// model is the active provider's ttsModel.
+export const reconcileSegments = (turns: ScriptTurn[], existing: StorySegment[], voices: VoiceOption[], model: string, cast: CastMember[] = []): StorySegment[] => {
+  const pool = new Map<string, StorySegment[]>();
+  existing.forEach(seg => {
+    if (!seg.audioData) return;
+    pool.set(seg.hash, [...(pool.get(seg.hash) || []), seg]);
+  });
+
+  return turns.map(turn => {
+    const hash = hashSegment(turn.text, model, voices.find(v => v.id === turn.voiceId), segmentStyle(turn, cast));
+    const reused = pool.get(hash)?.shift();
+    if (reused) return { ...turn, id: reused.id, hash, audioData: reused.audioData, muted: reused.muted };
+    return { id: crypto.randomUUID(), ...turn, hash, audioData: null };
+  });
+};
+
+// Where an audible segment lands in the mergeSegments output, in samples. pauseStart is where
+// its leading silence begins; start and end bound the voice itself.
+export interface SegmentTiming extends TurnPlacement {
+  segment: StorySegment;
+}
+
+// Lays the audible segments out as one float voice track, with any [pause] silence ahead of them.
+// With mastering settings the turns are trimmed, levelled and spaced as arrangeTurns does.
+export const arrangeSegments = (segments: StorySegment[], sampleRate = 24000, mastering?: MasteringSettings): { samples: Float32Array; timings: SegmentTiming[] } => {
+  const audible = segments.filter(s => !s.muted && s.audioData);
+  const { samples, placements } = arrangeTurns(audible.map(s => ({ pcm: s.audioData!, pauseBeforeMs: s.pauseBeforeMs })), mastering, sampleRate);
+  return { samples, timings: placements.map((placement, i) => ({ segment: audible[i], ...placement })) };
+};
+
+export const mergeSegments = (segments: StorySegment[], sampleRate = 24000, mastering?: MasteringSettings): Float32Array =>
+  arrangeSegments(segments, sampleRate, mastering).samples;
+
+export const segmentTimings = (segments: StorySegment[], sampleRate = 24000, mastering?: MasteringSettings): SegmentTiming[] =>
+  arrangeSegments(segments, sampleRate, mastering).timings;
+
+// segmentTimings in the form saved on the project for captions, named by cast member
+export const turnTimings = (segments: StorySegment[], cast: CastMember[], sampleRate = 24000, mastering?: MasteringSettings): TurnTiming[] =>
+  segmentTimings(segments, sampleRate, mastering).map(({ segment, start, end }) => ({
+    speaker: cast.find(member => member.id === segment.castId)?.name || '',
+    text: segment.text,
+    start,
+    end,
+  }));
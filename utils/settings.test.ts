@@ -0,0 +1,23 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { readNumberSetting, writeNumberSetting } from './settings';
+
+describe('number settings', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('round-trips through localStorage', () => {
+    const store = new Map<string, string>();
+    vi.stubGlobal('localStorage', { getItem: (key: string) => store.get(key) ?? null, setItem: (key: string, value: string) => store.set(key, value) });
+    expect(readNumberSetting('rpm', 60)).toBe(60);
+    writeNumberSetting('rpm', 30);
+    expect(readNumberSetting('rpm', 60)).toBe(30);
+  });
+
+  it('falls back to the default when storage is missing, blocked or holds junk', () => {
+    vi.stubGlobal('localStorage', undefined);
+    expect(readNumberSetting('rpm', 60)).toBe(60);
+    vi.stubGlobal('localStorage', { getItem: () => { throw new Error('blocked'); } });
+    expect(readNumberSetting('rpm', 60)).toBe(60);
+    vi.stubGlobal('localStorage', { getItem: () => 'lots' });
+    expect(readNumberSetting('rpm', 60)).toBe(60);
+  });
+});
@@ -0,0 +1,22 @@
+// Per-browser knobs (request rate, cache size) that belong to neither a user nor a project.
+// Storage can be missing (tests) or blocked (private windows); the default applies then.
+
+const SETTINGS_PREFIX = 'neonvoice:';
+
+export const readNumberSetting = (key: string, fallback: number): number => {
+  try {
+    const stored = globalThis.localStorage?.getItem(SETTINGS_PREFIX + key);
+    const value = stored === null || stored === undefined ? NaN : Number(stored);
+    return Number.isFinite(value) ? value : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export const writeNumberSetting = (key: string, value: number) => {
+  try {
+    globalThis.localStorage?.setItem(SETTINGS_PREFIX + key, String(value));
+  } catch (e) {
+    console.warn(`Could not save the ${key} setting`, e);
+  }
+};
@@ -0,0 +1,56 @@
+import {
+  LiveConnectParameters,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+} from '@google/genai';
+import { VoiceAnalysis } from '../types';
+import { geminiSpeechProvider } from './gemini';
+import { mockSpeechProvider } from './mockSpeech';
+
+// Everything the app asks of a speech backend. Components and hooks go through the active
+// provider instead of calling Gemini directly, so the whole app can run offline.
+
+export interface SpeechRequestOptions {
+  signal?: AbortSignal;
+}
+
+// The subset of the SDK's Live Session the app uses
+export interface LiveSessionHandle {
+  sendRealtimeInput: (params: LiveSendRealtimeInputParameters) => void;
+  sendClientContent: (params: LiveSendClientContentParameters) => void;
+  sendToolResponse: (params: LiveSendToolResponseParameters) => void;
+  close: () => void;
+}
+
+export interface SpeechProvider {
+  id: 'gemini' | 'mock';
+  ttsModel: string; // Part of the TTS cache key, so providers never share cached audio
+  // Both TTS calls resolve to base64 16-bit PCM at 24kHz
+  // style is a natural-language delivery instruction (see utils/speechStyle)
+  tts: (request: { text: string; voice: string; style?: string }, options?: SpeechRequestOptions) => Promise<string>;
+  multiSpeakerTts: (request: { text: string; speakers: { speaker: string; voice: string }[] }, options?: SpeechRequestOptions) => Promise<string>;
+  analyzeVoice: (sample: { data: string; mimeType: string }, options?: SpeechRequestOptions) => Promise<VoiceAnalysis>;
+  liveConnect: (params: LiveConnectParameters) => Promise<LiveSessionHandle>;
+}
+
+// The offline provider is opt-in (SPEECH_PROVIDER=mock). Without an API key Gemini stays
+// active and every call fails with a 'missing_key' error instead of quietly faking audio.
+const pickDefault = (): SpeechProvider =>
+  process.env.SPEECH_PROVIDER === 'mock' ? mockSpeechProvider : geminiSpeechProvider;
+
+let activeProvider: SpeechProvider | null = null;
+
+export const getSpeechProvider = (): SpeechProvider => {
+  if (!activeProvider) {
+    activeProvider = pickDefault();
+    if (activeProvider.id === 'mock') console.info("Speech provider: offline mock (synthetic audio)");
+  }
+  return activeProvider;
+};
+
+export const setSpeechProvider = (provider: SpeechProvider) => {
+  activeProvider = provider;
+};
+
+export const isMockSpeechProvider = () => getSpeechProvider().id === 'mock';
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { CastMember } from '../types';
+import { segmentStyle, styleInstruction } from './speechStyle';
+
+describe('styleInstruction', () => {
+  it('is empty without a style or direction', () => {
+    expect(styleInstruction()).toBe('');
+    expect(styleInstruction('  ', '')).toBe('');
+  });
+
+  it('phrases directions the way they are written', () => {
+    expect(styleInstruction(undefined, 'ominously')).toBe('Say the following ominously');
+    expect(styleInstruction(undefined, 'whispering')).toBe('Say the following while whispering');
+    expect(styleInstruction(undefined, 'excited')).toBe('Say the following in an excited tone');
+    expect(styleInstruction(undefined, 'sad, like a pirate')).toBe('Say the following in a sad tone, like a pirate');
+  });
+
+  it('leads with the cast member default style', () => {
+    expect(styleInstruction('gravelly old sea captain.', 'whispering')).toBe('Gravelly old sea captain. Say the following while whispering');
+    expect(styleInstruction('warm storyteller')).toBe('Warm storyteller. Say the following');
+  });
+});
+
+describe('segmentStyle', () => {
+  it('looks up the default style of the segment cast member', () => {
+    const cast: CastMember[] = [{ id: 'a', name: 'Alice', voiceId: 'v', stylePrompt: 'cheerful' }];
+    expect(segmentStyle({ castId: 'a', direction: 'shouting' }, cast)).toBe('Cheerful. Say the following while shouting');
+    expect(segmentStyle({ castId: 'missing' }, cast)).toBe('');
+  });
+});
@@ -0,0 +1,30 @@
+import { CastMember } from '../types';
+
+// Directions are written the way actors read them: adverbs ("ominously"), participles
+// ("whispering"), single moods ("excited") or free phrases ("like a pirate").
+const describeDirection = (direction: string) =>
+  direction.split(',')
+    .map(phrase => phrase.trim())
+    .filter(Boolean)
+    .map(phrase => {
+      if (/\s/.test(phrase) || /ly$/i.test(phrase)) return phrase;
+      if (/ing$/i.test(phrase)) return `while ${phrase}`;
+      return `in ${/^[aeiou]/i.test(phrase) ? 'an' : 'a'} ${phrase} tone`;
+    })
+    .join(', ');
+
+// Natural-language instruction the TTS model gets ahead of the line, e.g.
+// "A gravelly old sea captain. Say the following while whispering". Empty when there is nothing to say.
+export const styleInstruction = (castStyle?: string, direction?: string): string => {
+  const style = castStyle?.trim().replace(/[\s.,:;]+$/, '');
+  const delivery = direction ? describeDirection(direction) : '';
+  if (!style && !delivery) return '';
+  return [
+    style ? `${style.charAt(0).toUpperCase()}${style.slice(1)}.` : '',
+    `Say the following${delivery ? ` ${delivery}` : ''}`,
+  ].filter(Boolean).join(' ');
+};
+
+// Style for a parsed turn or Story segment, from its direction and its cast member's default
+export const segmentStyle = (segment: { castId?: string; direction?: string }, cast: CastMember[]): string =>
+  styleInstruction(cast.find(member => member.id === segment.castId)?.stylePrompt, segment.direction);
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { id3v2Tag, pictureBlock, pictureCommentField, vorbisComment, vorbisCommentFields } from './tags';
+
+const text = (bytes: Uint8Array, start: number, length: number) => new TextDecoder().decode(bytes.subarray(start, start + length));
+const cover = { mimeType: 'image/png', data: new Uint8Array([1, 2, 3]), width: 600, height: 400 };
+
+describe('id3v2Tag', () => {
+  it('writes a v2.3 header with a syncsafe size', () => {
+    const tag = id3v2Tag({ title: 'Episode', artist: 'Nova' });
+    expect(text(tag, 0, 3)).toBe('ID3');
+    expect(Array.from(tag.subarray(3, 6))).toEqual([3, 0, 0]);
+    const size = (tag[6] << 21) | (tag[7] << 14) | (tag[8] << 7) | tag[9];
+    expect(size).toBe(tag.length - 10);
+    expect(tag.subarray(6, 10).every(byte => byte < 0x80)).toBe(true);
+  });
+
+  it('writes UTF-16 text frames and a front cover picture', () => {
+    const tag = id3v2Tag({ title: 'Ép', cover });
+    expect(text(tag, 10, 4)).toBe('TIT2');
+    expect(new DataView(tag.buffer).getUint32(14)).toBe(1 + 2 + 4);
+    expect(Array.from(tag.subarray(20, 27))).toEqual([1, 0xff, 0xfe, 0xc9, 0, 0x70, 0]);
+    expect(text(tag, 27, 4)).toBe('APIC');
+    expect(text(tag, 38, 9)).toBe('image/png');
+    expect(Array.from(tag.subarray(47))).toEqual([0, 3, 0, 1, 2, 3]);
+  });
+
+  it('is empty when there is nothing to tag', () => {
+    expect(id3v2Tag({ title: '  ' }).length).toBe(0);
+  });
+});
+
+describe('vorbis comments', () => {
+  it('length-prefixes the vendor and each field little-endian', () => {
+    const block = vorbisComment('v', vorbisCommentFields({ title: 'T', artist: 'A ' }));
+    const view = new DataView(block.buffer);
+    expect(view.getUint32(0, true)).toBe(1);
+    expect(view.getUint32(5, true)).toBe(2);
+    expect(view.getUint32(9, true)).toBe(7);
+    expect(text(block, 13, 7)).toBe('TITLE=T');
+    expect(text(block, 24, 8)).toBe('ARTIST=A');
+    expect(block.length).toBe(32);
+  });
+
+  it('carries the cover as a base64 picture block', () => {
+    const block = pictureBlock(cover);
+    const view = new DataView(block.buffer);
+    expect(view.getUint32(0)).toBe(3);
+    expect(view.getUint32(17)).toBe(0);
+    expect(view.getUint32(21)).toBe(600);
+    expect(view.getUint32(25)).toBe(400);
+    expect(Array.from(block.subarray(-3))).toEqual([1, 2, 3]);
+    const field = pictureCommentField(cover);
+    expect(field.startsWith('METADATA_BLOCK_PICTURE=')).toBe(true);
+    expect(Uint8Array.from(atob(field.slice(field.indexOf('=') + 1)), c => c.charCodeAt(0))).toEqual(block);
+  });
+});
@@ -0,0 +1,98 @@
+import { arrayBufferToBase64 } from './audio';
+
+export interface CoverArt {
+  mimeType: string; // e.g. "image/jpeg"
+  data: Uint8Array;
+  width?: number;
+  height?: number;
+}
+
+// Tags written into exported files
+export interface AudioMetadata {
+  title?: string;
+  artist?: string;
+  cover?: CoverArt;
+}
+
+const utf8 = (value: string) => new TextEncoder().encode(value);
+
+export const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+export const uint32BE = (value: number) => new Uint8Array([value >>> 24, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff]);
+
+export const uint32LE = (value: number) => new Uint8Array([value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, value >>> 24]);
+
+// --- ID3v2.3 (MP3) ---
+// v2.3 rather than v2.4 because older players still ignore v2.4 tags; text is UTF-16 with BOM.
+
+const utf16WithBom = (value: string) => {
+  const out = new Uint8Array(2 + value.length * 2);
+  out[0] = 0xff;
+  out[1] = 0xfe;
+  for (let i = 0; i < value.length; i++) {
+    out[2 + i * 2] = value.charCodeAt(i) & 0xff;
+    out[3 + i * 2] = value.charCodeAt(i) >> 8;
+  }
+  return out;
+};
+
+const id3Frame = (id: string, body: Uint8Array) =>
+  concatBytes([utf8(id), uint32BE(body.length), new Uint8Array(2), body]);
+
+const id3TextFrame = (id: string, value: string) => id3Frame(id, concatBytes([new Uint8Array([1]), utf16WithBom(value)]));
+
+// Size in the tag header is "syncsafe": 7 bits per byte
+const syncsafe = (value: number) => new Uint8Array([(value >>> 21) & 0x7f, (value >>> 14) & 0x7f, (value >>> 7) & 0x7f, value & 0x7f]);
+
+// Tag to put in front of the MP3 frames; empty when there is nothing to write
+export const id3v2Tag = ({ title, artist, cover }: AudioMetadata): Uint8Array => {
+  const frames: Uint8Array[] = [];
+  if (title?.trim()) frames.push(id3TextFrame('TIT2', title.trim()));
+  if (artist?.trim()) frames.push(id3TextFrame('TPE1', artist.trim()));
+  if (cover) {
+    // Latin-1 mime type, picture type 3 (front cover), empty description
+    frames.push(id3Frame('APIC', concatBytes([new Uint8Array([0]), utf8(cover.mimeType), new Uint8Array([0, 3, 0]), cover.data])));
+  }
+  if (frames.length === 0) return new Uint8Array(0);
+  const body = concatBytes(frames);
+  return concatBytes([utf8('ID3'), new Uint8Array([3, 0, 0]), syncsafe(body.length), body]);
+};
+
+// --- Vorbis comments (FLAC and Opus) ---
+
+export const vorbisCommentFields = ({ title, artist }: AudioMetadata): string[] => [
+  ...(title?.trim() ? [`TITLE=${title.trim()}`] : []),
+  ...(artist?.trim() ? [`ARTIST=${artist.trim()}`] : []),
+];
+
+// Vendor string plus "KEY=value" fields, little-endian length prefixed (no framing bit,
+// which FLAC and Opus both leave out)
+export const vorbisComment = (vendor: string, fields: string[]): Uint8Array => {
+  const parts = [uint32LE(utf8(vendor).length), utf8(vendor), uint32LE(fields.length)];
+  fields.forEach(field => parts.push(uint32LE(utf8(field).length), utf8(field)));
+  return concatBytes(parts);
+};
+
+// FLAC PICTURE block body; Opus carries the same bytes base64 encoded in METADATA_BLOCK_PICTURE
+export const pictureBlock = (cover: CoverArt): Uint8Array => concatBytes([
+  uint32BE(3), // Front cover
+  uint32BE(utf8(cover.mimeType).length),
+  utf8(cover.mimeType),
+  uint32BE(0), // No description
+  uint32BE(cover.width || 0),
+  uint32BE(cover.height || 0),
+  uint32BE(0), // Color depth and palette size unknown
+  uint32BE(0),
+  uint32BE(cover.data.length),
+  cover.data,
+]);
+
+export const pictureCommentField = (cover: CoverArt) => `METADATA_BLOCK_PICTURE=${arrayBufferToBase64(pictureBlock(cover).buffer as ArrayBuffer)}`;
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { AgentTool } from '../types';
+import { toolNameErrors, uniqueToolName } from './tools';
+
+const tool = (id: string, name: string): AgentTool => ({ id, name, description: '', parameters: {}, handler: 'clock' });
+
+describe('uniqueToolName', () => {
+  it('keeps a free name and otherwise takes the first free suffix', () => {
+    expect(uniqueToolName('get_time', [])).toBe('get_time');
+    // After removing get_time_2, a count-based suffix would collide with get_time_3
+    expect(uniqueToolName('get_time', [tool('a', 'get_time'), tool('c', 'get_time_3')])).toBe('get_time_2');
+    expect(uniqueToolName('get_time', [tool('a', 'get_time'), tool('b', 'get_time_2')])).toBe('get_time_3');
+  });
+});
+
+describe('toolNameErrors', () => {
+  it('flags empty and duplicate names on every tool involved', () => {
+    const errors = toolNameErrors([tool('a', 'lookup'), tool('b', 'lookup'), tool('c', ' '), tool('d', 'clock')]);
+    expect(Object.keys(errors).sort()).toEqual(['a', 'b', 'c']);
+    expect(errors.c).toBe('Name is required');
+    expect(toolNameErrors([tool('a', 'lookup'), tool('b', 'clock')])).toEqual({});
+  });
+});
@@ -0,0 +1,169 @@
+import { AgentTool } from '../types';
+import { getProjectsByUser } from './db';
+
+export interface ToolContext {
+  userId?: string;
+}
+
+// Shape sent back to the model as FunctionResponse.response
+export type ToolResult = Record<string, unknown>;
+
+const MAX_HTTP_RESPONSE_CHARS = 4000;
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+// Declarations in the shape the Live session config expects
+export const toFunctionDeclarations = (tools: AgentTool[]) =>
+  tools.map(tool => ({
+    name: tool.name,
+    description: tool.description,
+    parametersJsonSchema: tool.parameters,
+  }));
+
+// Function names must be unique within a session: `base`, else the first free `base_N`
+export const uniqueToolName = (base: string, tools: AgentTool[]): string => {
+  const taken = new Set(tools.map(t => t.name));
+  if (!taken.has(base)) return base;
+  let n = 2;
+  while (taken.has(`${base}_${n}`)) n++;
+  return `${base}_${n}`;
+};
+
+// Problems with each tool's name, keyed by tool id; empty when every name is usable
+export const toolNameErrors = (tools: AgentTool[]): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  tools.forEach(tool => {
+    if (!tool.name.trim()) errors[tool.id] = 'Name is required';
+    else if (tools.some(t => t.id !== tool.id && t.name === tool.name)) errors[tool.id] = `Another tool is already named "${tool.name}"`;
+  });
+  return errors;
+};
+
+export const executeTool = async (tool: AgentTool, args: Record<string, unknown>, context: ToolContext): Promise<ToolResult> => {
+  try {
+    switch (tool.handler) {
+      case 'clock':
+        return runClock(args);
+      case 'calculator':
+        return { result: evaluateExpression(String(args.expression ?? '')) };
+      case 'project_lookup':
+        return await runProjectLookup(args, context);
+      case 'http_fetch':
+        return await runHttpFetch(tool, args);
+      default:
+        return { error: `Unsupported tool handler: ${tool.handler}` };
+    }
+  } catch (e) {
+    return { error: e instanceof Error ? e.message : String(e) };
+  }
+};
+
+const runClock = (args: Record<string, unknown>): ToolResult => {
+  const now = new Date();
+  const timeZone = typeof args.timeZone === 'string' && args.timeZone ? args.timeZone : Intl.DateTimeFormat().resolvedOptions().timeZone;
+  return {
+    iso: now.toISOString(),
+    local: now.toLocaleString(undefined, { timeZone, dateStyle: 'full', timeStyle: 'long' }),
+    timeZone,
+  };
+};
+
+const runProjectLookup = async (args: Record<string, unknown>, context: ToolContext): Promise<ToolResult> => {
+  if (!context.userId) return { error: 'No signed-in user; projects are unavailable.' };
+  const query = String(args.query ?? '').trim().toLowerCase();
+  const projects = await getProjectsByUser(context.userId);
+  const matches = projects
+    .filter(p => !query || p.name.toLowerCase().includes(query))
+    .slice(0, 5)
+    .map(p => ({
+      name: p.name,
+      type: p.isLiveSession ? 'live session' : (p.isPodcast ? 'podcast' : 'story'),
+      agent: p.agent.name,
+      durationSeconds: Math.round(p.duration),
+      updatedAt: new Date(p.updatedAt).toISOString(),
+      excerpt: p.text.slice(0, 300),
+    }));
+  return { count: matches.length, projects: matches };
+};
+
+const runHttpFetch = async (tool: AgentTool, args: Record<string, unknown>): Promise<ToolResult> => {
+  if (!tool.endpoint) return { error: 'No endpoint configured for this tool.' };
+  const url = new URL(tool.endpoint);
+  // Tools may only reach services on this machine
+  if (!LOCAL_HOSTS.includes(url.hostname)) {
+    return { error: `Endpoint ${url.hostname} is not a local host.` };
+  }
+
+  const response = await fetch(url.toString(), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ tool: tool.name, args }),
+  });
+  const body = (await response.text()).slice(0, MAX_HTTP_RESPONSE_CHARS);
+  if (!response.ok) return { error: `HTTP ${response.status}`, body };
+
+  try {
+    return { status: response.status, data: JSON.parse(body) };
+  } catch {
+    return { status: response.status, text: body };
+  }
+};
+
+// --- Calculator ---
+// Small recursive-descent evaluator so model-supplied input never reaches eval()
+
+export const evaluateExpression = (expression: string): number => {
+  const tokens = expression.match(/\d+(?:\.\d+)?(?:e[+-]?\d+)?|[-+*/%^()]|\S/gi) || [];
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+
+  const parsePrimary = (): number => {
+    const token = next();
+    if (token === undefined) throw new Error('Unexpected end of expression');
+    if (token === '(') {
+      const value = parseAdditive();
+      if (next() !== ')') throw new Error('Missing closing parenthesis');
+      return value;
+    }
+    if (token === '-') return -parsePrimary();
+    if (token === '+') return parsePrimary();
+    const value = Number(token);
+    if (Number.isNaN(value)) throw new Error(`Unexpected token "${token}"`);
+    return value;
+  };
+
+  const parsePower = (): number => {
+    const base = parsePrimary();
+    if (peek() === '^') {
+      next();
+      return Math.pow(base, parsePower()); // right-associative
+    }
+    return base;
+  };
+
+  const parseMultiplicative = (): number => {
+    let value = parsePower();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const op = next();
+      const rhs = parsePower();
+      value = op === '*' ? value * rhs : op === '/' ? value / rhs : value % rhs;
+    }
+    return value;
+  };
+
+  const parseAdditive = (): number => {
+    let value = parseMultiplicative();
+    while (peek() === '+' || peek() === '-') {
+      const op = next();
+      const rhs = parseMultiplicative();
+      value = op === '+' ? value + rhs : value - rhs;
+    }
+    return value;
+  };
+
+  const result = parseAdditive();
+  if (pos < tokens.length) throw new Error(`Unexpected token "${tokens[pos]}"`);
+  if (!Number.isFinite(result)) throw new Error('Result is not a finite number');
+  return result;
+};
@@ -0,0 +1,98 @@
+import { DEFAULT_TTS_CACHE_BUDGET_BYTES, TTS_MODEL } from '../constants';
+import { base64ToPcm16 } from './audio';
+import { evictTtsCache, getTtsCacheEntry, putTtsCacheEntry } from './db';
+import { readNumberSetting, writeNumberSetting } from './settings';
+
+export interface TtsCacheRequest {
+  model?: string;
+  voice: string;  // Voice apiId, or a speaker=voice list for multi-speaker renders
+  text: string;
+  style?: string;
+}
+
+export interface TtsCacheStats {
+  hits: number;
+  misses: number;
+}
+
+// Budget choices offered next to the cache stats
+export const TTS_CACHE_BUDGETS_MB = [16, 32, 64, 128, 256, 512];
+
+const BUDGET_SETTING = 'ttsCacheBudgetBytes';
+
+let budgetBytes = readNumberSetting(BUDGET_SETTING, DEFAULT_TTS_CACHE_BUDGET_BYTES);
+// Hit/miss counters are per page session; the stored audio is what persists
+let stats: TtsCacheStats = { hits: 0, misses: 0 };
+const listeners = new Set<(stats: TtsCacheStats) => void>();
+
+export const getTtsCacheBudget = () => budgetBytes;
+
+export const setTtsCacheBudget = (bytes: number) => {
+  budgetBytes = Math.max(0, bytes);
+  writeNumberSetting(BUDGET_SETTING, budgetBytes);
+  evictTtsCache(budgetBytes).catch(e => console.warn("TTS cache eviction failed", e));
+};
+
+export const getTtsCacheStats = () => stats;
+
+export const subscribeTtsCacheStats = (listener: (stats: TtsCacheStats) => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const record = (hit: boolean) => {
+  stats = hit ? { ...stats, hits: stats.hits + 1 } : { ...stats, misses: stats.misses + 1 };
+  listeners.forEach(listener => listener(stats));
+};
+
+export const ttsCacheKey = async ({ model = TTS_MODEL, voice, text, style = '' }: TtsCacheRequest): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify([model, voice, text, style])));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Returns cached raw PCM for the request, or runs `synthesize` (which yields the base64
+// inlineData of a generateContent response) and stores the result. `refresh` skips the
+// lookup to force a new take. Cache failures never block synthesis.
+export const synthesizeWithCache = async (
+  request: TtsCacheRequest,
+  synthesize: () => Promise<string | undefined>,
+  { refresh = false }: { refresh?: boolean } = {}
+): Promise<Int16Array | null> => {
+  let key: string | null = null;
+  try {
+    key = await ttsCacheKey(request);
+    const entry = refresh ? null : await getTtsCacheEntry(key);
+    if (entry) {
+      record(true);
+      return entry.pcm;
+    }
+  } catch (e) {
+    console.warn("TTS cache lookup failed", e);
+  }
+
+  record(false);
+  const base64Audio = await synthesize();
+  if (!base64Audio) return null;
+  const pcm = base64ToPcm16(base64Audio);
+
+  if (key) {
+    try {
+      const now = Date.now();
+      await putTtsCacheEntry({
+        key,
+        model: request.model || TTS_MODEL,
+        voice: request.voice,
+        text: request.text,
+        style: request.style || '',
+        pcm,
+        bytes: pcm.byteLength,
+        createdAt: now,
+        lastAccessed: now,
+      });
+      await evictTtsCache(budgetBytes);
+    } catch (e) {
+      console.warn("TTS cache write failed", e);
+    }
+  }
+  return pcm;
+};
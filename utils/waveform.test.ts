@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { formatTime, loopRegion, waveformPeaks } from './waveform';
+
+describe('waveformPeaks', () => {
+  it('takes the loudest sample in each slice', () => {
+    const peaks = waveformPeaks(new Int16Array([0, 100, -32767, 0, 16384, -10]), 3);
+    expect(Array.from(peaks, peak => Number(peak.toFixed(2)))).toEqual([0, 1, 0.5]);
+  });
+
+  it('stretches short clips across every bar', () => {
+    expect(Array.from(waveformPeaks(new Int16Array([32767, 0]), 4))).toEqual([1, 1, 0, 0]);
+    expect(Array.from(waveformPeaks(new Int16Array(0), 3))).toEqual([0, 0, 0]);
+  });
+});
+
+describe('formatTime', () => {
+  it('shows minutes, seconds and tenths', () => {
+    expect(formatTime(0)).toBe('0:00.0');
+    expect(formatTime(75.46)).toBe('1:15.4');
+    expect(formatTime(3725)).toBe('1:02:05.0');
+  });
+});
+
+describe('loopRegion', () => {
+  it('orders drag points and keeps them inside the clip', () => {
+    expect(loopRegion(8, 2, 10)).toEqual({ start: 2, end: 8 });
+    expect(loopRegion(-1, 12, 10)).toEqual({ start: 0, end: 10 });
+  });
+
+  it('ignores drags too short to loop', () => {
+    expect(loopRegion(3, 3.1, 10)).toBeNull();
+  });
+});
@@ -0,0 +1,42 @@
+// Playback region repeated by the transport, in seconds
+export interface LoopRegion {
+  start: number;
+  end: number;
+}
+
+export const PLAYBACK_SPEEDS = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+// Shorter drags are treated as a click, not a loop selection
+export const MIN_LOOP_SECONDS = 0.25;
+
+// Peak level (0-1) of each of `buckets` equal slices of the clip, for drawing its waveform
+export const waveformPeaks = (pcm: Int16Array, buckets: number): Float32Array => {
+  const peaks = new Float32Array(Math.max(0, buckets));
+  if (pcm.length === 0) return peaks;
+  for (let b = 0; b < peaks.length; b++) {
+    const start = Math.floor((b * pcm.length) / peaks.length);
+    const end = Math.max(start + 1, Math.floor(((b + 1) * pcm.length) / peaks.length));
+    let peak = 0;
+    for (let i = start; i < end && i < pcm.length; i++) {
+      const value = Math.abs(pcm[i]);
+      if (value > peak) peak = value;
+    }
+    peaks[b] = Math.min(1, peak / 32767);
+  }
+  return peaks;
+};
+
+// "m:ss.t", with hours once the clip runs that long
+export const formatTime = (seconds: number): string => {
+  const tenths = Math.max(0, Math.floor(seconds * 10));
+  const s = Math.floor(tenths / 10);
+  const clock = `${Math.floor(s / 60) % 60}:${String(s % 60).padStart(2, '0')}.${tenths % 10}`;
+  return s >= 3600 ? `${Math.floor(s / 3600)}:${clock.padStart(7, '0')}` : clock;
+};
+
+// A loop from two drag points in either order, kept inside the clip; null when too short to use
+export const loopRegion = (from: number, to: number, duration: number): LoopRegion | null => {
+  const start = Math.max(0, Math.min(from, to));
+  const end = Math.min(duration, Math.max(from, to));
+  return end - start >= MIN_LOOP_SECONDS ? { start, end } : null;
+};
@@ -0,0 +1,84 @@
+// AudioWorklet processors are shipped as source strings and loaded through Blob URLs,
+// so they work both under Vite and when the app is served straight from the importmap.
+
+export const PCM_CAPTURE_PROCESSOR = 'pcm-capture-processor';
+
+export const DEFAULT_CAPTURE_CHUNK_SIZE = 4096; // samples per posted chunk (~256ms at 16kHz)
+
+// Message posted by the capture processor for every full chunk
+export interface PcmCaptureMessage {
+  pcm: ArrayBuffer; // Int16 little-endian mono, transferred (not copied)
+  frame: number;    // Context frame of the first sample in the chunk
+}
+
+const PCM_CAPTURE_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.chunkSize = (options.processorOptions && options.processorOptions.chunkSize) || ${DEFAULT_CAPTURE_CHUNK_SIZE};
+    this.reset();
+    this.port.onmessage = (e) => {
+      if (e.data && e.data.chunkSize) {
+        this.chunkSize = e.data.chunkSize;
+        this.reset();
+      }
+    };
+  }
+
+  reset() {
+    this.buffer = new Int16Array(this.chunkSize);
+    this.offset = 0;
+    this.chunkFrame = currentFrame;
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+
+    for (let i = 0; i < channel.length; i++) {
+      if (this.offset === 0) this.chunkFrame = currentFrame + i;
+      // Clamp to [-1, 1] to avoid wrap-around distortion before converting
+      const s = Math.max(-1, Math.min(1, channel[i]));
+      this.buffer[this.offset++] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+
+      if (this.offset === this.chunkSize) {
+        const pcm = this.buffer.buffer;
+        this.port.postMessage({ pcm, frame: this.chunkFrame }, [pcm]);
+        this.buffer = new Int16Array(this.chunkSize);
+        this.offset = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('${PCM_CAPTURE_PROCESSOR}', PcmCaptureProcessor);
+`;
+
+const loadedModules = new WeakMap<BaseAudioContext, Set<string>>();
+
+// Registers a processor source on a context once; repeated calls are no-ops
+export async function registerWorklet(ctx: BaseAudioContext, name: string, source: string): Promise<void> {
+  const loaded = loadedModules.get(ctx) || new Set<string>();
+  if (loaded.has(name)) return;
+
+  const url = URL.createObjectURL(new Blob([source], { type: 'application/javascript' }));
+  try {
+    await ctx.audioWorklet.addModule(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+  loaded.add(name);
+  loadedModules.set(ctx, loaded);
+}
+
+export async function createPcmCaptureNode(ctx: BaseAudioContext, chunkSize: number = DEFAULT_CAPTURE_CHUNK_SIZE): Promise<AudioWorkletNode> {
+  await registerWorklet(ctx, PCM_CAPTURE_PROCESSOR, PCM_CAPTURE_SOURCE);
+  return new AudioWorkletNode(ctx, PCM_CAPTURE_PROCESSOR, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: { chunkSize },
+  });
+}